@@ -0,0 +1,41 @@
+// ローカルのユーザー（data/users.json）を追加・更新する
+// 使い方: yarn user:add <ユーザー名> <operator|admin> [表示名]
+// パスワードは標準入力から読む（例: echo 'password' | yarn user:add yamada admin 山田）
+
+import { randomBytes, scryptSync } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+const [username, role, name] = process.argv.slice(2);
+if (!username || !['operator', 'admin'].includes(role)) {
+  console.error('使い方: yarn user:add <ユーザー名> <operator|admin> [表示名]');
+  process.exit(1);
+}
+
+const usersPath = process.env.USERS_PATH || path.join(process.env.DATA_DIR || path.join(process.cwd(), 'data'), 'users.json');
+
+const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+const password = await new Promise(resolve => rl.question('パスワード: ', resolve));
+rl.close();
+
+if (password.length < 8) {
+  console.error('パスワードは8文字以上にしてください');
+  process.exit(1);
+}
+
+// src/lib/auth/users.ts で照合する形式（scrypt$<salt>$<hash>）
+const salt = randomBytes(16);
+const passwordHash = `scrypt$${salt.toString('hex')}$${scryptSync(password, salt, 64).toString('hex')}`;
+
+const data = fs.existsSync(usersPath) ? JSON.parse(fs.readFileSync(usersPath, 'utf8')) : { users: [] };
+const existing = data.users.find(user => user.username === username);
+if (existing) {
+  Object.assign(existing, { role, passwordHash, ...(name ? { name } : {}) });
+} else {
+  data.users.push({ username, name: name || username, role, passwordHash });
+}
+
+fs.mkdirSync(path.dirname(usersPath), { recursive: true });
+fs.writeFileSync(usersPath, JSON.stringify(data, null, 2) + '\n');
+console.error(`${existing ? '更新' : '追加'}しました: ${username}（${role}）`);
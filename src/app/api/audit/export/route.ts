@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exportAuditLog, parseAuditQuery } from '@/lib/audit';
+import { AuthError, requirePermission } from '@/lib/auth';
+
+// 検索条件に一致する監査ログのCSV（Excelで開けるようBOM付きUTF-8）
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('audit:read');
+    const csv = await exportAuditLog(parseAuditQuery(request.nextUrl.searchParams));
+    const fileName = `監査ログ_${new Date().toISOString().slice(0, 10).replace(/-/g, '')}.csv`;
+
+    return new Response(`\uFEFF${csv}`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('監査ログの出力エラー:', error);
+    return NextResponse.json(
+      { error: '監査ログの出力に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAuditQuery, searchAuditLog } from '@/lib/audit';
+import { AuthError, requirePermission } from '@/lib/auth';
+
+// 監査ログの検索（種別・ユーザー・注文ID・期間、新しい順・ページング）
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('audit:read');
+    return NextResponse.json(await searchAuditLog(parseAuditQuery(request.nextUrl.searchParams)));
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('監査ログの読み込みエラー:', error);
+    return NextResponse.json(
+      { error: '監査ログの読み込みに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, createSessionToken, getSessionMaxAge, SESSION_COOKIE, SessionUser } from '@/lib/auth';
+
+// 認証API共通のエラーレスポンス
+export function authErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// ログイン状態のCookieを設定する
+export function setSessionCookie(response: NextResponse, request: NextRequest, user: SessionUser) {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: getSessionMaxAge(),
+  });
+  return response;
+}
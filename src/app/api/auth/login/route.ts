@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, authenticateUser } from '@/lib/auth';
+import { authErrorResponse, setSessionCookie } from '../errors';
+
+// ユーザー名・パスワードでログインする
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json() as { username?: unknown; password?: unknown };
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { error: 'ユーザー名とパスワードを入力してください' },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticateUser(username, password);
+    if (!user) {
+      throw new AuthError('ユーザー名またはパスワードが正しくありません', 401);
+    }
+
+    return setSessionCookie(NextResponse.json({ user }), request, user);
+  } catch (error) {
+    return authErrorResponse(error, 'ログインに失敗しました');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, completeOidcAuthorization, getSafeNextPath, OIDC_STATE_COOKIE, resolveOidcUser } from '@/lib/auth';
+import { setSessionCookie } from '../../errors';
+
+// IdPからのコールバック（ログインに失敗した場合はログイン画面にメッセージを表示する）
+export async function GET(request: NextRequest) {
+  try {
+    const { claims, next } = await completeOidcAuthorization(
+      request.nextUrl.origin,
+      request.nextUrl.searchParams,
+      request.cookies.get(OIDC_STATE_COOKIE)?.value
+    );
+    const user = await resolveOidcUser(claims);
+
+    const response = NextResponse.redirect(new URL(getSafeNextPath(next), request.url));
+    response.cookies.set(OIDC_STATE_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    return setSessionCookie(response, request, user);
+  } catch (error) {
+    if (!(error instanceof AuthError)) {
+      console.error('シングルサインオンのエラー:', error);
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('error', error instanceof AuthError ? error.message : 'シングルサインオンに失敗しました');
+    return NextResponse.redirect(loginUrl);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createOidcAuthorization, getSafeNextPath, OIDC_STATE_COOKIE } from '@/lib/auth';
+import { authErrorResponse } from '../../errors';
+
+// IdPの認可画面へ移動する
+export async function GET(request: NextRequest) {
+  try {
+    const next = getSafeNextPath(request.nextUrl.searchParams.get('next'));
+    const { url, state } = await createOidcAuthorization(request.nextUrl.origin, next);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/api/auth/oidc',
+      maxAge: 10 * 60,
+    });
+    return response;
+  } catch (error) {
+    return authErrorResponse(error, 'シングルサインオンを開始できませんでした');
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser, isOidcEnabled } from '@/lib/auth';
+
+// ログイン中のユーザーと、シングルサインオンが使えるかどうか（ログイン画面で使う）
+export async function GET() {
+  return NextResponse.json({
+    user: await getCurrentUser(),
+    oidc: isOidcEnabled(),
+  });
+}
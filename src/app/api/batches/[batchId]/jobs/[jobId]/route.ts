@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatch, getJobResult } from '@/lib/batch';
+
+// 完了したジョブの解析結果を返す
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ batchId: string; jobId: string }> }
+) {
+  const { batchId, jobId } = await params;
+  const job = getBatch(batchId)?.jobs.find(j => j.id === jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'ジョブが見つかりません' },
+      { status: 404 }
+    );
+  }
+
+  const result = getJobResult(batchId, jobId);
+  if (!result) {
+    return NextResponse.json(
+      { error: job.status === 'failed' ? job.error : '解析が完了していません', status: job.status },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({
+    ...result,
+    orderId: job.orderId,
+    success: true,
+  });
+}
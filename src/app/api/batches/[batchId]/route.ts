@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatch } from '@/lib/batch';
+
+// バッチ内の各ジョブの状態を返す（画面からポーリングする）
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  const { batchId } = await params;
+  const batch = getBatch(batchId);
+
+  if (!batch) {
+    return NextResponse.json(
+      { error: 'バッチが見つかりません' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(batch);
+}
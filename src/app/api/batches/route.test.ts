@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from './route';
+
+// 一括処理のアップロードで、本文を読み込む前にサイズを確認することを確認する
+
+vi.mock('@/lib/auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getCurrentUser: async () => ({ username: 'tester', name: 'テスト', role: 'operator' }),
+}));
+
+let tempDir: string;
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batches-route-'));
+  process.env.OCR_PROVIDER = 'fixture';
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  process.env.UPLOAD_MAX_FILE_SIZE_MB = '1';
+  process.env.UPLOAD_MAX_BATCH_FILES = '2';
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('POST /api/batches', () => {
+  it('Content-Length がファイル数の上限の分を超える場合は本文を読み込まずに413を返す', async () => {
+    const request = new NextRequest('http://localhost/api/batches', {
+      method: 'POST',
+      headers: { 'content-type': 'multipart/form-data; boundary=x', 'content-length': String(4 * 1024 * 1024) },
+      body: 'x',
+    });
+    const formData = vi.spyOn(request, 'formData');
+
+    const response = await POST(request);
+    expect(response.status).toBe(413);
+    expect((await response.json()).code).toBe('file_too_large');
+    expect(formData).not.toHaveBeenCalled();
+  });
+
+  it('ファイル数の上限は本文を読み込んだ後に確認する', async () => {
+    const formData = new FormData();
+    for (let i = 0; i < 3; i++) {
+      formData.append('files', new Blob(['%PDF-1.4'], { type: 'application/pdf' }), `${i}.pdf`);
+    }
+    const response = await POST(new NextRequest('http://localhost/api/batches', { method: 'POST', body: formData }));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: 'too_many_files', details: { maxFiles: 2, count: 3 } });
+  });
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { createBatch } from '@/lib/batch';
+import { loadProcessorRegistry } from '@/lib/processors';
+import {
+  checkBatchFileCount,
+  checkContentLength,
+  checkUploadBudget,
+  consumeUploadBudget,
+  getUploadLimits,
+  resolveUploadProcessor,
+  UploadError,
+  validateUpload,
+} from '@/lib/upload';
+import { uploadErrorResponse } from '../upload-errors';
+
+// 複数ファイルをまとめて受け付け、キューに登録する
+export async function POST(request: NextRequest) {
+  // 大きなファイルを受け付けるためproxyの対象外にしているので、ここでログインを確認する
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'ログインしてください' }, { status: 401 });
+  }
+
+  try {
+    // 本文を読み込む前に、登録できるファイル数の分までのサイズかを確認する（ファイル数は読み込んだ後に確認する）
+    checkContentLength(request.headers, getUploadLimits().maxBatchFiles);
+
+    const formData = await request.formData();
+    const entries = formData.getAll('files');
+    const processors = await loadProcessorRegistry();
+
+    if (entries.length === 0) {
+      throw new UploadError('file_missing', 'ファイルが見つかりません', 400);
+    }
+    checkBatchFileCount(entries.length);
+
+    // auto の場合はファイルごとに取引先を自動判定する
+    const processor = resolveUploadProcessor(processors, formData.get('processorType') as string | null);
+
+    // 1件でも受け付けられないファイルがあれば、バッチ全体を登録しない
+    const files = [];
+    for (const entry of entries) {
+      files.push(await validateUpload(entry));
+    }
+    // 利用量はOCRプロバイダーを呼び出すファイルごとに加える（キャッシュを使うファイルは数えない）
+    files.forEach(file => checkUploadBudget(file.pageCount));
+
+    const username = user.username;
+    const batch = createBatch(
+      files.map(file => ({ name: file.name, type: file.reportedType, content: file.content })),
+      { processor, processors, consumePages: pages => consumeUploadBudget(username, pages) },
+      username
+    );
+
+    return NextResponse.json(batch, { status: 202 });
+  } catch (error) {
+    return uploadErrorResponse(error, 'バッチの登録中にエラーが発生しました');
+  }
+}
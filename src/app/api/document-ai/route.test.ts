@@ -0,0 +1,70 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrder } from '@/lib/orders';
+import { POST } from './route';
+
+// proxy の対象外にしたアップロードAPIが、10MBを超えるファイルをそのまま受け付けることを確認する
+
+const loggedIn = vi.hoisted(() => ({ value: true }));
+
+vi.mock('@/lib/auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getCurrentUser: async () => (loggedIn.value ? { username: 'tester', name: 'テスト', role: 'operator' } : null),
+}));
+
+// 添付ファイルで指定のサイズを超える1ページのPDFを作る
+async function createLargePdf(minBytes: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  pdf.addPage([595, 842]);
+  await pdf.attach(randomBytes(minBytes), 'padding.bin', { mimeType: 'application/octet-stream' });
+  return Buffer.from(await pdf.save({ useObjectStreams: false }));
+}
+
+function uploadRequest(content: Buffer): NextRequest {
+  const formData = new FormData();
+  formData.append('file', new Blob([new Uint8Array(content)], { type: 'application/pdf' }), 'large.pdf');
+  formData.append('mode', 'sync');
+  return new NextRequest('http://localhost/api/document-ai', { method: 'POST', body: formData });
+}
+
+let tempDir: string;
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'document-ai-route-'));
+  process.env.OCR_PROVIDER = 'fixture';
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  loggedIn.value = true;
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('POST /api/document-ai', () => {
+  it('10MBを超えるファイルを切り詰めずに読み取る', async () => {
+    const content = await createLargePdf(11 * 1024 * 1024);
+    expect(content.length).toBeGreaterThan(10 * 1024 * 1024);
+
+    const response = await POST(uploadRequest(content));
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.success).toBe(true);
+
+    const order = await getOrder(body.orderId);
+    expect(order.fileName).toBe('large.pdf');
+    expect(order.result.purchaseOrder.lines).toHaveLength(3);
+  });
+
+  it('未ログインの場合は401を返す', async () => {
+    loggedIn.value = false;
+    const response = await POST(uploadRequest(await createLargePdf(1024)));
+    expect(response.status).toBe(401);
+  });
+});
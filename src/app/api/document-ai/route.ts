@@ -1,165 +1,114 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DocumentProcessorServiceClient } from '@google-cloud/documentai';
-import { google } from '@google-cloud/documentai/build/protos/protos';
+import { shouldProcessAsync, submitAsyncExtraction } from '@/lib/async-ocr';
+import { recordExtraction } from '@/lib/audit';
+import { getCurrentUser } from '@/lib/auth';
+import { analyzeDocumentWithDetection } from '@/lib/ocr';
+import { saveExtractedOrder } from '@/lib/orders';
+import { loadProcessorRegistry, ProcessorConfig } from '@/lib/processors';
+import {
+  checkContentLength,
+  checkUploadBudget,
+  consumeUploadBudget,
+  getUploadErrorCode,
+  resolveUploadProcessor,
+  UploadError,
+  ValidatedUpload,
+  validateUpload,
+} from '@/lib/upload';
+import { uploadErrorResponse } from '../upload-errors';
 
-type ITextAnchor = google.cloud.documentai.v1.Document.ITextAnchor;
-type IEntity = google.cloud.documentai.v1.Document.IEntity;
-
-// textAnchorからテキストを抽出するヘルパー関数
-function extractTextFromAnchor(textAnchor: ITextAnchor | null | undefined, fullText: string): string {
-  if (!textAnchor?.textSegments || textAnchor.textSegments.length === 0) {
-    return '';
+export async function POST(request: NextRequest) {
+  // 大きなファイルを受け付けるためproxyの対象外にしているので、ここでログインを確認する
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: 'ログインしてください' }, { status: 401 });
   }
 
-  return textAnchor.textSegments
-    .map((segment) => {
-      const startIndex = Number(segment.startIndex || 0);
-      const endIndex = Number(segment.endIndex || 0);
-      return fullText.substring(startIndex, endIndex);
-    })
-    .join('')
-    .trim();
-}
-
-// Custom Extractor用: エンティティを再帰的に処理してフラットな構造に変換
-interface ExtractedEntity {
-  type: string;
-  value: string;
-  confidence: number;
-  normalizedValue: string;
-  page: number;
-  properties: ExtractedEntity[];
-}
-
-function processEntity(entity: IEntity, fullText: string): ExtractedEntity {
-  // mentionTextがあればそれを使用、なければtextAnchorから抽出
-  const value = entity.mentionText || extractTextFromAnchor(entity.textAnchor, fullText);
-
-  return {
-    type: entity.type || '',
-    value,
-    confidence: entity.confidence || 0,
-    normalizedValue: entity.normalizedValue?.text || '',
-    page: Number(entity.pageAnchor?.pageRefs?.[0]?.page || 0) + 1,
-    properties: entity.properties?.map(prop => processEntity(prop, fullText)) || [],
-  };
-}
-
-// プロセッサタイプの定義
-type ProcessorType = 'sannote' | 'yac';
+  // 監査ログ（受け付けなかった場合・失敗した場合も記録する）
+  const username = user.username;
+  const startedAt = Date.now();
+  let processor: ProcessorConfig | undefined;
+  let file: ValidatedUpload | undefined;
 
-// プロセッサマッピング
-const PROCESSOR_MAP: Record<ProcessorType, string | undefined> = {
-  sannote: process.env.GOOGLE_CLOUD_SANNOTE_PROCESSOR_ID,
-  yac: process.env.GOOGLE_CLOUD_YAC_PROCESSOR_ID,
-};
-
-export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-    const processorType = (formData.get('processorType') as ProcessorType) || 'sannote';
-
-    if (!file) {
-      return NextResponse.json(
-        { error: 'ファイルが見つかりません' },
-        { status: 400 }
-      );
-    }
+    checkContentLength(request.headers);
 
-    // プロセッサタイプの検証
-    if (!['sannote', 'yac'].includes(processorType)) {
-      return NextResponse.json(
-        { error: '無効なプロセッサタイプです。sannoteまたはyacを指定してください。' },
-        { status: 400 }
-      );
-    }
-
-    // 環境変数の確認
-    const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
-    const location = process.env.GOOGLE_CLOUD_LOCATION;
-    const processorId = PROCESSOR_MAP[processorType];
-    const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-    // const versionId = process.env.GOOGLE_CLOUD_VERSION_ID;
-
-    if (!projectId || !location || !processorId) {
-      return NextResponse.json(
-        { error: '環境変数が設定されていません。.env.localを確認してください。' },
-        { status: 500 }
-      );
-    }
-
-    // ファイルをバッファに変換
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
-    // Document AI クライアントの初期化
-    // Vercel環境ではJSONを直接パース、ローカル環境ではファイルパスを使用
-    let client: DocumentProcessorServiceClient;
-
-    if (credentials) {
-      try {
-        // JSONとしてパースを試みる（Vercel用）
-        const credentialsJson = JSON.parse(credentials);
-        client = new DocumentProcessorServiceClient({
-          credentials: credentialsJson,
-        });
-      } catch {
-        // パースに失敗したらファイルパスとして扱う（ローカル用）
-        client = new DocumentProcessorServiceClient({
-          keyFilename: credentials,
-        });
-      }
-    } else {
-      // 環境変数が未設定の場合はデフォルト認証を使用
-      client = new DocumentProcessorServiceClient();
+    const formData = await request.formData();
+    const processors = await loadProcessorRegistry();
+    // auto の場合は読み取ったテキストから取引先を判定する（未指定の場合は取引先設定の先頭を使用）
+    processor = resolveUploadProcessor(processors, formData.get('processorType') as string | null);
+
+    // サイズ・形式・ページ数の検証（利用量はOCRプロバイダーを呼び出す場合にだけ加える）
+    file = await validateUpload(formData.get('file'));
+    checkUploadBudget(file.pageCount);
+
+    const refresh = formData.get('refresh') === 'true';
+
+    // 長いPDFはバッチ処理として送信し、完了は /api/operations/:id で確認する（mode=async / sync で指定も可）
+    if (await shouldProcessAsync({
+      mode: formData.get('mode') as string | null,
+      pageCount: file.pageCount,
+      content: file.content,
+      processor: processor || processors[0],
+      refresh,
+    })) {
+      const operation = await submitAsyncExtraction({
+        file: { name: file.name, type: file.reportedType, content: file.content },
+        pageCount: file.pageCount,
+        processor,
+        processors,
+        username,
+        refresh,
+        consumePages: pages => consumeUploadBudget(username, pages),
+      });
+      return NextResponse.json({ operation }, { status: 202 });
     }
 
-    // プロセッサー名を構築
-    const name = `projects/${projectId}/locations/${location}/processors/${processorId}`;
-
-    // バージョン指定する場合は以下の形式を使用
-    // const name = 'projects/' + projectId + '/locations/' + location + '/processors/' + processorId + '/processorVersions/' + versionId;
-
-    // ドキュメント処理リクエスト
-    const [result] = await client.processDocument({
-      name,
-      rawDocument: {
-        content: buffer,
-        mimeType: file.type,
-      },
+    // 前処理（形式の判定・変換、画像の補正、PDFの分割）のうえ、OCRプロバイダー（Document AI / フィクスチャ）で解析
+    // 同じファイルの読み取り結果はキャッシュを使う（refresh=true の場合は読み取り直す）
+    const analysis = await analyzeDocumentWithDetection({
+      content: file.content,
+      mimeType: file.reportedType,
+      processor,
+      processors,
+    }, { refresh, consumePages: pages => consumeUploadBudget(username, pages) });
+    const { document, preprocessed, result } = analysis;
+    processor = analysis.processor;
+
+    // 注文履歴に保存
+    const order = await saveExtractedOrder({
+      file: { name: file.name, type: file.reportedType, content: file.content },
+      preprocessed,
+      processor,
+      result,
+      document,
     });
 
-    const { document } = result;
-
-    if (!document) {
-      return NextResponse.json(
-        { error: 'ドキュメントの解析に失敗しました' },
-        { status: 500 }
-      );
-    }
-
-    // テキストとエンティティを抽出
-    const fullText = document.text || '';
-
-    // Custom Extractor用: エンティティを階層構造で抽出
-    // items（明細行）の中にjan_code, product_codeなどがネストされる
-    const entities = document.entities?.map((entity) => processEntity(entity, fullText)) || [];
+    await recordExtraction({
+      username,
+      processor,
+      fileName: file.name,
+      content: file.content,
+      orderId: order.id,
+      durationMs: Date.now() - startedAt,
+      result,
+    }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
 
     return NextResponse.json({
-      text: fullText.trim(),
-      entities,
-      pageCount: document.pages?.length || 0,
+      ...result,
+      orderId: order.id,
       success: true,
     });
   } catch (error) {
-    console.error('Document AI処理エラー:', error);
-    return NextResponse.json(
-      {
-        error: 'Document AI処理中にエラーが発生しました',
-        details: error instanceof Error ? error.message : String(error)
-      },
-      { status: 500 }
-    );
+    await recordExtraction({
+      username,
+      processor,
+      // 検証で受け付けなかったファイルはエラーに含まれるファイル名を記録する
+      fileName: file?.name ?? (error instanceof UploadError ? error.options.fileName : undefined),
+      content: file?.content,
+      durationMs: Date.now() - startedAt,
+      error: { code: getUploadErrorCode(error), message: error instanceof Error ? error.message : String(error) },
+    }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+    return uploadErrorResponse(error, 'Document AI処理中にエラーが発生しました');
   }
 }
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { loadCsvTemplates, toPublicCsvTemplate } from '@/lib/export';
+
+export async function GET() {
+  try {
+    const templates = await loadCsvTemplates();
+
+    return NextResponse.json({
+      templates: templates.map(toPublicCsvTemplate),
+    });
+  } catch (error) {
+    console.error('CSVテンプレートの読み込みエラー:', error);
+    return NextResponse.json(
+      { error: 'CSVテンプレートの読み込みに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
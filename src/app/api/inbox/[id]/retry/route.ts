@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retryInboxItem } from '@/lib/inbox';
+import { inboxErrorResponse } from '../../errors';
+
+// 取り込みに失敗した添付ファイルを読み取り待ちに戻す（読み取りはバックグラウンドで行うため 202 を返す）
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await retryInboxItem(id), { status: 202 });
+  } catch (error) {
+    return inboxErrorResponse(error, '読み取り直しに失敗しました');
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { checkInbox } from '@/lib/inbox';
+import { inboxErrorResponse } from '../errors';
+
+// 今すぐ新しいメールを確認する（添付ファイルの読み取りはバックグラウンドで行うため 202 を返す）
+export async function POST() {
+  try {
+    return NextResponse.json(await checkInbox(), { status: 202 });
+  } catch (error) {
+    return inboxErrorResponse(error, 'メールの確認に失敗しました');
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { InboxItemNotFoundError, InboxItemStateError } from '@/lib/inbox';
+
+// メール受信API共通のエラーレスポンス
+export function inboxErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof InboxItemStateError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof InboxItemNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
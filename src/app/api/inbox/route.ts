@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getInboxState } from '@/lib/inbox';
+import { inboxErrorResponse } from './errors';
+
+// メールで受信した注文書の一覧（新しい順）と受信元の状態
+export async function GET() {
+  try {
+    return NextResponse.json(await getInboxState());
+  } catch (error) {
+    return inboxErrorResponse(error, '受信した注文書の読み込みに失敗しました');
+  }
+}
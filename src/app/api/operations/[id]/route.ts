@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AsyncOperationNotFoundError, getAsyncOperation } from '@/lib/async-ocr';
+
+// 非同期処理の状態を返す（画面からポーリングする。完了時は orderId の注文を開く）
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    return NextResponse.json(await getAsyncOperation(id));
+  } catch (error) {
+    if (error instanceof AsyncOperationNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('非同期処理の状態の取得エラー:', error);
+    return NextResponse.json({ error: '非同期処理の状態の取得に失敗しました' }, { status: 500 });
+  }
+}
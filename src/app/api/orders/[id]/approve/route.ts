@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUsername } from '@/lib/auth';
+import { approveOrder } from '@/lib/outbound';
+import { orderErrorResponse } from '../../errors';
+
+// 注文を承認し、送信先（Webhook・取り込みフォルダ）へ送信する。送信先ごとの送信状況を返す
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await approveOrder(id, { username: await getCurrentUsername() }));
+  } catch (error) {
+    return orderErrorResponse(error, '注文の承認に失敗しました');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUsername } from '@/lib/auth';
+import { resendDelivery } from '@/lib/outbound';
+import { orderErrorResponse } from '../../../../errors';
+
+// 送信先へ承認時の内容を送り直す
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { id, deliveryId } = await params;
+    return NextResponse.json(await resendDelivery(id, deliveryId, { username: await getCurrentUsername() }));
+  } catch (error) {
+    return orderErrorResponse(error, '再送に失敗しました');
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderDeliveries } from '@/lib/outbound';
+import { orderErrorResponse } from '../../errors';
+
+// 承認した日時と送信先ごとの送信状況（未承認の場合は deliveries が空）
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getOrderDeliveries(id));
+  } catch (error) {
+    return orderErrorResponse(error, '送信状況の取得に失敗しました');
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDuplicateOrders, getOrder } from '@/lib/orders';
+import { orderErrorResponse } from '../../errors';
+
+// 重複の可能性がある過去の注文と、出力の確認状況
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const [order, duplicates] = await Promise.all([getOrder(id), getDuplicateOrders(id)]);
+
+    return NextResponse.json({ duplicates, confirmedAt: order.duplicateConfirmedAt || null });
+  } catch (error) {
+    return orderErrorResponse(error, '重複の確認に失敗しました');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { recordExport } from '@/lib/audit';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { exportOrder } from '@/lib/export';
+import { orderErrorResponse } from '../../errors';
+
+// 保存した注文を出力する（format: xlsx / json / csv。csvの場合はtemplateにCSVテンプレートのidを指定する）
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { format, template } = await request.json();
+    const user = await getCurrentUser();
+    const { content, contentType, fileName } = await exportOrder(id, format, template, {
+      includePurchasePrice: hasPermission(user, 'prices:read'),
+    });
+    await recordExport({ username: user?.username || 'anonymous', orderId: id, format, template, fileName })
+      .catch(auditError => console.error('監査ログの記録エラー:', auditError));
+
+    return new Response(new Uint8Array(content), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    return orderErrorResponse(error, '注文の出力に失敗しました');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUsername } from '@/lib/auth';
+import { getOrder, updateOrder } from '@/lib/orders';
+import { orderErrorResponse } from '../errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 保存した解析結果と手修正の内容
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getOrder(id));
+  } catch (error) {
+    return orderErrorResponse(error, '注文の取得に失敗しました');
+  }
+}
+
+// 手修正の内容（draft）・処理状況（status）・重複確認（duplicateConfirmed）を保存する
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { draft, status, duplicateConfirmed } = await request.json();
+    return NextResponse.json(await updateOrder(id, { draft, status, duplicateConfirmed }, { username: await getCurrentUsername() }));
+  } catch (error) {
+    return orderErrorResponse(error, '注文の保存に失敗しました');
+  }
+}
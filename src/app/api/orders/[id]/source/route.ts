@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { getOrderSource } from '@/lib/orders';
+import { orderErrorResponse } from '../../errors';
+
+// 保存した原本ファイル（注文を開き直したときのビューア表示用）
+// 前処理で補正した注文は補正後のファイルを返す（?original=1 の場合はアップロードしたファイル）
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const original = request.nextUrl.searchParams.get('original') === '1';
+    const { content, fileName, mimeType } = await getOrderSource(id, { original });
+
+    return new Response(new Uint8Array(content), {
+      headers: {
+        'Content-Type': mimeType || 'application/octet-stream',
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    return orderErrorResponse(error, '原本ファイルの取得に失敗しました');
+  }
+}
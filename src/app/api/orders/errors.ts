@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { OrderDuplicateError, OrderNotFoundError, OrderValidationError } from '@/lib/orders';
+import { DeliveryNotFoundError, OutboundTargetError } from '@/lib/outbound';
+
+// 注文履歴API共通のエラーレスポンス
+export function orderErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof OrderValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof OrderNotFoundError || error instanceof DeliveryNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  // 送信先設定の不備（サーバー側の問題）
+  if (error instanceof OutboundTargetError) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (error instanceof OrderDuplicateError) {
+    return NextResponse.json(
+      { error: error.message, duplicates: error.duplicates },
+      { status: 409 }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchOrders } from '@/lib/orders';
+import { orderErrorResponse } from './errors';
+
+// 注文履歴の検索（注文番号・注文日・取引先・商品コード、ページング）
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const result = await searchOrders({
+      orderNumber: searchParams.get('orderNumber') || '',
+      orderDate: searchParams.get('orderDate') || '',
+      supplier: searchParams.get('supplier') || '',
+      productCode: searchParams.get('productCode') || '',
+      page: Number(searchParams.get('page')) || 1,
+      pageSize: Number(searchParams.get('pageSize')) || undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return orderErrorResponse(error, '注文履歴の読み込みに失敗しました');
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, requirePermission } from '@/lib/auth';
+import { loadProcessorRegistry, ProcessorConfig, ProcessorRegistryError, saveProcessorRegistry } from '@/lib/processors';
+
+// 取引先設定の全項目（プロセッサIDなどを含む。管理者のみ）
+
+export async function GET() {
+  try {
+    await requirePermission('processors:write');
+    return NextResponse.json({ processors: await loadProcessorRegistry() });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('取引先設定の読み込みエラー:', error);
+    return NextResponse.json(
+      { error: '取引先設定の読み込みに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
+
+// 取引先設定を置き換える（検証に失敗した場合は保存しない）
+export async function PUT(request: NextRequest) {
+  try {
+    await requirePermission('processors:write');
+    const { processors } = await request.json() as { processors: ProcessorConfig[] };
+    return NextResponse.json({ processors: await saveProcessorRegistry(processors) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ProcessorRegistryError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('取引先設定の保存エラー:', error);
+    return NextResponse.json(
+      { error: '取引先設定の保存に失敗しました' },
+      { status: 500 }
+    );
+  }
+}
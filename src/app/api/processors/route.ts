@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { loadProcessorRegistry, toPublicProcessorConfig } from '@/lib/processors';
+
+export async function GET() {
+  try {
+    const processors = await loadProcessorRegistry();
+
+    return NextResponse.json({
+      processors: processors.map(toPublicProcessorConfig),
+    });
+  } catch (error) {
+    console.error('取引先設定の読み込みエラー:', error);
+    return NextResponse.json(
+      { error: '取引先設定の読み込みに失敗しました' },
+      { status: 500 }
+    );
+  }
+}
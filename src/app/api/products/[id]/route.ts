@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission, requirePermission } from '@/lib/auth';
+import { deleteProduct, getProduct, hidePurchasePrice, updateProduct } from '@/lib/products';
+import { productErrorResponse } from '../errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const product = await getProduct(Number(id));
+    return NextResponse.json(hasPermission(await getCurrentUser(), 'prices:read') ? product : hidePurchasePrice(product));
+  } catch (error) {
+    return productErrorResponse(error, '商品の取得に失敗しました');
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('products:write');
+    const { id } = await params;
+    const product = await updateProduct(Number(id), await request.json());
+    return NextResponse.json(product);
+  } catch (error) {
+    return productErrorResponse(error, '商品の更新に失敗しました');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requirePermission('products:write');
+    const { id } = await params;
+    await deleteProduct(Number(id));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return productErrorResponse(error, '商品の削除に失敗しました');
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { AuthError } from '@/lib/auth';
+import { ProductConflictError, ProductNotFoundError, ProductValidationError } from '@/lib/products';
+
+// 商品マスターAPI共通のエラーレスポンス
+export function productErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof AuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof ProductValidationError) {
+    return NextResponse.json(
+      { error: error.message, fieldErrors: error.fieldErrors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof ProductNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  if (error instanceof ProductConflictError) {
+    return NextResponse.json(
+      { error: error.message, fieldErrors: { product_code: error.message } },
+      { status: 409 }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
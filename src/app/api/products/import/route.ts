@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { decodeCsv } from '@/lib/csv';
+import { importProducts } from '@/lib/products';
+import { productErrorResponse } from '../errors';
+
+// 商品マスターのCSV一括取り込み
+// dryRun=true の場合は差分のみ返し、データは更新しない
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('products:write');
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const dryRun = formData.get('dryRun') !== 'false';
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'ファイルが見つかりません' },
+        { status: 400 }
+      );
+    }
+
+    const text = decodeCsv(new Uint8Array(await file.arrayBuffer()));
+    const result = await importProducts(text, { dryRun });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return productErrorResponse(error, '商品マスターの取り込みに失敗しました');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { getCurrentUser, hasPermission } from '@/lib/auth';
+import { getAllProducts, hidePurchasePrice } from '@/lib/products';
+import { findProductCandidates, MatchQuery } from '@/lib/products/matching';
+import { productErrorResponse } from '../errors';
+
+// 明細行のOCR結果と商品マスターを照合し、行ごとの候補を返す
+// 商品マスター全件をブラウザに送らずに済むよう、照合はサーバー側で行う
+export async function POST(request: NextRequest) {
+  try {
+    const { processorType, items } = await request.json() as { processorType?: string; items?: MatchQuery[] };
+    const processor = (await loadProcessorRegistry()).find(p => p.id === processorType);
+
+    if (!processor || !Array.isArray(items)) {
+      return NextResponse.json(
+        { error: 'processorType と items を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    // 仕入価格を閲覧できないユーザーには、候補の商品からも仕入価格を除く
+    const canReadPrices = hasPermission(await getCurrentUser(), 'prices:read');
+    const products = (await getAllProducts()).map(product => (canReadPrices ? product : hidePurchasePrice(product)));
+    const results = items.map(item => findProductCandidates({
+      code: String(item.code || ''),
+      jan: String(item.jan || ''),
+      name: String(item.name || ''),
+    }, processor.productCode, products));
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    return productErrorResponse(error, '商品マスターとの照合に失敗しました');
+  }
+}
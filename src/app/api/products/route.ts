@@ -1,20 +1,34 @@
-import { NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, hasPermission, requirePermission } from '@/lib/auth';
+import { createProduct, hidePurchasePrice, searchProducts } from '@/lib/products';
+import { productErrorResponse } from './errors';
 
-export async function GET() {
+// 商品マスターの検索（商品コード・商品名・JANコード、ページング）
+export async function GET(request: NextRequest) {
   try {
-    // プロジェクトルートのdataディレクトリからproducts.jsonを読み込む
-    const filePath = path.join(process.cwd(), 'data', 'products.json');
-    const fileContents = fs.readFileSync(filePath, 'utf8');
-    const data = JSON.parse(fileContents);
+    const { searchParams } = request.nextUrl;
+    const result = await searchProducts({
+      q: searchParams.get('q') || '',
+      page: Number(searchParams.get('page')) || 1,
+      pageSize: Number(searchParams.get('pageSize')) || undefined,
+    });
 
-    return NextResponse.json(data);
+    if (!hasPermission(await getCurrentUser(), 'prices:read')) {
+      result.products = result.products.map(hidePurchasePrice);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return productErrorResponse(error, '商品マスターデータの読み込みに失敗しました');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('products:write');
+    const product = await createProduct(await request.json());
+    return NextResponse.json(product, { status: 201 });
   } catch (error) {
-    console.error('商品マスターデータの読み込みエラー:', error);
-    return NextResponse.json(
-      { error: '商品マスターデータの読み込みに失敗しました' },
-      { status: 500 }
-    );
+    return productErrorResponse(error, '商品の登録に失敗しました');
   }
 }
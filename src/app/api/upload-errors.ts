@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { EmptyDocumentError, ProviderConfigurationError, ProviderError } from '@/lib/ocr';
+import { PreprocessError } from '@/lib/preprocess';
+import { ProcessorRegistryError } from '@/lib/processors';
+import { UploadError, UploadErrorBody, UploadErrorCode } from '@/lib/upload';
+
+function errorJson(body: UploadErrorBody, status: number, headers?: HeadersInit) {
+  return NextResponse.json(body, { status, headers });
+}
+
+// アップロードAPI（/api/document-ai・/api/batches）共通のエラーレスポンス
+// 画面が文言を切り替えられるよう、常に code を含める
+export function uploadErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof UploadError) {
+    const retryAfter = error.options.details?.retryAfterSeconds;
+    return errorJson(
+      { error: error.message, code: error.code, ...error.options },
+      error.status,
+      retryAfter ? { 'Retry-After': String(retryAfter) } : undefined
+    );
+  }
+
+  // 対応していない形式・壊れたファイル
+  if (error instanceof PreprocessError) {
+    return errorJson({ error: error.message, code: 'invalid_file' }, 400);
+  }
+
+  if (error instanceof ProviderConfigurationError || error instanceof ProcessorRegistryError) {
+    return errorJson({ error: error.message, code: 'configuration_error' }, 500);
+  }
+
+  // OCRプロバイダーの呼び出しエラー（認証・利用上限・処理できないファイル・一時的な障害・タイムアウト）
+  if (error instanceof ProviderError) {
+    console.error(`${fallbackMessage}:`, error);
+    return errorJson(
+      { error: error.message, code: error.code, ...(error.options.attempts ? { details: { attempts: error.options.attempts } } : {}) },
+      error.status
+    );
+  }
+
+  const code: UploadErrorCode = 'processing_failed';
+  if (error instanceof EmptyDocumentError) {
+    return errorJson({ error: error.message, code }, 500);
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return errorJson(
+    {
+      error: fallbackMessage,
+      code,
+      details: { message: error instanceof Error ? error.message : String(error) },
+    },
+    500
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AUDIT_EVENT_TYPE_LABELS, AuditEventType, AuditQuery, AuditSearchResult } from '@/lib/audit/types';
+
+const PAGE_SIZE = 100;
+
+type AuditFilters = Required<Pick<AuditQuery, 'type' | 'username' | 'orderId' | 'from' | 'to'>>;
+
+const EMPTY_FILTERS: AuditFilters = {
+  type: '',
+  username: '',
+  orderId: '',
+  from: '',
+  to: '',
+};
+
+// 種別の表示色
+const TYPE_COLORS: Record<AuditEventType, string> = {
+  extraction: '#5A7ACD',
+  correction: '#E67E22',
+  product_match: '#8E44AD',
+  master_correction: '#2980B9',
+  export: '#2E8B57',
+  approval: '#2B2A2A',
+  delivery: '#16A085',
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('ja-JP');
+
+export default function AuditPage() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AuditSearchResult | null>(null);
+  const [error, setError] = useState<string>('');
+  // 詳細を開いている記録
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ ...filters, page: String(page), pageSize: String(PAGE_SIZE) });
+      const response = await fetch(`/api/audit?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '監査ログの読み込みに失敗しました');
+      }
+      setResult(data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  }, [filters, page]);
+
+  // 検索条件の入力が落ち着いてから検索する
+  useEffect(() => {
+    const timer = setTimeout(loadEvents, 300);
+    return () => clearTimeout(timer);
+  }, [loadEvents]);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen p-2 sm:p-2" style={{ backgroundColor: '#F5F2F2' }}>
+      <main className="max-w-6xl mx-auto relative">
+        {/* Header */}
+        <div className="mb-8 pt-4 flex items-end justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-16 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+            <div>
+              <h1 className="text-4xl font-bold" style={{ color: '#2B2A2A' }}>
+                監査ログ
+              </h1>
+              <p className="mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{result ? `${result.total}件` : '読み込み中...'}</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm font-semibold" style={{ color: '#5A7ACD' }}>
+            ← 注文書読み取りへ
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#2B2A2A' }}>
+            {error}
+          </div>
+        )}
+
+        {result?.brokenAt && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#C0392B' }}>
+            ⚠ 監査ログのハッシュの連鎖が途切れています（記録ID: {result.brokenAt}）。ファイルが書き換えられた・削除された可能性があります。
+          </div>
+        )}
+
+        <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+          {/* 検索条件 */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+            <select
+              value={filters.type}
+              onChange={(e) => updateFilter('type', e.target.value)}
+              className="rounded-2xl border-2 px-4 py-3 text-sm bg-white"
+              style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+            >
+              <option value="">すべての種別</option>
+              {Object.entries(AUDIT_EVENT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              value={filters.username}
+              onChange={(e) => updateFilter('username', e.target.value)}
+              placeholder="ユーザー"
+              className="rounded-2xl border-2 px-4 py-3 text-sm"
+              style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+            />
+            <input
+              value={filters.orderId}
+              onChange={(e) => updateFilter('orderId', e.target.value)}
+              placeholder="注文ID"
+              className="rounded-2xl border-2 px-4 py-3 text-sm"
+              style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+            />
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              title="開始日"
+              className="rounded-2xl border-2 px-4 py-3 text-sm"
+              style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              title="終了日"
+              className="rounded-2xl border-2 px-4 py-3 text-sm"
+              style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+            />
+          </div>
+          <div className="flex justify-between items-center mb-6">
+            <p className="text-xs" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+              記録は追記のみで、変更・削除はできません。行をクリックすると詳細（修正前後の値・ファイルのハッシュなど）を表示します。
+            </p>
+            <a
+              href={`/api/audit/export?${new URLSearchParams(filters)}`}
+              className="px-4 py-2 rounded-xl text-sm font-bold border-2 whitespace-nowrap"
+              style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+            >
+              CSV出力
+            </a>
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border-2" style={{ borderColor: '#F5F2F2' }}>
+            <table className="w-full text-sm border-collapse">
+              <thead style={{ backgroundColor: '#5A7ACD' }}>
+                <tr>
+                  {['日時', '種別', 'ユーザー', '内容', '注文'].map(label => (
+                    <th key={label} className="py-3 px-4 font-bold text-white text-xs text-left">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result?.events.map((event, rowIndex) => (
+                  <Fragment key={event.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                      className="cursor-pointer"
+                      style={{ borderBottom: '1px solid #F5F2F2', backgroundColor: rowIndex % 2 === 0 ? 'white' : '#F5F2F2', color: '#2B2A2A' }}
+                    >
+                      <td className="py-3 px-4 text-xs tabular-nums whitespace-nowrap">{formatDateTime(event.at)}</td>
+                      <td className="py-3 px-4 font-bold whitespace-nowrap" style={{ color: TYPE_COLORS[event.type] }}>
+                        {AUDIT_EVENT_TYPE_LABELS[event.type]}
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">{event.username}</td>
+                      <td className="py-3 px-4">{event.summary}</td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        {event.orderId ? (
+                          <Link
+                            href={`/?order=${event.orderId}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-xs font-bold"
+                            style={{ color: '#5A7ACD' }}
+                          >
+                            開く
+                          </Link>
+                        ) : '-'}
+                      </td>
+                    </tr>
+                    {expandedId === event.id && (
+                      <tr style={{ borderBottom: '1px solid #F5F2F2' }}>
+                        <td colSpan={5} className="py-3 px-4">
+                          <pre className="text-xs whitespace-pre-wrap break-all" style={{ color: '#2B2A2A' }}>
+                            {JSON.stringify({ ...event.details, orderId: event.orderId, processorType: event.processorType, hash: event.hash }, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+                {result && result.events.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="py-8 text-center text-sm" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                      該当する記録はありません
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* ページング */}
+          <div className="flex justify-center items-center gap-4 mt-6 text-sm" style={{ color: '#2B2A2A' }}>
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              ← 前へ
+            </button>
+            <span className="tabular-nums">{page} / {totalPages}</span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              次へ →
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  INBOX_ITEM_STATUS_LABELS,
+  INBOX_PROCESSOR_SOURCE_LABELS,
+  InboxEntry,
+  InboxState,
+} from '@/lib/inbox/types';
+import { ORDER_STATUS_LABELS } from '@/lib/orders/types';
+import { PublicProcessorConfig } from '@/lib/processors/types';
+
+// 取り込み状況の表示色（取り込み済みの注文は注文の処理状況で表示する）
+const STATUS_COLORS = {
+  queued: '#E67E22',
+  processing: '#5A7ACD',
+  failed: '#C0392B',
+  unreviewed: '#C0392B',
+  done: '#2E8B57',
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('ja-JP');
+
+// 確認が必要な注文書（取り込み中・取り込み失敗・未確認の注文）
+const needsReview = (item: InboxEntry) => item.status !== 'done' || item.orderStatus === 'unreviewed';
+
+function getStatus(item: InboxEntry): { label: string; color: string } {
+  if (item.status !== 'done') {
+    return { label: INBOX_ITEM_STATUS_LABELS[item.status], color: STATUS_COLORS[item.status] };
+  }
+  if (!item.orderStatus) {
+    return { label: '注文が見つかりません', color: STATUS_COLORS.failed };
+  }
+  return {
+    label: ORDER_STATUS_LABELS[item.orderStatus],
+    color: item.orderStatus === 'unreviewed' ? STATUS_COLORS.unreviewed : STATUS_COLORS.done,
+  };
+}
+
+export default function InboxPage() {
+  const [state, setState] = useState<InboxState | null>(null);
+  const [processors, setProcessors] = useState<PublicProcessorConfig[]>([]);
+  const [reviewOnly, setReviewOnly] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [retryingId, setRetryingId] = useState('');
+  const [error, setError] = useState<string>('');
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inbox');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '受信した注文書の読み込みに失敗しました');
+      }
+      setState(data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  // 取引先名の表示に使う
+  useEffect(() => {
+    fetch('/api/processors')
+      .then(res => res.json())
+      .then(data => setProcessors(data.processors))
+      .catch(err => console.error('取引先設定の読み込みに失敗しました:', err));
+  }, []);
+
+  // 読み取り待ち・読み取り中の注文書があれば、終わるまで状況を更新する
+  const hasPending = state?.items.some(item => item.status === 'queued' || item.status === 'processing') ?? false;
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(loadInbox, 5000);
+    return () => clearInterval(timer);
+  }, [hasPending, loadInbox]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const response = await fetch('/api/inbox/check', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'メールの確認に失敗しました');
+      }
+      setState(data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      const response = await fetch(`/api/inbox/${id}/retry`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '読み取り直しに失敗しました');
+      }
+      await loadInbox();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setRetryingId('');
+    }
+  };
+
+  const processorNames = new Map(processors.map(processor => [processor.id, processor.name]));
+  const items = state?.items.filter(item => !reviewOnly || needsReview(item)) || [];
+  const reviewCount = state?.items.filter(needsReview).length ?? 0;
+
+  return (
+    <div className="min-h-screen p-2 sm:p-2" style={{ backgroundColor: '#F5F2F2' }}>
+      <main className="max-w-6xl mx-auto relative">
+        {/* Header */}
+        <div className="mb-8 pt-4 flex items-end justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-16 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+            <div>
+              <h1 className="text-4xl font-bold" style={{ color: '#2B2A2A' }}>
+                メール受信
+              </h1>
+              <p className="mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{state ? `確認待ち ${reviewCount}件` : '読み込み中...'}</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm font-semibold" style={{ color: '#5A7ACD' }}>
+            ← 注文書読み取りへ
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#2B2A2A' }}>
+            {error}
+          </div>
+        )}
+
+        {state?.lastError && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#C0392B' }}>
+            ⚠ メールを受信できませんでした: {state.lastError}
+          </div>
+        )}
+
+        <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+          <div className="flex justify-between items-center gap-4 mb-6">
+            <div className="text-xs" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+              {state?.source ? (
+                <>
+                  <p>受信元: {state.source.type === 'imap' ? 'IMAP' : 'フォルダ'}（{state.source.location}）</p>
+                  <p>最終確認: {state.lastCheckedAt ? formatDateTime(state.lastCheckedAt) : '-'}</p>
+                </>
+              ) : (
+                <p>メールの受信元が設定されていません（MAIL_INGEST_SOURCE）。</p>
+              )}
+              <p>PDF・画像の添付ファイルを読み取って注文履歴に保存します。「開く」で内容を確認してください。</p>
+            </div>
+            <div className="flex items-center gap-4 whitespace-nowrap">
+              <label className="flex items-center gap-2 text-sm cursor-pointer" style={{ color: '#2B2A2A' }}>
+                <input type="checkbox" checked={reviewOnly} onChange={(e) => setReviewOnly(e.target.checked)} />
+                確認待ちのみ
+              </label>
+              <button
+                onClick={handleCheck}
+                disabled={isChecking || !state?.source}
+                className="px-4 py-2 rounded-xl text-sm font-bold border-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+              >
+                {isChecking ? '確認中...' : '今すぐ確認'}
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border-2" style={{ borderColor: '#F5F2F2' }}>
+            <table className="w-full text-sm border-collapse">
+              <thead style={{ backgroundColor: '#5A7ACD' }}>
+                <tr>
+                  {['受信日時', '送信元・件名', 'ファイル', '取引先', '状況'].map(label => (
+                    <th key={label} className="py-3 px-4 font-bold text-white text-xs text-left">{label}</th>
+                  ))}
+                  <th className="py-3 px-4 font-bold text-white text-xs text-center">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, rowIndex) => {
+                  const status = getStatus(item);
+                  return (
+                    <tr
+                      key={item.id}
+                      style={{ borderBottom: '1px solid #F5F2F2', backgroundColor: rowIndex % 2 === 0 ? 'white' : '#F5F2F2', color: '#2B2A2A' }}
+                    >
+                      <td className="py-3 px-4 text-xs tabular-nums whitespace-nowrap">{formatDateTime(item.receivedAt)}</td>
+                      <td className="py-3 px-4 max-w-64">
+                        <p className="truncate" title={item.from}>{item.from || '-'}</p>
+                        <p className="text-xs truncate" style={{ opacity: 0.6 }} title={item.subject}>{item.subject || '（件名なし）'}</p>
+                      </td>
+                      <td className="py-3 px-4 max-w-48 truncate" title={item.fileName}>{item.fileName || '-'}</td>
+                      <td className="py-3 px-4">
+                        {item.processorType ? (
+                          <>
+                            <p>{processorNames.get(item.processorType) || item.processorType}</p>
+                            {item.processorSource && (
+                              <p className="text-xs" style={{ color: item.processorSource === 'default' ? '#E67E22' : '#2B2A2A', opacity: item.processorSource === 'default' ? 1 : 0.6 }}>
+                                {INBOX_PROCESSOR_SOURCE_LABELS[item.processorSource]}
+                              </p>
+                            )}
+                          </>
+                        ) : '-'}
+                      </td>
+                      <td className="py-3 px-4">
+                        <p className="font-bold whitespace-nowrap" style={{ color: status.color }}>{status.label}</p>
+                        {item.error && item.status !== 'done' && (
+                          <p className="text-xs" style={{ color: '#C0392B' }}>{item.error}（{item.attempts}回目）</p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-center whitespace-nowrap">
+                        {item.orderId && item.status === 'done' && (
+                          <Link href={`/?order=${item.orderId}`} className="text-xs font-bold" style={{ color: '#5A7ACD' }}>
+                            開く
+                          </Link>
+                        )}
+                        {item.status === 'failed' && item.fileName && (
+                          <button
+                            onClick={() => handleRetry(item.id)}
+                            disabled={retryingId === item.id}
+                            className="font-bold py-1 px-4 rounded-xl text-xs border-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                            style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                          >
+                            {retryingId === item.id ? '登録中...' : '再読み取り'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {state && items.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-8 text-center text-sm" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                      {reviewOnly ? '確認待ちの注文書はありません' : '受信した注文書はありません'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { redirect } from 'next/navigation';
+import LoginForm from '@/components/LoginForm';
+import { getCurrentUser, getSafeNextPath, isOidcEnabled } from '@/lib/auth';
+
+type LoginPageProps = { searchParams: Promise<{ next?: string; error?: string }> };
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+  const nextPath = getSafeNextPath(next);
+
+  if (await getCurrentUser()) {
+    redirect(nextPath);
+  }
+
+  return <LoginForm next={nextPath} initialError={error || ''} oidc={isOidcEnabled()} />;
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ORDER_STATUS_LABELS, OrderSearchQuery, OrderSearchResult, OrderStatus } from '@/lib/orders/types';
+
+const PAGE_SIZE = 50;
+
+type OrderFilters = Required<Pick<OrderSearchQuery, 'orderNumber' | 'orderDate' | 'supplier' | 'productCode'>>;
+
+const EMPTY_FILTERS: OrderFilters = {
+  orderNumber: '',
+  orderDate: '',
+  supplier: '',
+  productCode: '',
+};
+
+const FILTER_FIELDS: { key: keyof OrderFilters; label: string }[] = [
+  { key: 'orderNumber', label: '注文番号' },
+  { key: 'orderDate', label: '注文日' },
+  { key: 'supplier', label: '取引先' },
+  { key: 'productCode', label: '商品コード' },
+];
+
+// 処理状況の表示色
+const STATUS_COLORS: Record<OrderStatus, string> = {
+  unreviewed: '#C0392B',
+  reviewed: '#5A7ACD',
+  approved: '#E67E22',
+  exported: '#2E8B57',
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('ja-JP');
+
+export default function OrdersPage() {
+  const [filters, setFilters] = useState<OrderFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<OrderSearchResult | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const loadOrders = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ ...filters, page: String(page), pageSize: String(PAGE_SIZE) });
+      const response = await fetch(`/api/orders?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '注文履歴の読み込みに失敗しました');
+      }
+      setResult(data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  }, [filters, page]);
+
+  // 検索条件の入力が落ち着いてから検索する
+  useEffect(() => {
+    const timer = setTimeout(loadOrders, 300);
+    return () => clearTimeout(timer);
+  }, [loadOrders]);
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen p-2 sm:p-2" style={{ backgroundColor: '#F5F2F2' }}>
+      <main className="max-w-6xl mx-auto relative">
+        {/* Header */}
+        <div className="mb-8 pt-4 flex items-end justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-16 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+            <div>
+              <h1 className="text-4xl font-bold" style={{ color: '#2B2A2A' }}>
+                注文履歴
+              </h1>
+              <p className="mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{result ? `${result.total}件` : '読み込み中...'}</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm font-semibold" style={{ color: '#5A7ACD' }}>
+            ← 注文書読み取りへ
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#2B2A2A' }}>
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+          {/* 検索条件 */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            {FILTER_FIELDS.map(field => (
+              <input
+                key={field.key}
+                value={filters[field.key]}
+                onChange={(e) => {
+                  setFilters(prev => ({ ...prev, [field.key]: e.target.value }));
+                  setPage(1);
+                }}
+                placeholder={field.label}
+                className="rounded-2xl border-2 px-4 py-3 text-sm"
+                style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+              />
+            ))}
+          </div>
+          <p className="text-xs mb-6" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+            「開く」で読み取り画面に手修正済みの内容を読み込みます。明細一覧からCSVを再出力できます。
+          </p>
+
+          <div className="overflow-x-auto rounded-2xl border-2" style={{ borderColor: '#F5F2F2' }}>
+            <table className="w-full text-sm border-collapse">
+              <thead style={{ backgroundColor: '#5A7ACD' }}>
+                <tr>
+                  {['注文日', '注文番号', '取引先', 'ファイル', '明細', '状態', '更新日時'].map(label => (
+                    <th key={label} className="py-3 px-4 font-bold text-white text-xs text-left">{label}</th>
+                  ))}
+                  <th className="py-3 px-4 font-bold text-white text-xs text-center">操作</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result?.orders.map((order, rowIndex) => (
+                  <tr
+                    key={order.id}
+                    style={{ borderBottom: '1px solid #F5F2F2', backgroundColor: rowIndex % 2 === 0 ? 'white' : '#F5F2F2', color: '#2B2A2A' }}
+                  >
+                    <td className="py-3 px-4">{order.orderDate || '-'}</td>
+                    <td className="py-3 px-4">{order.orderNumber || '-'}</td>
+                    <td className="py-3 px-4">{order.supplierName}</td>
+                    <td className="py-3 px-4 max-w-48 truncate" title={order.fileName}>{order.fileName}</td>
+                    <td className="py-3 px-4 tabular-nums">{order.itemCount}件</td>
+                    <td className="py-3 px-4 font-bold whitespace-nowrap" style={{ color: STATUS_COLORS[order.status] }}>
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </td>
+                    <td className="py-3 px-4 text-xs tabular-nums whitespace-nowrap">{formatDateTime(order.updatedAt)}</td>
+                    <td className="py-3 px-4 text-center">
+                      <Link href={`/?order=${order.id}`} className="text-xs font-bold" style={{ color: '#5A7ACD' }}>
+                        開く
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+                {result?.orders.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="py-8 text-center text-sm" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                      該当する注文はありません
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* ページング */}
+          <div className="flex justify-center items-center gap-4 mt-6 text-sm" style={{ color: '#2B2A2A' }}>
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              ← 前へ
+            </button>
+            <span className="tabular-nums">{page} / {totalPages}</span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              次へ →
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
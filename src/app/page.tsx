@@ -1,81 +1,419 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
-// Custom Extractor用の階層構造エンティティ
-interface ExtractedEntity {
-  type: string;
-  value: string;
-  confidence: number;
-  normalizedValue: string;
-  page: number;
-  properties: ExtractedEntity[];
-}
+import { Fragment, useCallback, useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import BatchJobList from '@/components/BatchJobList';
+import DocumentViewer, { ViewerHighlight } from '@/components/DocumentViewer';
+import DuplicateOrderNotice from '@/components/DuplicateOrderNotice';
+import OrderDeliveryPanel from '@/components/OrderDeliveryPanel';
+import { useSessionUser } from '@/components/SessionProvider';
+import type { AsyncOperation } from '@/lib/async-ocr/types';
+import { hasPermission } from '@/lib/auth/types';
+import { BatchJob, BatchSummary } from '@/lib/batch/types';
+import type { PublicCsvTemplate } from '@/lib/export/types';
+import type { OcrCacheInfo } from '@/lib/ocr/cache';
+import type { PageLayout } from '@/lib/ocr/pages';
+import type { PreprocessingSummary } from '@/lib/preprocess/types';
+import { LineWarning, summarizeOrderTotal, validateLine } from '@/lib/line-validation';
+import {
+  applyDraftAction,
+  createDraft,
+  DraftAction,
+  DraftRow,
+  getCellFieldId,
+  getCellReviewReason,
+  getHeaderFieldId,
+  getHeaderReviewReason,
+  isCellEdited,
+  isHeaderEdited,
+  findMatchedProduct,
+  getLineMatchQuery,
+  getRowMatchQuery,
+  getRowPages,
+  OrderDraft,
+  restoreDraft,
+  ReviewReason,
+  StoredOrderDraft,
+  summarizeReview,
+  toStoredDraft,
+} from '@/lib/order-draft';
+import type { DuplicateOrder, OrderRecord, OrderStatus } from '@/lib/orders/types';
+import type { OrderDeliveries } from '@/lib/outbound/types';
+import { AUTO_PROCESSOR_TYPE, ProcessorDetection } from '@/lib/processors/detection';
+import { getHeaderFieldKey, PublicProcessorConfig } from '@/lib/processors/types';
+import type { MatchQuery, MatchReason, ProductCandidate } from '@/lib/products/matching';
+import type { UploadErrorBody, UploadErrorCode } from '@/lib/upload/types';
+import {
+  getHeaderErrorPath,
+  getLineErrorPath,
+  PurchaseOrder,
+  PurchaseOrderField,
+  toPurchaseOrder,
+} from '@/lib/purchase-order';
 
-// 商品マスターデータのインターフェース
-interface Product {
-  id: number;
-  product_code: string;
-  product_name: string;
-  purchase_price: number;
-  sales_price: number;
-}
+// 元に戻せる操作の上限
+const MAX_HISTORY = 100;
+
+// 手修正したセルの背景色
+const EDITED_CELL_COLOR = '#FFF4D6';
+
+// 要確認セルの背景色（low: 低信頼度、missing: 必須項目が空）
+const REVIEW_CELL_COLORS: Record<ReviewReason, string> = {
+  low: '#FDE2E1',
+  missing: '#FBD3E9',
+};
+
+// 計算チェックで不一致のあったセルの枠線色
+const WARNING_COLOR = '#E67E22';
+
+// 商品候補の一致根拠の表示名
+const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  code: 'コード',
+  'code-fuzzy': 'コード類似',
+  jan: 'JAN',
+  name: '品名',
+};
+
+// 商品マスターとの照合に使うカラム（変更したら候補を取り直す）
+const MATCH_KEYS = ['product_code', 'jan_code', 'product_name'];
+
+// 明細行ごとの商品マスター候補をサーバーで照合する
+const fetchProductCandidates = async (processorType: string, items: MatchQuery[]): Promise<ProductCandidate[][]> => {
+  if (items.length === 0) return [];
+
+  const response = await fetch('/api/products/match', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ processorType, items }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || '商品マスターとの照合に失敗しました');
+  }
+  return data.results;
+};
+
+// 手修正の内容・処理状況を注文履歴に保存する
+const saveOrder = async (orderId: string, changes: {
+  draft?: StoredOrderDraft;
+  status?: OrderStatus;
+  duplicateConfirmed?: boolean;
+}) => {
+  const response = await fetch(`/api/orders/${orderId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || '注文の保存に失敗しました');
+  }
+};
+
+// 承認・再送して、送信先ごとの送信状況を返す
+const postDeliveryAction = async (url: string, fallbackMessage: string): Promise<OrderDeliveries> => {
+  const response = await fetch(url, { method: 'POST' });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackMessage);
+  }
+  return data;
+};
+
+// 出力形式（CSVは "csv:<テンプレートのid>"）
+const DEFAULT_EXPORT_FORMAT = 'xlsx';
+
+// 注文を指定の形式で出力し、ファイル名と内容を返す
+const exportOrder = async (orderId: string, exportFormat: string) => {
+  const [format, template] = exportFormat.split(':');
+  const response = await fetch(`/api/orders/${orderId}/export`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ format, template }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || '注文の出力に失敗しました');
+  }
 
-// ヘッダーフィールドのタイプ
-const HEADER_FIELDS = ['address', 'name', 'delivery_phone_number', 'order_date', 'order_number'];
-
-// 明細テーブルのカラム定義
-const ITEM_COLUMNS = [
-  { key: 'jan_code', label: 'JANコード', align: 'left' },
-  { key: 'product_code', label: 'コード', align: 'left' },
-  { key: 'product_name', label: '品名・規格', align: 'left' },
-  { key: 'quantity_per_case', label: '入数', align: 'right' },
-  { key: 'box_count', label: 'BOX数', align: 'right' },
-  { key: 'case_count', label: 'ケース', align: 'right' },
-  { key: 'quantity', label: '数量', align: 'right' },
-  { key: 'unit_price', label: '単価', align: 'right' },
-  { key: 'amount', label: '金額', align: 'right' },
-  { key: 'delivery_date', label: '納期/備考', align: 'left' },
-] as const;
-
-type ProcessorType = 'sannote' | 'yac';
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = decodeURIComponent(disposition.match(/filename\*=UTF-8''(.+)$/)?.[1] || `注文書.${format}`);
+  return { fileName, blob: await response.blob() };
+};
+
+// アップロードAPIのエラーコードごとの表示文言（details・fileNameで上限値などを補う）
+const UPLOAD_ERROR_MESSAGES: Record<UploadErrorCode, (body: UploadErrorBody) => string> = {
+  file_missing: () => 'ファイルを選択してください',
+  too_many_files: ({ details }) => `一度に処理できるファイルは${details?.maxFiles}件までです。ファイルを分けて登録してください`,
+  file_too_large: ({ fileName, details }) =>
+    `${fileName ? `${fileName}は` : ''}ファイルサイズが大きすぎます（上限${Math.round(Number(details?.maxBytes) / 1024 / 1024)}MB）。解像度を下げるか、ページを分けてください`,
+  too_many_pages: ({ fileName, details }) =>
+    `${fileName ? `${fileName}は` : ''}ページ数が多すぎます（${details?.pageCount}ページ、上限${details?.maxPages}ページ）。PDFを分割してください`,
+  unsupported_type: ({ fileName }) =>
+    `${fileName ? `${fileName}は` : ''}対応していないファイル形式です。PDFまたは画像（JPEG・PNG・TIFF・GIF・BMP・WebP・HEIC）を選択してください`,
+  invalid_file: ({ error }) => error,
+  invalid_processor: () => '取引先の設定が見つかりません。画面を再読み込みしてください',
+  rate_limited: ({ details }) => details?.retryAfterSeconds === undefined
+    ? `一度に解析できるのは${details?.budget}ページまでです。ファイルを分けて登録してください`
+    : `短時間に多くのページが解析されたため、一時的に受け付けを停止しています。約${Math.ceil(Number(details?.retryAfterSeconds) / 60)}分後に再度お試しください`,
+  configuration_error: () => 'OCRの設定に問題があります。管理者に連絡してください',
+  processing_failed: ({ error }) => error,
+  provider_auth_failed: () => 'OCRサービスの認証に失敗しました。管理者に連絡してください',
+  quota_exceeded: () => 'OCRサービスの利用上限に達しました。しばらくしてから再度お試しください',
+  unsupported_document: ({ error }) => `${error}。ファイルが壊れていないか、対応している形式か確認してください`,
+  provider_unavailable: () => 'OCRサービスに一時的に接続できません。しばらくしてから再度お試しください',
+  provider_timeout: () => 'OCRの処理が時間内に終わりませんでした。PDFを分割するか、しばらくしてから再度お試しください',
+};
+
+const getUploadErrorMessage = (body: Partial<UploadErrorBody>, fallbackMessage: string) => {
+  if (body.code && body.code in UPLOAD_ERROR_MESSAGES) {
+    return UPLOAD_ERROR_MESSAGES[body.code]({ error: fallbackMessage, ...body } as UploadErrorBody);
+  }
+  return body.error || fallbackMessage;
+};
+
+// 注文履歴に保存したファイル（前処理で補正・変換した場合は、読み取り位置と一致する補正後のファイル）
+const fetchOrderSource = async (orderId: string, fileName: string) => {
+  const response = await fetch(`/api/orders/${orderId}/source`);
+  if (!response.ok) return null;
+
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type });
+};
+
+// 手修正を自動保存するまでの待ち時間（ミリ秒）
+const AUTOSAVE_DELAY_MS = 1000;
+
+const SAVE_STATE_LABELS = {
+  saved: '✓ 注文履歴に保存済み',
+  saving: '保存中...',
+  error: '⚠ 注文履歴への保存に失敗しました',
+  locked: '⚠ 承認済みのため手修正は保存されません（承認時の内容を送信します）',
+};
+
+// 信頼度しきい値の既定値と保存先
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+const CONFIDENCE_THRESHOLD_STORAGE_KEY = 'ocr.confidenceThreshold';
+
+// 信頼度の表示文言
+const formatConfidencePercent = (confidence: number | undefined) =>
+  confidence === undefined ? '-' : `${Math.round(confidence * 100)}%`;
+
+const formatConfidence = (confidence: number | undefined, page?: number) =>
+  `信頼度: ${formatConfidencePercent(confidence)}${page ? `（${page}ページ）` : ''}`;
+
+// 正規化した値の表示（読み取った文字列と異なる場合のみ）
+// 例: "令和7年10月15日" → "→ 2025-10-15"、"10/25 午前着" → "→ 2025-10-25（備考: 午前着）"
+const describeNormalized = (field: PurchaseOrderField | undefined) => {
+  if (!field || field.value === null || String(field.value) === field.raw.trim()) {
+    return field?.remark && field.remark !== field.raw.trim() ? `備考: ${field.remark}` : '';
+  }
+  return `→ ${field.value}${field.remark ? `（備考: ${field.remark}）` : ''}`;
+};
 
 export default function Home() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [entities, setEntities] = useState<ExtractedEntity[]>([]);
+  const user = useSessionUser();
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // 解析結果（取引先設定に従って型変換した注文書）
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  // ページごとの明細行と、ページ間で重複・分割していた項目
+  const [pageLayout, setPageLayout] = useState<PageLayout | null>(null);
+  // OCRに送る前の前処理（形式の変換・傾き補正・PDFの分割など）
+  const [preprocessing, setPreprocessing] = useState<PreprocessingSummary | null>(null);
+  // 読み取り時にOCR結果のキャッシュを使ったかどうか（注文履歴から開いた場合は表示しない）
+  const [ocrCache, setOcrCache] = useState<OcrCacheInfo | null>(null);
+  // 取引先の判定結果（自動判定した取引先と信頼度、指定した取引先と異なる可能性）
+  const [detection, setDetection] = useState<ProcessorDetection | null>(null);
+  // 長いPDFを非同期で解析している場合の処理状況
+  const [asyncOperation, setAsyncOperation] = useState<AsyncOperation | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
-  const [processorType, setProcessorType] = useState<ProcessorType>('sannote');
-  const [products, setProducts] = useState<Product[]>([]);
+  const [processors, setProcessors] = useState<PublicProcessorConfig[]>([]);
+  // 選択中の取引先（既定は自動判定）
+  const [processorType, setProcessorType] = useState<string>(AUTO_PROCESSOR_TYPE);
+  // 解析結果を表示する際の取引先設定（解析後にラジオボタンを切り替えても変わらない）
+  const [resultProcessorType, setResultProcessorType] = useState<string>('');
+  // 複数ファイルを一括処理する場合のバッチ状態
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [openedJobId, setOpenedJobId] = useState<string>('');
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  // 解析結果の原本ファイルと、表・ビューアで選択中の項目
+  const [resultFile, setResultFile] = useState<File | null>(null);
+  const [selectedFieldId, setSelectedFieldId] = useState<string>('');
+  // 手修正中の注文書データと元に戻す履歴
+  const [draft, setDraft] = useState<OrderDraft | null>(null);
+  const [history, setHistory] = useState<OrderDraft[]>([]);
+  // 要確認とする信頼度のしきい値と、要確認行のみ表示するフィルター
+  const [confidenceThreshold, setConfidenceThreshold] = useState(DEFAULT_CONFIDENCE_THRESHOLD);
+  const [needsReviewOnly, setNeedsReviewOnly] = useState(false);
+  // 表示するページ（''はすべて、'0'は手動で追加した行）
+  const [pageFilter, setPageFilter] = useState('');
+  // 同じセルへの連続入力は1回の操作として元に戻す
+  const lastEditTarget = useRef<string>('');
+  // 商品コード・品名を変更し、候補の取り直しが必要な行
+  const rematchRowIds = useRef(new Set<string>());
+  // 注文履歴に保存した注文のIDと、手修正の保存状態
+  const [orderId, setOrderId] = useState<string>('');
+  const [saveState, setSaveState] = useState<'saved' | 'saving' | 'error' | 'locked' | ''>('');
+  const hasUnsavedChanges = useRef(false);
+  // 重複の可能性がある過去の注文と、出力の確認日時
+  const [duplicates, setDuplicates] = useState<DuplicateOrder[]>([]);
+  const [duplicateConfirmedAt, setDuplicateConfirmedAt] = useState<string | null>(null);
+  // 承認と送信先ごとの送信状況
+  const [orderDeliveries, setOrderDeliveries] = useState<OrderDeliveries | null>(null);
+  const [isApproving, setIsApproving] = useState(false);
+  const [resendingId, setResendingId] = useState('');
+  // 注文履歴から開き直す際に復元する手修正データ
+  const pendingStoredDraft = useRef<StoredOrderDraft | null>(null);
+  // 出力形式の選択肢（CSVテンプレート）と選択中の形式
+  const [csvTemplates, setCsvTemplates] = useState<PublicCsvTemplate[]>([]);
+  const [exportFormat, setExportFormat] = useState(DEFAULT_EXPORT_FORMAT);
+  const [isExporting, setIsExporting] = useState(false);
 
-  // 商品マスターデータを読み込む
+  // 前回設定した信頼度しきい値を復元する
   useEffect(() => {
-    fetch('/api/products')
+    const saved = Number(localStorage.getItem(CONFIDENCE_THRESHOLD_STORAGE_KEY));
+    if (saved > 0 && saved <= 1) setConfidenceThreshold(saved);
+  }, []);
+
+  const handleThresholdChange = (value: number) => {
+    setConfidenceThreshold(value);
+    localStorage.setItem(CONFIDENCE_THRESHOLD_STORAGE_KEY, String(value));
+  };
+
+  // 保存した注文の解析結果と原本を読み込む
+  const openOrder = useCallback(async (id: string) => {
+    const orderResponse = await fetch(`/api/orders/${id}`);
+    const order: OrderRecord = await orderResponse.json();
+
+    if (!orderResponse.ok) {
+      throw new Error((order as unknown as { error?: string }).error || '注文の読み込みに失敗しました');
+    }
+
+    pendingStoredDraft.current = order.draft;
+    setPurchaseOrder(order.result.purchaseOrder);
+    setPageLayout(order.result.layout || null);
+    setPreprocessing(order.result.preprocessing || null);
+    setResultProcessorType(order.processorType);
+    setResultFile(await fetchOrderSource(order.id, order.fileName));
+    setOrderId(order.id);
+    setSaveState('saved');
+    return order;
+  }, []);
+
+  // 注文履歴から開いた場合（/?order=<id>）は保存した解析結果と原本を読み込む
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('order');
+    if (!id) return;
+
+    openOrder(id).catch(err => setError(err instanceof Error ? err.message : 'エラーが発生しました'));
+  }, [openOrder]);
+
+  // 取引先設定を読み込む
+  useEffect(() => {
+    fetch('/api/processors')
+      .then(res => res.json())
+      .then(data => {
+        setProcessors(data.processors);
+      })
+      .catch(err => console.error('取引先設定の読み込みに失敗しました:', err));
+  }, []);
+
+  // 出力形式に表示するCSVテンプレートを読み込む
+  useEffect(() => {
+    fetch('/api/export-templates')
       .then(res => res.json())
-      .then(data => setProducts(data.products))
-      .catch(err => console.error('商品マスターデータの読み込みに失敗しました:', err));
+      .then(data => setCsvTemplates(data.templates || []))
+      .catch(err => console.error('CSVテンプレートの読み込みに失敗しました:', err));
   }, []);
 
+  // バッチ処理中は全ジョブが完了するまで状態をポーリングする
+  useEffect(() => {
+    if (!batch || batch.completed) return;
+
+    const timer = setTimeout(() => {
+      fetch(`/api/batches/${batch.id}`)
+        .then(res => res.json())
+        .then(data => {
+          if (data.id) setBatch(data);
+        })
+        .catch(err => console.error('バッチ状態の取得に失敗しました:', err));
+    }, 1500);
+
+    return () => clearTimeout(timer);
+  }, [batch]);
+
+  // 非同期の解析中は完了するまで状態をポーリングし、完了したら保存された注文を開く
+  useEffect(() => {
+    if (!asyncOperation || asyncOperation.status !== 'running') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/operations/${asyncOperation.id}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || '非同期処理の状態の取得に失敗しました');
+        }
+
+        setAsyncOperation(data);
+        if (data.status === 'failed') {
+          setError(data.error || 'Document AI処理に失敗しました');
+        } else if (data.status === 'succeeded' && data.orderId) {
+          const order = await openOrder(data.orderId);
+          setOcrCache(order.result.cache || null);
+          setDetection(order.result.detection || null);
+        }
+      } catch (err) {
+        setAsyncOperation(null);
+        setError(err instanceof Error ? err.message : 'エラーが発生しました');
+      }
+    }, 3000);
+
+    return () => clearTimeout(timer);
+  }, [asyncOperation, openOrder]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      setEntities([]);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      setSelectedFiles(files);
+      setPurchaseOrder(null);
       setError('');
     }
   };
 
-  const handleProcessDocument = async () => {
-    if (!selectedFile) return;
+  // refresh: true の場合はOCR結果のキャッシュを使わずに読み取り直す
+  // type を指定した場合は、選択中の取引先の代わりにその取引先で読み取る（判定結果を手動で修正する場合）
+  const handleProcessDocument = async ({ refresh = false, type = processorType } = {}) => {
+    if (selectedFiles.length > 1) {
+      await handleProcessBatch();
+      return;
+    }
+
+    const selectedFile = selectedFiles[0];
+    if (!selectedFile || !type) return;
 
     setIsLoading(true);
     setError('');
-    setEntities([]);
+    setPurchaseOrder(null);
+    setPageLayout(null);
+    setPreprocessing(null);
+    setOcrCache(null);
+    setDetection(null);
+    setAsyncOperation(null);
+    setOpenedJobId('');
 
     try {
       const formData = new FormData();
       formData.append('file', selectedFile);
-      formData.append('processorType', processorType);
+      formData.append('processorType', type);
+      if (refresh) {
+        formData.append('refresh', 'true');
+      }
 
       const response = await fetch('/api/document-ai', {
         method: 'POST',
@@ -85,10 +423,26 @@ export default function Home() {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Document AI処理に失敗しました');
+        throw new Error(getUploadErrorMessage(data, 'Document AI処理に失敗しました'));
+      }
+
+      // 長いPDFは非同期で解析される（完了後にポーリングで結果を開く）
+      if (response.status === 202) {
+        setAsyncOperation(data.operation);
+        return;
       }
 
-      setEntities(data.entities || []);
+      setPurchaseOrder(data.purchaseOrder || null);
+      setPageLayout(data.layout || null);
+      setPreprocessing(data.preprocessing || null);
+      setOcrCache(data.cache || null);
+      setDetection(data.detection || null);
+      setResultProcessorType(data.processorType || type);
+      setResultFile(data.preprocessing?.modified && data.orderId
+        ? await fetchOrderSource(data.orderId, selectedFile.name)
+        : selectedFile);
+      setOrderId(data.orderId || '');
+      setSaveState(data.orderId ? 'saved' : '');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'エラーが発生しました');
     } finally {
@@ -96,103 +450,374 @@ export default function Home() {
     }
   };
 
-  // JSONからヘッダー情報を抽出（トップレベル）
-  const headerEntities = entities.filter(e => HEADER_FIELDS.includes(e.type));
+  // 複数ファイルをバッチとして登録する（結果はジョブ一覧から開く）
+  const handleProcessBatch = async () => {
+    if (selectedFiles.length === 0 || !processorType) return;
+
+    setError('');
+    setPurchaseOrder(null);
+    setPageLayout(null);
+    setPreprocessing(null);
+    setOcrCache(null);
+    setDetection(null);
+    setAsyncOperation(null);
+    setOpenedJobId('');
+
+    try {
+      const formData = new FormData();
+      selectedFiles.forEach(file => formData.append('files', file));
+      formData.append('processorType', processorType);
+
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(getUploadErrorMessage(data, 'バッチの登録に失敗しました'));
+      }
+
+      setBatch(data);
+      setBatchFiles(selectedFiles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  };
+
+  // バッチ内のジョブの解析結果を開く
+  const handleOpenJob = async (job: BatchJob) => {
+    if (!batch) return;
 
-  // JSONからrecipient_companyを抽出し、そのpropertiesからname, addressを取得
-  const recipientCompany = entities.find(e => e.type === 'recipient_company');
-  const recipientProperties = recipientCompany?.properties.filter(p =>
-    ['name', 'address'].includes(p.type)
-  ) || [];
+    setError('');
 
-  // ヘッダー情報とrecipient_companyのpropertiesを結合
-  const allHeaderEntities = [...headerEntities, ...recipientProperties];
+    try {
+      const response = await fetch(`/api/batches/${batch.id}/jobs/${job.id}`);
+      const data = await response.json();
 
-  // JSONから明細行（items）を抽出
-  const itemEntities = entities.filter(e => e.type === 'item');
+      if (!response.ok) {
+        throw new Error(data.error || '解析結果の取得に失敗しました');
+      }
 
-  // itemのpropertiesから値を取得するヘルパー
-  const getPropertyValue = (item: ExtractedEntity, key: string): string => {
-    const prop = item.properties.find(p => p.type === key);
-    return prop?.value || prop?.normalizedValue || '-';
+      setPurchaseOrder(data.purchaseOrder || null);
+      setPageLayout(data.layout || null);
+      setPreprocessing(data.preprocessing || null);
+      setOcrCache(data.cache || null);
+      setDetection(data.detection || null);
+      setResultProcessorType(data.processorType || batch.processorType);
+      setOpenedJobId(job.id);
+      setOrderId(data.orderId || '');
+      setSaveState(data.orderId ? 'saved' : '');
+      // ジョブは登録したファイルと同じ順序で並んでいる
+      const jobFile = batchFiles[batch.jobs.findIndex(j => j.id === job.id)] || null;
+      setResultFile(data.preprocessing?.modified && data.orderId
+        ? await fetchOrderSource(data.orderId, job.fileName)
+        : jobFile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
   };
 
-  // product_codeを4桁に補正し、商品マスターデータと照合する関数
-  const normalizeAndValidateProductCode = (item: ExtractedEntity): {
-    normalizedCode: string;
-    matchedProduct: Product | undefined;
-    originalCode: string;
-  } => {
-    const originalCode = getPropertyValue(item, 'product_code');
-    // 4桁以上の場合は最初の4桁に変換
-    const normalizedCode = originalCode.length >= 4 ? originalCode.substring(0, 4) : originalCode;
-    // 商品マスターデータから該当するデータを検索
-    const matchedProduct = products.find(p => p.product_code === normalizedCode);
-
-    return {
-      normalizedCode,
-      matchedProduct,
-      originalCode
+  // 解析結果に対応する取引先設定
+  const resultProcessor = processors.find(p => p.id === resultProcessorType);
+  const itemColumns = resultProcessor?.itemColumns || [];
+
+  // 解析結果が変わったら、商品マスターと照合して手修正用のデータを作り直す
+  useEffect(() => {
+    setHistory([]);
+    setSelectedFieldId('');
+    setPageFilter('');
+    lastEditTarget.current = '';
+    rematchRowIds.current.clear();
+    hasUnsavedChanges.current = false;
+
+    if (!resultProcessor || !purchaseOrder) {
+      setDraft(null);
+      return;
+    }
+
+    let cancelled = false;
+    // 注文履歴から開いた場合は保存した手修正を復元する
+    const stored = pendingStoredDraft.current;
+    pendingStoredDraft.current = null;
+
+    fetchProductCandidates(resultProcessor.id, stored ? stored.rows.map(getRowMatchQuery) : purchaseOrder.lines.map(getLineMatchQuery))
+      .catch(err => {
+        console.error('商品マスターとの照合に失敗しました:', err);
+        return [];
+      })
+      .then(candidates => {
+        if (cancelled) return;
+        setDraft(stored ? restoreDraft(stored, candidates) : createDraft(purchaseOrder, resultProcessor, candidates));
+      });
+
+    return () => {
+      cancelled = true;
     };
+  }, [purchaseOrder, resultProcessor]);
+
+  // 商品コード・品名を変更した行の候補を取り直す（元に戻す履歴には含めない）
+  const handleRematchRow = async (row: DraftRow) => {
+    if (!resultProcessor || !rematchRowIds.current.delete(row.id)) return;
+
+    try {
+      const [candidates = []] = await fetchProductCandidates(resultProcessor.id, [getRowMatchQuery(row)]);
+      setDraft(prev => prev && applyDraftAction(prev, { type: 'setCandidates', rowId: row.id, candidates }));
+    } catch (err) {
+      console.error('商品マスターとの照合に失敗しました:', err);
+    }
   };
 
-  // 補正されたproduct_codeまたはproduct_nameを取得する関数
-  const getCorrectedValue = (item: ExtractedEntity, key: string): string => {
-    if (key === 'product_code' || key === 'product_name') {
-      const { normalizedCode, matchedProduct, originalCode } = normalizeAndValidateProductCode(item);
+  // 手修正の操作を適用し、元に戻せるよう直前の状態を履歴に積む
+  const dispatchDraft = (action: DraftAction) => {
+    if (!draft) return;
 
-      if (key === 'product_code') {
-        // 4桁以上で該当データがある場合は4桁に補正
-        if (originalCode.length >= 4 && matchedProduct) {
-          return normalizedCode;
-        }
-        return originalCode;
-      } else if (key === 'product_name') {
-        // 4桁以上で該当データがある場合はマスターデータの商品名を使用
-        if (originalCode.length >= 4 && matchedProduct) {
-          return matchedProduct.product_name;
-        }
-        return getPropertyValue(item, key);
-      }
+    const target = action.type === 'setCell'
+      ? getCellFieldId(action.rowId, action.key)
+      : action.type === 'setHeader' ? getHeaderFieldId(action.key) : '';
+    if (!target || target !== lastEditTarget.current) {
+      setHistory(prev => [...prev, draft].slice(-MAX_HISTORY));
     }
-    return getPropertyValue(item, key);
+    lastEditTarget.current = target;
+    if (action.type === 'setCell' && MATCH_KEYS.includes(action.key)) {
+      rematchRowIds.current.add(action.rowId);
+    }
+
+    hasUnsavedChanges.current = true;
+    setDraft(applyDraftAction(draft, action));
+  };
+
+  const handleUndo = () => {
+    if (history.length === 0) return;
+    lastEditTarget.current = '';
+    hasUnsavedChanges.current = true;
+    setDraft(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
   };
 
-  // CSVダウンロード処理
-  const handleDownloadCsv = () => {
-    if (itemEntities.length === 0) return;
+  // 手修正は入力が落ち着いてから注文履歴に保存する（承認済みの注文は承認時の内容で確定しているため保存しない）
+  const approvedAt = orderDeliveries?.approvedAt;
+  useEffect(() => {
+    if (!draft || !orderId || !hasUnsavedChanges.current) return;
 
-    // BOM付きUTF-8でExcelでも文字化けしないようにする
-    const BOM = '\uFEFF';
+    const timer = setTimeout(() => {
+      hasUnsavedChanges.current = false;
+      if (approvedAt) {
+        setSaveState('locked');
+        return;
+      }
+      setSaveState('saving');
+      saveOrder(orderId, { draft: toStoredDraft(draft) })
+        .then(() => setSaveState('saved'))
+        .catch(err => {
+          console.error('手修正の保存に失敗しました:', err);
+          hasUnsavedChanges.current = true;
+          setSaveState('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
 
-    // ヘッダー行
-    const headers = ITEM_COLUMNS.map(col => col.label);
+    return () => clearTimeout(timer);
+  }, [draft, orderId, approvedAt]);
 
-    // データ行
-    const rows = itemEntities.map(item =>
-      ITEM_COLUMNS.map(col => {
-        const value = getCorrectedValue(item, col.key);
-        // カンマや改行を含む場合はダブルクォートで囲む
-        if (value.includes(',') || value.includes('\n') || value.includes('"')) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value;
+  // 保存した内容で重複の可能性がある注文を確認する（注文番号などを手修正した場合も再確認する）
+  useEffect(() => {
+    if (!orderId) {
+      setDuplicates([]);
+      setDuplicateConfirmedAt(null);
+      return;
+    }
+    if (saveState !== 'saved') return;
+
+    let cancelled = false;
+    fetch(`/api/orders/${orderId}/duplicates`)
+      .then(res => res.json())
+      .then(data => {
+        if (cancelled || !data.duplicates) return;
+        setDuplicates(data.duplicates);
+        setDuplicateConfirmedAt(data.confirmedAt);
       })
-    );
-
-    // CSV文字列を作成
-    const csvContent = BOM + [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-
-    // ダウンロード
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `明細一覧_${new Date().toISOString().slice(0, 10)}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+      .catch(err => console.error('重複の確認に失敗しました:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, saveState]);
+
+  const handleConfirmDuplicate = async () => {
+    if (!orderId) return;
+
+    try {
+      await saveOrder(orderId, { duplicateConfirmed: true });
+      setDuplicateConfirmedAt(new Date().toISOString());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  };
+
+  // 注文を開いたら承認・送信状況を読み込み、送信待ち（再試行待ち）がある間は状況をポーリングする
+  useEffect(() => {
+    if (!orderId) {
+      setOrderDeliveries(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/orders/${orderId}/deliveries`)
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.deliveries) setOrderDeliveries(data);
+      })
+      .catch(err => console.error('送信状況の取得に失敗しました:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  useEffect(() => {
+    if (!orderId || !orderDeliveries?.deliveries.some(delivery => delivery.status === 'pending')) return;
+
+    const timer = setTimeout(() => {
+      fetch(`/api/orders/${orderId}/deliveries`)
+        .then(res => res.json())
+        .then(data => {
+          if (data.deliveries) setOrderDeliveries(data);
+        })
+        .catch(err => console.error('送信状況の取得に失敗しました:', err));
+    }, 5000);
+
+    return () => clearTimeout(timer);
+  }, [orderId, orderDeliveries]);
+
+  // 重複の可能性がある注文は確認するまで出力・承認しない
+  const isExportBlocked = duplicates.length > 0 && !duplicateConfirmedAt;
+  const isApproved = !!orderDeliveries?.approvedAt;
+
+  const draftRows = draft?.rows || [];
+
+  // 行内の要確認セル
+  const getRowReviewReasons = (row: DraftRow) => itemColumns
+    .map(col => getCellReviewReason(row, col.key, !!col.required, confidenceThreshold))
+    .filter((reason): reason is ReviewReason => reason !== null);
+
+  const reviewSummary = draft && resultProcessor
+    ? summarizeReview(draft, resultProcessor, confidenceThreshold)
+    : null;
+
+  // 明細行ごとの数量・金額・単価のチェック結果
+  const lineWarnings = new Map<string, LineWarning[]>(resultProcessor
+    ? draftRows.map(row => [
+      row.id,
+      validateLine(row.values, findMatchedProduct(row, resultProcessor.productCode).matchedProduct, resultProcessor.priceCheck),
+    ])
+    : []);
+  const getLineWarnings = (row: DraftRow) => lineWarnings.get(row.id) || [];
+
+  // 手修正後の値を取引先設定の型に変換した注文書（出力と型エラーの表示に使う）
+  // 必須項目の空欄は要確認（未読取）として別に表示する
+  const correctedOrder = draft && resultProcessor ? toPurchaseOrder(draft, resultProcessor) : null;
+  const schemaErrors = new Map((correctedOrder?.errors || [])
+    .filter(error => error.code !== 'required')
+    .map(error => [error.path, error.message]));
+  const warningRowCount = draftRows.filter(row => getLineWarnings(row).length > 0).length;
+  const orderTotal = summarizeOrderTotal(draftRows.map(row => row.values));
+  // ビューアに表示する読み取り位置（ヘッダー項目と明細の各セル）
+  const viewerHighlights: ViewerHighlight[] = draft && resultProcessor
+    ? [
+      ...resultProcessor.headerFields.flatMap(field => {
+        const box = draft.headerBoxes[getHeaderFieldKey(field)];
+        return box ? [{ id: getHeaderFieldId(getHeaderFieldKey(field)), label: field.label, box }] : [];
+      }),
+      ...draftRows.flatMap((row, rowIndex) => itemColumns.flatMap(col => {
+        const box = row.boxes[col.key];
+        return box ? [{ id: getCellFieldId(row.id, col.key), label: `${rowIndex + 1}行目 ${col.label}`, box }] : [];
+      })),
+    ]
+    : [];
+
+  // ビューアで選択した項目に対応する入力欄へ移動する
+  const handleSelectHighlight = (id: string) => {
+    setSelectedFieldId(id);
+    const input = document.getElementById(`field-${id}`);
+    input?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    input?.focus({ preventScroll: true });
+  };
+
+  // 明細行のあるページ（手動で追加した行は0）。複数ページの場合はページの区切りとフィルターを表示する
+  const rowPages = [...new Set(draftRows.map(row => row.page))].sort((a, b) => a - b);
+  const isMultiPage = rowPages.filter(page => page > 0).length > 1;
+
+  // 複数ページに繰り返し記載されていたヘッダー項目の表示名
+  const getHeaderTypeLabel = (type: string) => (resultProcessor?.headerFields || [])
+    .filter(field => (field.parent || field.key) === type)
+    .map(field => field.label)
+    .join('・') || type;
+
+  const visibleRows = draftRows.filter(row =>
+    (!needsReviewOnly || getRowReviewReasons(row).length > 0 || getLineWarnings(row).length > 0) &&
+    (!pageFilter || row.page === Number(pageFilter))
+  );
+
+  // 承認（手修正を保存してから承認し、送信先へ送信する）
+  const handleApprove = async () => {
+    if (!orderId || !draft || draftRows.length === 0 || isExportBlocked || isApproved) return;
+    if (!confirm('この内容で承認し、送信先へ送信します。よろしいですか？')) return;
+
+    setIsApproving(true);
+    try {
+      hasUnsavedChanges.current = false;
+      await saveOrder(orderId, { draft: toStoredDraft(draft) });
+      setOrderDeliveries(await postDeliveryAction(`/api/orders/${orderId}/approve`, '注文の承認に失敗しました'));
+      setSaveState('saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  const handleResend = async (deliveryId: string) => {
+    if (!orderId) return;
+
+    setResendingId(deliveryId);
+    try {
+      setOrderDeliveries(await postDeliveryAction(`/api/orders/${orderId}/deliveries/${deliveryId}/resend`, '再送に失敗しました'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setResendingId('');
+    }
+  };
+
+  // 出力処理（手修正を保存してから、サーバーで選択した形式のファイルを作成する。承認済みの注文は承認時の内容で出力する）
+  const handleExport = async () => {
+    if (!orderId || !draft || draftRows.length === 0 || isExportBlocked) return;
+
+    setIsExporting(true);
+    try {
+      if (!isApproved) {
+        hasUnsavedChanges.current = false;
+        await saveOrder(orderId, { draft: toStoredDraft(draft) });
+      }
+      const { fileName, blob } = await exportOrder(orderId, exportFormat);
+
+      // ダウンロード
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setSaveState('saved');
+    } catch (err) {
+      console.error('出力に失敗しました:', err);
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -219,9 +844,9 @@ export default function Home() {
         </div>
       )}
 
-      <main className="max-w-6xl mx-auto relative">
+      <main className={`${draft && resultFile ? 'max-w-screen-2xl' : 'max-w-6xl'} mx-auto relative`}>
         {/* Header */}
-        <div className="mb-8 pt-4">
+        <div className="mb-8 pt-4 flex items-end justify-between">
           <div className="flex items-center gap-4 mb-2">
             <div className="w-2 h-16 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
             <div>
@@ -231,6 +856,13 @@ export default function Home() {
               <p className="mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>Fuji Grace - Document AI</p>
             </div>
           </div>
+          <nav className="flex gap-4 mb-2 text-sm font-semibold" style={{ color: '#5A7ACD' }}>
+            <Link href="/orders">注文履歴</Link>
+            <Link href="/inbox">メール受信</Link>
+            <Link href="/products">商品マスター</Link>
+            {hasPermission(user, 'processors:write') && <Link href="/processors">取引先設定</Link>}
+            {hasPermission(user, 'audit:read') && <Link href="/audit">監査ログ</Link>}
+          </nav>
         </div>
 
         {/* Main card */}
@@ -246,7 +878,8 @@ export default function Home() {
             <input
               id="file-upload"
               type="file"
-              accept="image/*,application/pdf"
+              accept="image/*,application/pdf,.heic,.heif,.tif,.tiff"
+              multiple
               onChange={handleFileChange}
               className="block w-full text-sm
                         file:mr-4 file:py-3 file:px-6
@@ -266,71 +899,46 @@ export default function Home() {
             <label className="block text-sm font-semibold mb-3" style={{ color: '#2B2A2A' }}>
               🏢 注文書タイプを選択してください
             </label>
+            <p className="text-xs mb-3" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+              自動判定では、読み取った内容に含まれる社名などから取引先を判定します
+            </p>
             <div className="flex gap-3">
-              <label className="flex-1 cursor-pointer">
-                <input
-                  type="radio"
-                  name="processorType"
-                  value="sannote"
-                  checked={processorType === 'sannote'}
-                  onChange={(e) => setProcessorType(e.target.value as ProcessorType)}
-                  className="sr-only"
-                />
-                <div
-                  className="p-4 rounded-2xl border-2 transition-all duration-200 text-sm font-medium"
-                  style={processorType === 'sannote'
-                    ? { borderColor: '#5A7ACD', backgroundColor: '#5A7ACD', color: 'white', boxShadow: '0 4px 6px rgba(90, 122, 205, 0.2)' }
-                    : { borderColor: '#F5F2F2', backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
-                  <div className="flex items-center gap-3">
-                    <div
-                      className="w-5 h-5 rounded-full border-2 flex items-center justify-center"
-                      style={processorType === 'sannote'
-                        ? { borderColor: 'white', backgroundColor: 'white' }
-                        : { borderColor: '#2B2A2A', opacity: 0.3 }}>
-                      {processorType === 'sannote' && (
-                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20" style={{ color: '#5A7ACD' }}>
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      )}
-                    </div>
-                    サンノート株式会社
-                  </div>
-                </div>
-              </label>
-              <label className="flex-1 cursor-pointer">
-                <input
-                  type="radio"
-                  name="processorType"
-                  value="yac"
-                  checked={processorType === 'yac'}
-                  onChange={(e) => setProcessorType(e.target.value as ProcessorType)}
-                  className="sr-only"
-                />
-                <div
-                  className="p-4 rounded-2xl border-2 transition-all duration-200 text-sm font-medium"
-                  style={processorType === 'yac'
-                    ? { borderColor: '#5A7ACD', backgroundColor: '#5A7ACD', color: 'white', boxShadow: '0 4px 6px rgba(254, 176, 93, 0.2)' }
-                    : { borderColor: '#F5F2F2', backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
-                  <div className="flex items-center gap-3">
-                    <div
-                      className="w-5 h-5 rounded-full border-2 flex items-center justify-center"
-                      style={processorType === 'yac'
-                        ? { borderColor: 'white', backgroundColor: 'white' }
-                        : { borderColor: '#2B2A2A', opacity: 0.3 }}>
-                      {processorType === 'yac' && (
-                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20" style={{ color: '#5A7ACD' }}>
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      )}
+              {[{ id: AUTO_PROCESSOR_TYPE, name: '自動判定' }, ...processors].map((processor) => (
+                <label key={processor.id} className="flex-1 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="processorType"
+                    value={processor.id}
+                    checked={processorType === processor.id}
+                    onChange={(e) => setProcessorType(e.target.value)}
+                    className="sr-only"
+                  />
+                  <div
+                    className="p-4 rounded-2xl border-2 transition-all duration-200 text-sm font-medium"
+                    style={processorType === processor.id
+                      ? { borderColor: '#5A7ACD', backgroundColor: '#5A7ACD', color: 'white', boxShadow: '0 4px 6px rgba(90, 122, 205, 0.2)' }
+                      : { borderColor: '#F5F2F2', backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+                    <div className="flex items-center gap-3">
+                      <div
+                        className="w-5 h-5 rounded-full border-2 flex items-center justify-center"
+                        style={processorType === processor.id
+                          ? { borderColor: 'white', backgroundColor: 'white' }
+                          : { borderColor: '#2B2A2A', opacity: 0.3 }}>
+                        {processorType === processor.id && (
+                          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20" style={{ color: '#5A7ACD' }}>
+                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                          </svg>
+                        )}
+                      </div>
+                      {processor.name}
                     </div>
-                    槌屋YAC株式会社
                   </div>
-                </div>
-              </label>
+                </label>
+              ))}
             </div>
           </div>
 
-          {selectedFile && (
+          {selectedFiles.length > 0 && (
             <div className="mb-6 p-5 border-2 rounded-2xl animate-slideIn" style={{ backgroundColor: '#F5F2F2', borderColor: '#5A7ACD' }}>
               <div className="flex items-start gap-4">
                 <div className="w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0 shadow-md" style={{ backgroundColor: '#5A7ACD' }}>
@@ -339,20 +947,26 @@ export default function Home() {
                   </svg>
                 </div>
                 <div className="flex-1 min-w-0">
-                  <p className="text-xs font-semibold mb-1" style={{ color: '#5A7ACD' }}>ファイル選択完了</p>
-                  <p className="text-sm font-medium truncate" style={{ color: '#2B2A2A' }}>{selectedFile.name}</p>
-                  <p className="text-xs mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{(selectedFile.size / 1024).toFixed(2)} KB</p>
+                  <p className="text-xs font-semibold mb-1" style={{ color: '#5A7ACD' }}>
+                    ファイル選択完了{selectedFiles.length > 1 && `（${selectedFiles.length}件・一括処理）`}
+                  </p>
+                  {selectedFiles.map((file, index) => (
+                    <p key={index} className="text-sm font-medium truncate" style={{ color: '#2B2A2A' }}>
+                      {file.name}
+                      <span className="text-xs ml-2" style={{ opacity: 0.6 }}>{(file.size / 1024).toFixed(2)} KB</span>
+                    </p>
+                  ))}
                 </div>
               </div>
             </div>
           )}
 
           <button
-            onClick={handleProcessDocument}
-            disabled={!selectedFile || isLoading}
+            onClick={() => handleProcessDocument()}
+            disabled={selectedFiles.length === 0 || !processorType || isLoading || asyncOperation?.status === 'running'}
             className="w-full text-white font-bold py-4 px-8 rounded-2xl transition-all duration-200 shadow-lg transform hover:scale-[1.02] active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-50"
             style={{
-              backgroundColor: !selectedFile || isLoading ? '#2B2A2A' : '#5A7ACD'
+              backgroundColor: selectedFiles.length === 0 || isLoading ? '#2B2A2A' : '#5A7ACD'
             }}
           >
             <div className="flex items-center justify-center gap-3">
@@ -366,13 +980,37 @@ export default function Home() {
                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                   </svg>
-                  <span>AI解析を開始</span>
+                  <span>{selectedFiles.length > 1 ? `${selectedFiles.length}件をまとめてAI解析` : 'AI解析を開始'}</span>
                 </>
               )}
             </div>
           </button>
+
+          {asyncOperation?.status === 'running' && (
+            <div className="mt-4 px-5 py-4 rounded-2xl border-2 flex items-center gap-3 animate-slideIn" style={{ backgroundColor: '#F5F2F2', borderColor: '#5A7ACD' }}>
+              <div className="w-5 h-5 border-2 rounded-full animate-spin flex-shrink-0" style={{ borderColor: '#5A7ACD', borderTopColor: 'transparent' }} />
+              <div className="text-sm" style={{ color: '#2B2A2A' }}>
+                <p className="font-semibold">
+                  長いPDF（{asyncOperation.pageCount}ページ）のため非同期で解析しています
+                  {asyncOperation.state && <span className="text-xs font-normal ml-2" style={{ opacity: 0.6 }}>{asyncOperation.state}</span>}
+                </p>
+                <p className="text-xs mt-1" style={{ opacity: 0.7 }}>
+                  完了すると自動で結果を開きます。この画面を閉じても、結果は注文履歴に保存されます。
+                </p>
+              </div>
+            </div>
+          )}
         </div>
 
+        {batch && (
+          <BatchJobList
+            batch={batch}
+            processors={processors}
+            openedJobId={openedJobId}
+            onOpen={handleOpenJob}
+          />
+        )}
+
         {error && (
           <div className="border-2 rounded-2xl px-6 py-4 mb-6 animate-slideIn" style={{ backgroundColor: '#5A7ACD', borderColor: '#5A7ACD', opacity: 0.9 }}>
             <div className="flex items-start gap-4">
@@ -389,59 +1027,307 @@ export default function Home() {
           </div>
         )}
 
-        {entities.length > 0 && (
-          <div className="animate-slideIn space-y-6">
-            {/* ヘッダー情報（JSONから動的生成） */}
-            {allHeaderEntities.length > 0 && (
-              <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
-                <div className="flex items-center gap-3 mb-6">
-                  <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
-                  <h2 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>📋 注文書情報</h2>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {allHeaderEntities.map((entity, index) => (
-                    <div
-                      key={index}
-                      className="border p-4 rounded-2xl hover:shadow-md transition-all duration-200"
-                      style={{ backgroundColor: '#F5F2F2', borderColor: '#F5F2F2' }}
-                    >
-                      <div className="text-xs font-semibold mb-2 uppercase" style={{ color: '#5A7ACD' }}>
-                        {entity.type.replace(/_/g, ' ')}
-                      </div>
-                      <div className="whitespace-pre-line font-medium" style={{ color: '#2B2A2A' }}>
-                        {entity.value || entity.normalizedValue || '-'}
-                      </div>
-                    </div>
-                  ))}
-                </div>
+        {draft && resultProcessor && (
+          <div className="animate-slideIn flex flex-col xl:flex-row gap-6 items-start">
+            {/* 原本ビューア（表のセルと読み取り位置を相互に選択できる） */}
+            {resultFile && (
+              <div className="w-full xl:w-5/12 xl:sticky xl:top-4 flex-shrink-0">
+                <DocumentViewer
+                  file={resultFile}
+                  highlights={viewerHighlights}
+                  selectedId={selectedFieldId}
+                  onSelect={handleSelectHighlight}
+                />
               </div>
             )}
 
-            {/* 明細テーブル（JSONから動的生成） */}
-            {itemEntities.length > 0 && (
+            <div className="space-y-6 flex-1 min-w-0 w-full">
+              {duplicates.length > 0 && (
+                <DuplicateOrderNotice
+                  duplicates={duplicates}
+                  current={{
+                    orderNumber: draft.header.order_number || '',
+                    orderDate: draft.header.order_date || '',
+                    recipientName: draft.header['recipient_company.name'] || '',
+                    fileName: resultFile?.name || '',
+                  }}
+                  confirmedAt={duplicateConfirmedAt}
+                  onConfirm={handleConfirmDuplicate}
+                />
+              )}
+
+              {orderDeliveries && orderDeliveries.deliveries.length > 0 && (
+                <OrderDeliveryPanel
+                  deliveries={orderDeliveries}
+                  resendingId={resendingId}
+                  onResend={handleResend}
+                />
+              )}
+
+              {/* ヘッダー情報（取引先設定のheaderFieldsから生成・手修正可） */}
+              {resultProcessor.headerFields.length > 0 && (
+                <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+                  <div className="flex items-center gap-3 mb-6">
+                    <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+                    <h2 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>📋 注文書情報</h2>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {resultProcessor.headerFields.map((field) => {
+                      const key = getHeaderFieldKey(field);
+                      const edited = isHeaderEdited(draft, key);
+                      const reviewReason = getHeaderReviewReason(draft, key, !!field.required, confidenceThreshold);
+
+                      return (
+                        <div
+                          key={key}
+                          className="border p-4 rounded-2xl hover:shadow-md transition-all duration-200"
+                          style={{
+                            backgroundColor: edited ? EDITED_CELL_COLOR : reviewReason ? REVIEW_CELL_COLORS[reviewReason] : '#F5F2F2',
+                            borderColor: selectedFieldId === getHeaderFieldId(key) ? '#E67E22' : '#F5F2F2'
+                          }}
+                        >
+                          <div className="text-xs font-semibold mb-2 uppercase flex justify-between" style={{ color: '#5A7ACD' }}>
+                            {field.label}
+                            {edited ? (
+                              <span title={`OCR: ${draft.headerOriginal[key] || '-'}`}>✎ 手修正</span>
+                            ) : (
+                              <span title={formatConfidence(draft.headerConfidence[key])} style={{ color: reviewReason ? '#C0392B' : undefined }}>
+                                {reviewReason === 'missing' ? '未読取' : formatConfidencePercent(draft.headerConfidence[key])}
+                              </span>
+                            )}
+                          </div>
+                          <textarea
+                            id={`field-${getHeaderFieldId(key)}`}
+                            onFocus={() => setSelectedFieldId(getHeaderFieldId(key))}
+                            value={draft.header[key] || ''}
+                            onChange={(e) => dispatchDraft({ type: 'setHeader', key, value: e.target.value })}
+                            placeholder="-"
+                            rows={Math.max(1, (draft.header[key] || '').split('\n').length)}
+                            className="w-full bg-transparent font-medium resize-none focus:outline-none"
+                            style={{ color: '#2B2A2A' }}
+                          />
+                          {schemaErrors.has(getHeaderErrorPath(key)) ? (
+                            <p className="text-xs mt-1" style={{ color: '#C0392B' }}>{schemaErrors.get(getHeaderErrorPath(key))}</p>
+                          ) : describeNormalized(correctedOrder?.header[key]) && (
+                            <p className="text-xs mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{describeNormalized(correctedOrder?.header[key])}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* 明細テーブル（取引先設定のitemColumnsから生成・手修正可） */}
               <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
                 <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
                   <div className="flex items-center gap-3">
                     <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
                     <div>
                       <h2 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>📊 明細一覧</h2>
-                      <p className="text-sm mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{itemEntities.length}件のアイテム</p>
+                      <p className="text-sm mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                        {visibleRows.length !== draftRows.length ? `${visibleRows.length} / ${draftRows.length}` : draftRows.length}件のアイテム
+                        {saveState && (
+                          <span className="ml-3" style={{ color: saveState === 'error' ? '#C0392B' : undefined }}>
+                            {SAVE_STATE_LABELS[saveState]}
+                          </span>
+                        )}
+                      </p>
                     </div>
                   </div>
-                  <button
-                    onClick={handleDownloadCsv}
-                    className="text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-lg cursor-pointer text-sm transform hover:scale-105 active:scale-95"
-                    style={{ backgroundColor: '#5A7ACD' }}
-                  >
-                    <div className="flex items-center gap-2">
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                      CSVダウンロード
-                    </div>
-                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleUndo}
+                      disabled={history.length === 0}
+                      className="font-bold py-3 px-6 rounded-2xl transition-all duration-200 cursor-pointer text-sm border-2 disabled:cursor-not-allowed disabled:opacity-40"
+                      style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                    >
+                      ↶ 元に戻す
+                    </button>
+                    <select
+                      value={exportFormat}
+                      onChange={e => setExportFormat(e.target.value)}
+                      aria-label="出力形式"
+                      className="py-3 px-3 rounded-2xl text-sm border-2 bg-white cursor-pointer"
+                      style={{ borderColor: '#5A7ACD', color: '#2B2A2A' }}
+                    >
+                      <option value="xlsx">Excel（.xlsx）</option>
+                      <option value="json">JSON</option>
+                      {csvTemplates.map(template => (
+                        <option key={template.id} value={`csv:${template.id}`}>CSV：{template.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleExport}
+                      disabled={!orderId || draftRows.length === 0 || isExportBlocked || isExporting}
+                      title={isExportBlocked ? '重複の可能性を確認してから出力してください' : undefined}
+                      className="text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-lg cursor-pointer text-sm transform hover:scale-105 active:scale-95 disabled:cursor-not-allowed disabled:opacity-50"
+                      style={{ backgroundColor: '#5A7ACD' }}
+                    >
+                      <div className="flex items-center gap-2">
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                        </svg>
+                        {isExporting ? '出力中...' : '出力'}
+                      </div>
+                    </button>
+                    <button
+                      onClick={handleApprove}
+                      disabled={!orderId || draftRows.length === 0 || isExportBlocked || isApproved || isApproving}
+                      title={isExportBlocked ? '重複の可能性を確認してから承認してください' : isApproved ? '承認済みです。送信状況から再送できます' : undefined}
+                      className="text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-lg cursor-pointer text-sm transform hover:scale-105 active:scale-95 disabled:cursor-not-allowed disabled:opacity-50"
+                      style={{ backgroundColor: '#2E8B57' }}
+                    >
+                      {isApproving ? '送信中...' : isApproved ? '✓ 承認済み' : '承認して送信'}
+                    </button>
+                  </div>
                 </div>
 
+                {/* 要確認項目の集計とフィルター */}
+                {reviewSummary && (
+                  <div className="mb-4 p-4 rounded-2xl flex flex-wrap items-center gap-x-6 gap-y-3 text-sm" style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+                    <span className="font-bold">
+                      要確認：
+                      <span className="ml-2 px-2 py-0.5 rounded-lg" style={{ backgroundColor: REVIEW_CELL_COLORS.low }}>低信頼度 {reviewSummary.low}項目</span>
+                      <span className="ml-2 px-2 py-0.5 rounded-lg" style={{ backgroundColor: REVIEW_CELL_COLORS.missing }}>未読取 {reviewSummary.missing}項目</span>
+                      <span className="ml-2 font-normal" style={{ opacity: 0.6 }}>（{reviewSummary.rows}行）</span>
+                      <span className="ml-2 px-2 py-0.5 rounded-lg" style={{ border: `2px solid ${WARNING_COLOR}` }}>計算不一致 {warningRowCount}行</span>
+                    </span>
+                    <label className="flex items-center gap-2">
+                      しきい値
+                      <input
+                        type="range"
+                        min={0.5}
+                        max={0.99}
+                        step={0.01}
+                        value={confidenceThreshold}
+                        onChange={(e) => handleThresholdChange(Number(e.target.value))}
+                      />
+                      <span className="tabular-nums w-10">{Math.round(confidenceThreshold * 100)}%</span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={needsReviewOnly}
+                        onChange={(e) => setNeedsReviewOnly(e.target.checked)}
+                      />
+                      要確認の行のみ表示
+                    </label>
+                    {isMultiPage && (
+                      <label className="flex items-center gap-2">
+                        ページ
+                        <select
+                          value={pageFilter}
+                          onChange={(e) => setPageFilter(e.target.value)}
+                          className="bg-white rounded-lg border px-2 py-1 cursor-pointer"
+                          style={{ borderColor: '#5A7ACD' }}
+                        >
+                          <option value="">すべて</option>
+                          {rowPages.map(page => (
+                            <option key={page} value={page}>{page > 0 ? `${page}ページ` : '追加行'}</option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                  </div>
+                )}
+
+                {/* 取引先の判定結果（自動判定した取引先、または指定した取引先と異なる可能性） */}
+                {detection && (detection.mode === 'auto' || (detection.detectedType && detection.detectedType !== resultProcessorType)) && (() => {
+                  const detected = processors.find(p => p.id === detection.detectedType);
+                  const matched = detection.scores.find(score => score.processorType === detection.detectedType)?.matched || [];
+                  const isWarning = !detected || detection.mode === 'manual';
+                  // 判定結果を修正して読み取り直せるのは、選択中のファイルを1件だけ読み取った場合
+                  const canRerun = !openedJobId && selectedFiles.length === 1;
+
+                  return (
+                    <div
+                      className="mb-4 p-4 rounded-2xl text-sm flex items-center justify-between gap-4 border-2"
+                      style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A', borderColor: isWarning ? WARNING_COLOR : '#F5F2F2' }}
+                    >
+                      <p>
+                        {detection.mode === 'manual'
+                          ? `⚠ 読み取った内容から、${detected?.name}の注文書の可能性があります（信頼度: ${formatConfidencePercent(detection.confidence)}）。`
+                          : detected
+                            ? `取引先を自動判定しました：${detected.name}（信頼度: ${formatConfidencePercent(detection.confidence)}${matched.length > 0 ? `・${matched.join('、')}` : ''}）`
+                            : `⚠ 取引先を判定できませんでした。${resultProcessor?.name || resultProcessorType}として読み取っています。正しい取引先を選んで読み取り直してください。`}
+                      </p>
+                      {canRerun && (
+                        <select
+                          value=""
+                          onChange={(e) => {
+                            setProcessorType(e.target.value);
+                            handleProcessDocument({ type: e.target.value });
+                          }}
+                          disabled={isLoading}
+                          className="rounded-xl border-2 px-3 py-2 text-xs font-bold bg-white cursor-pointer"
+                          style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                        >
+                          <option value="">別の取引先で読み取り直す</option>
+                          {processors.filter(p => p.id !== resultProcessorType).map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {/* 同じファイルの読み取り結果（キャッシュ）を使った場合 */}
+                {ocrCache?.status === 'hit' && (
+                  <div className="mb-4 p-4 rounded-2xl text-sm flex items-center justify-between gap-4" style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+                    <p>
+                      {ocrCache.cachedAt && `${new Date(ocrCache.cachedAt).toLocaleString('ja-JP')}に`}読み取った結果を再利用しています（OCRは実行していません）。
+                    </p>
+                    {!openedJobId && selectedFiles.length === 1 && (
+                      <button
+                        onClick={() => handleProcessDocument({ refresh: true })}
+                        disabled={isLoading}
+                        className="px-4 py-2 rounded-xl text-xs font-bold border-2 whitespace-nowrap cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                        style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                      >
+                        OCRを再実行
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* OCRに送る前に行った前処理 */}
+                {preprocessing && preprocessing.steps.length > 0 && (
+                  <div className="mb-4 p-4 rounded-2xl text-sm" style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+                    <p className="font-bold mb-1">前処理</p>
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {preprocessing.steps.map((step, index) => (
+                        <li key={index}>{step.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* 複数ページの注文書で、ページ間で重複・分割していた項目 */}
+                {pageLayout && (pageLayout.repeatedHeaders.length > 0 || pageLayout.mergedLines.length > 0) && (
+                  <div className="mb-4 p-4 rounded-2xl text-sm space-y-1" style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+                    {pageLayout.repeatedHeaders.length > 0 && (
+                      <p>
+                        各ページに記載されたヘッダー項目を1つにまとめました：
+                        {pageLayout.repeatedHeaders.map(header => (
+                          <span
+                            key={header.type}
+                            className="ml-2"
+                            style={{ color: header.conflicting ? WARNING_COLOR : undefined }}
+                            title={header.conflicting ? 'ページによって読み取った値が異なります。信頼度が最も高い値を採用しています' : undefined}
+                          >
+                            {header.conflicting && '⚠ '}{getHeaderTypeLabel(header.type)}（{header.pages.join('・')}ページ）
+                          </span>
+                        ))}
+                      </p>
+                    )}
+                    {pageLayout.mergedLines.length > 0 && (
+                      <p>ページをまたいで記載された明細 {pageLayout.mergedLines.length}行を1行にまとめました。</p>
+                    )}
+                  </div>
+                )}
+
                 {/* データ不一致の説明 */}
                 <div className="mb-6 p-2 border-2 rounded-2xl" style={{ backgroundColor: '#5A7ACD', borderColor: '#5A7ACD' }}>
                   <div className="flex items-center gap-3" style={{ opacity: 1 }}>
@@ -451,7 +1337,7 @@ export default function Home() {
                       </svg>
                     </div>
                     <p className="text-sm" style={{ color: '#FFFFFF' }}>
-                      <span>ご注意：</span>薄くなっている行は、商品コードが4桁以上ですが商品マスターデータに該当する商品が見つかりませんでした。
+                      <span>ご注意：</span>薄くなっている行は、商品コードが規定の桁数以上ですが商品マスターデータに該当する商品が見つかりませんでした。コード欄の「候補」から商品マスターの候補を選択できます。黄色のセルは手修正した項目、赤系のセルは信頼度がしきい値未満または必須項目が空の項目、オレンジ枠のセルは数量・金額の計算やマスター単価と一致しない項目、赤い波線は数値・日付として読み取れない値です。
                     </p>
                   </div>
                 </div>
@@ -460,7 +1346,7 @@ export default function Home() {
                   <table className="w-full text-sm border-collapse">
                     <thead style={{ backgroundColor: '#5A7ACD' }}>
                       <tr>
-                        {ITEM_COLUMNS.map((col, idx) => (
+                        {itemColumns.map((col) => (
                           <th
                             key={col.key}
                             className={`py-3 px-4 font-bold text-white text-xs ${
@@ -470,42 +1356,176 @@ export default function Home() {
                             {col.label}
                           </th>
                         ))}
+                        <th className="py-3 px-4 font-bold text-white text-xs text-center">操作</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {itemEntities.map((item, rowIndex) => {
-                        const { normalizedCode, matchedProduct, originalCode } = normalizeAndValidateProductCode(item);
-                        const hasNoMatch = originalCode.length >= 4 && !matchedProduct;
+                      {visibleRows.map((row, visibleIndex) => {
+                        const rowIndex = draftRows.indexOf(row);
+                        // 複数ページの場合は、前の行とページが変わるところに区切りを表示する
+                        const showPageSeparator = isMultiPage && row.page !== visibleRows[visibleIndex - 1]?.page;
+                        const pages = getRowPages(row);
+                        const { matchedProduct, isCodeLength } = findMatchedProduct(row, resultProcessor.productCode);
+                        const hasNoMatch = isCodeLength && !matchedProduct;
+                        const warnings = getLineWarnings(row);
+                        const warningKeys = new Set(warnings.flatMap(warning => warning.keys));
 
                         return (
-                          <tr
-                            key={rowIndex}
-                            className="transition-all duration-150"
-                            style={{
-                              borderBottom: '1px solid #F5F2F2',
-                              backgroundColor: hasNoMatch ? '#5A7ACD' : (rowIndex % 2 === 0 ? 'white' : '#F5F2F2'),
-                              opacity: hasNoMatch ? 0.5 : 1
-                            }}
-                          >
-                            {ITEM_COLUMNS.map((col) => (
-                              <td
-                                key={col.key}
-                                className={`py-3 px-4 ${
-                                  col.align === 'right' ? 'text-right tabular-nums' : 'text-left'
-                                } ${hasNoMatch ? 'font-medium' : ''}`}
-                                style={{ color: '#2B2A2A' }}
-                              >
-                                {getCorrectedValue(item, col.key)}
+                          <Fragment key={row.id}>
+                            {showPageSeparator && (
+                              <tr style={{ backgroundColor: '#F5F2F2' }}>
+                                <td colSpan={itemColumns.length + 1} className="py-1 px-4 text-xs font-bold" style={{ color: '#5A7ACD' }}>
+                                  {row.page > 0 ? `${row.page}ページ` : '追加行'}
+                                </td>
+                              </tr>
+                            )}
+                            <tr
+                              className="transition-all duration-150"
+                              style={{
+                                borderBottom: '1px solid #F5F2F2',
+                                backgroundColor: hasNoMatch ? '#5A7ACD' : (rowIndex % 2 === 0 ? 'white' : '#F5F2F2'),
+                                opacity: hasNoMatch ? 0.5 : 1
+                              }}
+                            >
+                              {itemColumns.map((col) => {
+                                const edited = isCellEdited(row, col.key);
+                                const reviewReason = getCellReviewReason(row, col.key, !!col.required, confidenceThreshold);
+                                const schemaError = schemaErrors.get(getLineErrorPath(rowIndex, col.key));
+                                const normalized = describeNormalized(correctedOrder?.lines[rowIndex]?.fields[col.key]);
+
+                                return (
+                                  <td
+                                    key={col.key}
+                                    className={`py-1 px-2 relative ${hasNoMatch ? 'font-medium' : ''}`}
+                                    style={{
+                                      color: '#2B2A2A',
+                                      backgroundColor: edited ? EDITED_CELL_COLOR : reviewReason ? REVIEW_CELL_COLORS[reviewReason] : undefined,
+                                      outline: selectedFieldId === getCellFieldId(row.id, col.key) ? '2px solid #E67E22' : undefined,
+                                      boxShadow: warningKeys.has(col.key) ? `inset 0 0 0 2px ${WARNING_COLOR}` : undefined
+                                    }}
+                                    title={[
+                                      schemaError,
+                                      normalized,
+                                      edited && row.original
+                                        ? `OCR: ${row.original[col.key] || '-'}`
+                                        : formatConfidence(row.confidence[col.key], row.page),
+                                    ].filter(Boolean).join('\n')}
+                                  >
+                                    {reviewReason && (
+                                      <span
+                                        className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full"
+                                        style={{ backgroundColor: '#C0392B' }}
+                                      />
+                                    )}
+                                    <input
+                                      id={`field-${getCellFieldId(row.id, col.key)}`}
+                                      onFocus={() => setSelectedFieldId(getCellFieldId(row.id, col.key))}
+                                      onBlur={() => handleRematchRow(row)}
+                                      value={row.values[col.key] || ''}
+                                      onChange={(e) => dispatchDraft({ type: 'setCell', rowId: row.id, key: col.key, value: e.target.value })}
+                                      placeholder="-"
+                                      className={`w-full min-w-16 bg-transparent py-2 px-2 rounded-lg focus:outline-none focus:ring-2 ${
+                                        col.align === 'right' ? 'text-right tabular-nums' : 'text-left'
+                                      }`}
+                                      style={{ textDecoration: schemaError ? 'underline wavy #C0392B' : undefined }}
+                                    />
+                                    {col.type === 'date' && normalized && (
+                                      <p className="text-xs px-2 whitespace-nowrap" style={{ opacity: 0.6 }}>{normalized}</p>
+                                    )}
+                                    {col.key === 'product_code' && row.candidates.length > 0 && (
+                                      <select
+                                        value=""
+                                        onChange={(e) => {
+                                          const candidate = row.candidates.find(c => String(c.product.id) === e.target.value);
+                                          if (candidate) dispatchDraft({ type: 'applyProduct', rowId: row.id, product: candidate.product });
+                                        }}
+                                        className="w-full mt-1 text-xs bg-white rounded-lg border px-1 py-1 cursor-pointer"
+                                        style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                                        title="商品マスターの候補から選択"
+                                      >
+                                        <option value="">候補 {row.candidates.length}件</option>
+                                        {row.candidates.map(candidate => (
+                                          <option key={candidate.product.id} value={candidate.product.id}>
+                                            {candidate.product.product_code} {candidate.product.product_name}（{Math.round(candidate.score * 100)}%・{candidate.reasons.map(reason => MATCH_REASON_LABELS[reason]).join('/')}）
+                                          </option>
+                                        ))}
+                                      </select>
+                                    )}
+                                  </td>
+                                );
+                              })}
+                              <td className="py-1 px-2 whitespace-nowrap text-center">
+                                {pages.length > 1 && (
+                                  <span
+                                    className="px-1 text-xs cursor-help"
+                                    style={{ color: '#5A7ACD' }}
+                                    title={`${pages.join('・')}ページにまたがる明細を1行にまとめています`}
+                                  >
+                                    {pages[0]}〜{pages[pages.length - 1]}p
+                                  </span>
+                                )}
+                                {warnings.length > 0 && (
+                                  <span
+                                    className="px-2 py-1 cursor-help"
+                                    style={{ color: WARNING_COLOR }}
+                                    title={warnings.map(warning => warning.message).join('\n')}
+                                  >
+                                    ⚠
+                                  </span>
+                                )}
+                                <button
+                                  onClick={() => dispatchDraft({ type: 'moveRow', rowId: row.id, offset: -1 })}
+                                  disabled={rowIndex === 0}
+                                  className="px-2 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                                  title="上へ移動"
+                                >
+                                  ↑
+                                </button>
+                                <button
+                                  onClick={() => dispatchDraft({ type: 'moveRow', rowId: row.id, offset: 1 })}
+                                  disabled={rowIndex === draftRows.length - 1}
+                                  className="px-2 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                                  title="下へ移動"
+                                >
+                                  ↓
+                                </button>
+                                <button
+                                  onClick={() => dispatchDraft({ type: 'deleteRow', rowId: row.id })}
+                                  className="px-2 py-1 cursor-pointer"
+                                  title="行を削除"
+                                >
+                                  ✕
+                                </button>
                               </td>
-                            ))}
-                          </tr>
+                            </tr>
+                          </Fragment>
                         );
                       })}
                     </tbody>
+                    <tfoot>
+                      <tr style={{ borderTop: '2px solid #5A7ACD' }}>
+                        <td colSpan={itemColumns.length + 1} className="py-3 px-4 text-right font-bold" style={{ color: '#2B2A2A' }}>
+                          合計金額 <span className="tabular-nums">¥{orderTotal.amount.toLocaleString('ja-JP')}</span>
+                          {orderTotal.calculated !== orderTotal.amount && (
+                            <span className="ml-3 font-normal text-xs" style={{ color: WARNING_COLOR }}>
+                              （数量 × 単価の合計: ¥{orderTotal.calculated.toLocaleString('ja-JP')}）
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    </tfoot>
                   </table>
                 </div>
+
+                <button
+                  onClick={() => dispatchDraft({ type: 'addRow' })}
+                  className="mt-4 w-full font-bold py-3 rounded-2xl border-2 border-dashed text-sm cursor-pointer transition-all duration-200"
+                  style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                >
+                  ＋ 行を追加
+                </button>
               </div>
-            )}
+            </div>
           </div>
         )}
       </main>
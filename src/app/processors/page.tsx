@@ -0,0 +1,336 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { ProcessorConfig } from '@/lib/processors/types';
+
+// 編集フォームの値（入力中は文字列で保持する）
+// 項目・カラムの定義などの入れ子の設定は、JSONのまま編集する（layout）
+interface ProcessorForm {
+  id: string;
+  name: string;
+  processorId: string;
+  processorIdEnv: string;
+  processorVersionId: string;
+  pageLimit: string;
+  // 自動判定のルール（1行に1つ）
+  keywords: string;
+  patterns: string;
+  senders: string;
+  layout: string;
+}
+
+const TEXT_FIELDS: { key: Exclude<keyof ProcessorForm, 'keywords' | 'patterns' | 'senders' | 'layout'>; label: string; placeholder?: string }[] = [
+  { key: 'id', label: '取引先ID' },
+  { key: 'name', label: '表示名' },
+  { key: 'processorId', label: 'プロセッサID', placeholder: '環境変数で指定する場合は空欄' },
+  { key: 'processorIdEnv', label: 'プロセッサIDの環境変数名' },
+  { key: 'processorVersionId', label: 'プロセッサバージョン', placeholder: '既定のバージョン' },
+  { key: 'pageLimit', label: '1回に送る最大ページ数', placeholder: '15' },
+];
+
+const DETECTION_FIELDS: { key: 'keywords' | 'patterns' | 'senders'; label: string }[] = [
+  { key: 'keywords', label: '判定の語句' },
+  { key: 'patterns', label: '判定の正規表現' },
+  { key: 'senders', label: 'メールの送信元' },
+];
+
+const toLines = (values?: string[]) => (values || []).join('\n');
+const fromLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+
+const toForm = (processor: ProcessorConfig): ProcessorForm => ({
+  id: processor.id,
+  name: processor.name,
+  processorId: processor.processorId || '',
+  processorIdEnv: processor.processorIdEnv || '',
+  processorVersionId: processor.processorVersionId || '',
+  pageLimit: processor.pageLimit !== undefined ? String(processor.pageLimit) : '',
+  keywords: toLines(processor.detection?.keywords),
+  patterns: toLines(processor.detection?.patterns),
+  senders: toLines(processor.detection?.senders),
+  layout: JSON.stringify({
+    headerFields: processor.headerFields,
+    itemColumns: processor.itemColumns,
+    productCode: processor.productCode,
+    ...(processor.priceCheck ? { priceCheck: processor.priceCheck } : {}),
+  }, null, 2),
+});
+
+// フォームの値を取引先設定に戻す（JSONの誤りはどの取引先かがわかるメッセージで返す）
+function fromForm(form: ProcessorForm): ProcessorConfig {
+  let layout: Pick<ProcessorConfig, 'headerFields' | 'itemColumns' | 'productCode' | 'priceCheck'>;
+  try {
+    layout = JSON.parse(form.layout);
+  } catch {
+    throw new Error(`${form.name || form.id || '新しい取引先'}の項目・カラムの設定がJSONとして正しくありません`);
+  }
+
+  const detection = {
+    keywords: fromLines(form.keywords),
+    patterns: fromLines(form.patterns),
+    senders: fromLines(form.senders),
+  };
+  return {
+    id: form.id.trim(),
+    name: form.name.trim(),
+    ...(form.processorId.trim() ? { processorId: form.processorId.trim() } : {}),
+    ...(form.processorIdEnv.trim() ? { processorIdEnv: form.processorIdEnv.trim() } : {}),
+    ...(form.processorVersionId.trim() ? { processorVersionId: form.processorVersionId.trim() } : {}),
+    ...(form.pageLimit.trim() ? { pageLimit: Number(form.pageLimit) } : {}),
+    headerFields: layout.headerFields,
+    itemColumns: layout.itemColumns,
+    productCode: layout.productCode,
+    ...(layout.priceCheck ? { priceCheck: layout.priceCheck } : {}),
+    ...(Object.values(detection).some(values => values.length > 0)
+      ? { detection: Object.fromEntries(Object.entries(detection).filter(([, values]) => values.length > 0)) }
+      : {}),
+  };
+}
+
+export default function ProcessorsPage() {
+  const [forms, setForms] = useState<ProcessorForm[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+  const [dirty, setDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadProcessors = useCallback(async () => {
+    try {
+      const response = await fetch('/api/processors/registry');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '取引先設定の読み込みに失敗しました');
+      }
+      setForms((data.processors as ProcessorConfig[]).map(toForm));
+      setDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProcessors();
+  }, [loadProcessors]);
+
+  const updateForms = (update: (prev: ProcessorForm[]) => ProcessorForm[]) => {
+    setForms(prev => (prev ? update(prev) : prev));
+    setDirty(true);
+    setMessage('');
+  };
+
+  const updateField = (key: keyof ProcessorForm, value: string) => {
+    updateForms(prev => prev.map((form, index) => (index === selected ? { ...form, [key]: value } : form)));
+  };
+
+  // 新しい取引先は、先頭の取引先の項目・カラムの設定を元に作る
+  const handleAdd = () => {
+    if (!forms) return;
+    const template = forms[0];
+    updateForms(prev => [...prev, {
+      ...(template || toForm({ id: '', name: '', headerFields: [], itemColumns: [], productCode: { length: 4 } })),
+      id: '',
+      name: '',
+      processorId: '',
+      processorIdEnv: '',
+      processorVersionId: '',
+      keywords: '',
+      patterns: '',
+      senders: '',
+    }]);
+    setSelected(forms.length);
+  };
+
+  const handleDelete = () => {
+    if (!forms || forms.length <= 1) return;
+    const form = forms[selected];
+    if (!confirm(`${form.name || form.id || '新しい取引先'} を削除しますか？（保存するまで反映されません）`)) return;
+    updateForms(prev => prev.filter((_, index) => index !== selected));
+    setSelected(Math.max(0, selected - 1));
+  };
+
+  // 先頭の取引先は、自動判定できなかった場合の読み取りに使う
+  const handleMoveUp = () => {
+    if (!forms || selected === 0) return;
+    updateForms(prev => {
+      const next = [...prev];
+      [next[selected - 1], next[selected]] = [next[selected], next[selected - 1]];
+      return next;
+    });
+    setSelected(selected - 1);
+  };
+
+  const handleSave = async () => {
+    if (!forms) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/processors/registry', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ processors: forms.map(fromForm) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '取引先設定の保存に失敗しました');
+      }
+      setForms((data.processors as ProcessorConfig[]).map(toForm));
+      setDirty(false);
+      setError('');
+      setMessage('保存しました');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const form = forms?.[selected];
+
+  return (
+    <div className="min-h-screen p-2 sm:p-2" style={{ backgroundColor: '#F5F2F2' }}>
+      <main className="max-w-6xl mx-auto relative">
+        {/* Header */}
+        <div className="mb-8 pt-4 flex items-end justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-16 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+            <div>
+              <h1 className="text-4xl font-bold" style={{ color: '#2B2A2A' }}>
+                取引先設定
+              </h1>
+              <p className="mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{forms ? `${forms.length}件` : '読み込み中...'}</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm font-semibold" style={{ color: '#5A7ACD' }}>
+            ← 注文書読み取りへ
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#2B2A2A' }}>
+            {error}
+          </div>
+        )}
+
+        {forms && (
+          <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+            <div className="flex flex-col md:flex-row gap-6">
+              {/* 取引先の一覧 */}
+              <div className="md:w-56 shrink-0">
+                <ul className="space-y-1 mb-4">
+                  {forms.map((item, index) => (
+                    <li key={index}>
+                      <button
+                        onClick={() => setSelected(index)}
+                        className="w-full text-left px-4 py-2 rounded-xl text-sm cursor-pointer"
+                        style={index === selected
+                          ? { backgroundColor: '#5A7ACD', color: 'white', fontWeight: 700 }
+                          : { color: '#2B2A2A' }}
+                      >
+                        {item.name || item.id || '（新しい取引先）'}
+                        {index === 0 && <span className="ml-2 text-xs opacity-70">既定</span>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={handleAdd}
+                  className="w-full px-4 py-2 rounded-xl text-sm font-bold border-2 cursor-pointer"
+                  style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                >
+                  ＋ 取引先を追加
+                </button>
+                <p className="text-xs mt-4" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                  先頭の取引先は、自動判定できなかった場合の読み取りに使います。
+                </p>
+              </div>
+
+              {/* 選択した取引先の設定 */}
+              {form && (
+                <div className="flex-1 min-w-0">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+                    {TEXT_FIELDS.map(field => (
+                      <label key={field.key} className="text-xs font-semibold" style={{ color: '#2B2A2A' }}>
+                        {field.label}
+                        <input
+                          value={form[field.key]}
+                          onChange={(e) => updateField(field.key, e.target.value)}
+                          placeholder={field.placeholder}
+                          inputMode={field.key === 'pageLimit' ? 'numeric' : undefined}
+                          className="mt-1 w-full rounded-xl border-2 px-3 py-2 text-sm font-normal"
+                          style={{ borderColor: '#F5F2F2' }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+                    {DETECTION_FIELDS.map(field => (
+                      <label key={field.key} className="text-xs font-semibold" style={{ color: '#2B2A2A' }}>
+                        {field.label}（1行に1つ）
+                        <textarea
+                          value={form[field.key]}
+                          onChange={(e) => updateField(field.key, e.target.value)}
+                          rows={4}
+                          className="mt-1 w-full rounded-xl border-2 px-3 py-2 text-sm font-normal"
+                          style={{ borderColor: '#F5F2F2' }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+
+                  <label className="block text-xs font-semibold mb-4" style={{ color: '#2B2A2A' }}>
+                    項目・カラム・商品コード・価格チェックの設定（JSON）
+                    <textarea
+                      value={form.layout}
+                      onChange={(e) => updateField('layout', e.target.value)}
+                      rows={16}
+                      spellCheck={false}
+                      className="mt-1 w-full rounded-xl border-2 px-3 py-2 text-xs font-mono font-normal"
+                      style={{ borderColor: '#F5F2F2' }}
+                    />
+                  </label>
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={handleSave}
+                      disabled={!dirty || isSaving}
+                      className="px-6 py-2 rounded-xl text-sm font-bold text-white cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+                      style={{ backgroundColor: '#5A7ACD' }}
+                    >
+                      {isSaving ? '保存中...' : 'すべての変更を保存'}
+                    </button>
+                    <button
+                      onClick={handleMoveUp}
+                      disabled={selected === 0}
+                      className="px-4 py-2 text-sm cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                      style={{ color: '#2B2A2A' }}
+                    >
+                      ↑ 上へ
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      disabled={forms.length <= 1}
+                      className="px-4 py-2 text-sm cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                      style={{ color: '#C0392B' }}
+                    >
+                      削除
+                    </button>
+                    {dirty && (
+                      <button onClick={loadProcessors} className="px-4 py-2 text-sm cursor-pointer" style={{ color: '#2B2A2A' }}>
+                        変更を取り消す
+                      </button>
+                    )}
+                    {message && <span className="text-sm font-semibold" style={{ color: '#2E8B57' }}>{message}</span>}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSessionUser } from '@/components/SessionProvider';
+import { hasPermission } from '@/lib/auth/types';
+import type { Product, ProductImportResult, ProductSearchResult } from '@/lib/products/types';
+
+const PAGE_SIZE = 50;
+
+// 編集フォームの値（入力中は文字列で保持する）
+type ProductForm = Record<'product_code' | 'product_name' | 'purchase_price' | 'sales_price' | 'jan_code', string>;
+
+const EMPTY_FORM: ProductForm = {
+  product_code: '',
+  product_name: '',
+  purchase_price: '',
+  sales_price: '',
+  jan_code: '',
+};
+
+const FORM_COLUMNS: { key: keyof ProductForm; label: string; align: 'left' | 'right' }[] = [
+  { key: 'product_code', label: 'コード', align: 'left' },
+  { key: 'product_name', label: '商品名', align: 'left' },
+  { key: 'jan_code', label: 'JANコード', align: 'left' },
+  { key: 'purchase_price', label: '仕入価格', align: 'right' },
+  { key: 'sales_price', label: '販売価格', align: 'right' },
+];
+
+const toForm = (product: Product): ProductForm => ({
+  product_code: product.product_code,
+  product_name: product.product_name,
+  purchase_price: String(product.purchase_price ?? ''),
+  sales_price: String(product.sales_price),
+  jan_code: product.jan_code || '',
+});
+
+export default function ProductsPage() {
+  const user = useSessionUser();
+  // 登録・編集・取り込みは管理者のみ。仕入価格は閲覧権限のないユーザーには表示しない（APIも返さない）
+  const canEdit = hasPermission(user, 'products:write');
+  const columns = hasPermission(user, 'prices:read') ? FORM_COLUMNS : FORM_COLUMNS.filter(col => col.key !== 'purchase_price');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<ProductSearchResult | null>(null);
+  const [error, setError] = useState<string>('');
+  // 編集中の商品（'new' は新規登録）
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<ProductForm>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // CSV取り込み
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<ProductImportResult | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ q: query, page: String(page), pageSize: String(PAGE_SIZE) });
+      const response = await fetch(`/api/products?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '商品マスターデータの読み込みに失敗しました');
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  }, [query, page]);
+
+  // 検索語の入力が落ち着いてから検索する
+  useEffect(() => {
+    const timer = setTimeout(loadProducts, 300);
+    return () => clearTimeout(timer);
+  }, [loadProducts]);
+
+  const startEdit = (product: Product | null) => {
+    setEditingId(product ? product.id : 'new');
+    setForm(product ? toForm(product) : EMPTY_FORM);
+    setFieldErrors({});
+    setError('');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setFieldErrors({});
+  };
+
+  const handleSave = async () => {
+    if (editingId === null) return;
+
+    try {
+      const response = await fetch(editingId === 'new' ? '/api/products' : `/api/products/${editingId}`, {
+        method: editingId === 'new' ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFieldErrors(data.fieldErrors || {});
+        throw new Error(data.error || '商品の保存に失敗しました');
+      }
+
+      setEditingId(null);
+      setFieldErrors({});
+      setError('');
+      await loadProducts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  };
+
+  const handleDelete = async (product: Product) => {
+    if (!confirm(`${product.product_code} ${product.product_name} を削除しますか？`)) return;
+
+    try {
+      const response = await fetch(`/api/products/${product.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '商品の削除に失敗しました');
+      }
+      await loadProducts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  };
+
+  // CSVを取り込む（dryRunでは差分の確認のみ）
+  const handleImport = async (dryRun: boolean) => {
+    if (!importFile) return;
+
+    try {
+      const formData = new FormData();
+      formData.append('file', importFile);
+      formData.append('dryRun', String(dryRun));
+
+      const response = await fetch('/api/products/import', { method: 'POST', body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || '商品マスターの取り込みに失敗しました');
+      }
+
+      setImportResult(data);
+      setError('');
+      if (data.applied) {
+        await loadProducts();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+    }
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  const renderFormRow = (key: string | number) => (
+    <tr key={key} style={{ backgroundColor: '#FFF4D6', borderBottom: '1px solid #F5F2F2' }}>
+      {columns.map(col => (
+        <td key={col.key} className="py-2 px-2 align-top">
+          <input
+            value={form[col.key]}
+            onChange={(e) => setForm(prev => ({ ...prev, [col.key]: e.target.value }))}
+            placeholder={col.label}
+            className={`w-full bg-white rounded-lg border px-2 py-1 ${col.align === 'right' ? 'text-right tabular-nums' : ''}`}
+            style={{ borderColor: fieldErrors[col.key] ? '#C0392B' : '#F5F2F2' }}
+          />
+          {fieldErrors[col.key] && (
+            <p className="text-xs mt-1" style={{ color: '#C0392B' }}>{fieldErrors[col.key]}</p>
+          )}
+        </td>
+      ))}
+      <td className="py-2 px-2 whitespace-nowrap text-center align-top">
+        <button onClick={handleSave} className="px-3 py-1 rounded-lg text-white text-xs font-bold cursor-pointer" style={{ backgroundColor: '#5A7ACD' }}>
+          保存
+        </button>
+        <button onClick={cancelEdit} className="px-3 py-1 text-xs cursor-pointer" style={{ color: '#2B2A2A' }}>
+          キャンセル
+        </button>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="min-h-screen p-2 sm:p-2" style={{ backgroundColor: '#F5F2F2' }}>
+      <main className="max-w-6xl mx-auto relative">
+        {/* Header */}
+        <div className="mb-8 pt-4 flex items-end justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-16 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+            <div>
+              <h1 className="text-4xl font-bold" style={{ color: '#2B2A2A' }}>
+                商品マスター管理
+              </h1>
+              <p className="mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>{result ? `${result.total}件` : '読み込み中...'}</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm font-semibold" style={{ color: '#5A7ACD' }}>
+            ← 注文書読み取りへ
+          </Link>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl px-6 py-4 mb-6 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#2B2A2A' }}>
+            {error}
+          </div>
+        )}
+
+        {/* CSV取り込み */}
+        {canEdit && (
+          <div className="bg-white rounded-3xl shadow-lg p-8 mb-6" style={{ border: '1px solid #F5F2F2' }}>
+            <h2 className="text-lg font-bold mb-4" style={{ color: '#2B2A2A' }}>📥 CSV一括取り込み</h2>
+            <p className="text-xs mb-4" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+              見出し行に「商品コード」「商品名」（任意で「仕入単価」「販売単価」「JANコード」）を含むCSVを、商品コードで突き合わせて追加・更新します。Excelで保存したShift_JISのCSVにも対応しています。
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  setImportFile(e.target.files?.[0] || null);
+                  setImportResult(null);
+                }}
+                className="text-sm"
+              />
+              <button
+                onClick={() => handleImport(true)}
+                disabled={!importFile}
+                className="px-4 py-2 rounded-xl text-sm font-bold border-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+                style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+              >
+                差分を確認
+              </button>
+              {importResult && !importResult.applied && importResult.errors.length === 0 && (importResult.added.length > 0 || importResult.updated.length > 0) && (
+                <button
+                  onClick={() => handleImport(false)}
+                  className="px-4 py-2 rounded-xl text-sm font-bold text-white cursor-pointer"
+                  style={{ backgroundColor: '#5A7ACD' }}
+                >
+                  反映する
+                </button>
+              )}
+            </div>
+
+            {importResult && (
+              <div className="mt-4 text-sm space-y-3" style={{ color: '#2B2A2A' }}>
+                <p className="font-bold">
+                  {importResult.applied ? '反映しました：' : '差分：'}
+                  追加 {importResult.added.length}件 / 更新 {importResult.updated.length}件 / 変更なし {importResult.unchanged}件
+                  {importResult.errors.length > 0 && ` / エラー ${importResult.errors.length}件`}
+                </p>
+                {importResult.errors.length > 0 && (
+                  <ul className="text-xs space-y-1" style={{ color: '#C0392B' }}>
+                    {importResult.errors.map((e, i) => (
+                      <li key={i}>{e.line}行目: {e.message}</li>
+                    ))}
+                  </ul>
+                )}
+                {(importResult.added.length > 0 || importResult.updated.length > 0) && (
+                  <div className="max-h-64 overflow-y-auto rounded-xl border" style={{ borderColor: '#F5F2F2' }}>
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {importResult.added.map(product => (
+                          <tr key={`add-${product.product_code}`} style={{ borderBottom: '1px solid #F5F2F2' }}>
+                            <td className="py-1 px-2 font-bold" style={{ color: '#2E8B57' }}>追加</td>
+                            <td className="py-1 px-2">{product.product_code}</td>
+                            <td className="py-1 px-2">{product.product_name}</td>
+                            <td className="py-1 px-2 text-right tabular-nums">{product.purchase_price} / {product.sales_price}</td>
+                          </tr>
+                        ))}
+                        {importResult.updated.map(({ before, after }) => (
+                          <tr key={`update-${after.id}`} style={{ borderBottom: '1px solid #F5F2F2' }}>
+                            <td className="py-1 px-2 font-bold" style={{ color: '#5A7ACD' }}>更新</td>
+                            <td className="py-1 px-2">{after.product_code}</td>
+                            <td className="py-1 px-2">
+                              {before.product_name !== after.product_name ? `${before.product_name} → ${after.product_name}` : after.product_name}
+                            </td>
+                            <td className="py-1 px-2 text-right tabular-nums">
+                              {before.purchase_price} / {before.sales_price} → {after.purchase_price} / {after.sales_price}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 商品一覧 */}
+        <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+          <div className="flex flex-col sm:flex-row gap-3 mb-6">
+            <input
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setPage(1);
+              }}
+              placeholder="商品コード・商品名・JANコードで検索"
+              className="flex-1 rounded-2xl border-2 px-4 py-3 text-sm"
+              style={{ borderColor: '#F5F2F2', color: '#2B2A2A' }}
+            />
+            {canEdit && (
+              <button
+                onClick={() => startEdit(null)}
+                disabled={editingId !== null}
+                className="text-white font-bold py-3 px-6 rounded-2xl text-sm cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                style={{ backgroundColor: '#5A7ACD' }}
+              >
+                ＋ 新規登録
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border-2" style={{ borderColor: '#F5F2F2' }}>
+            <table className="w-full text-sm border-collapse">
+              <thead style={{ backgroundColor: '#5A7ACD' }}>
+                <tr>
+                  {columns.map(col => (
+                    <th key={col.key} className={`py-3 px-4 font-bold text-white text-xs ${col.align === 'right' ? 'text-right' : 'text-left'}`}>
+                      {col.label}
+                    </th>
+                  ))}
+                  {canEdit && <th className="py-3 px-4 font-bold text-white text-xs text-center">操作</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {editingId === 'new' && renderFormRow('new')}
+                {result?.products.map((product, rowIndex) => editingId === product.id ? renderFormRow(product.id) : (
+                  <tr
+                    key={product.id}
+                    style={{ borderBottom: '1px solid #F5F2F2', backgroundColor: rowIndex % 2 === 0 ? 'white' : '#F5F2F2' }}
+                  >
+                    {columns.map(col => (
+                      <td
+                        key={col.key}
+                        className={`py-3 px-4 ${col.align === 'right' ? 'text-right tabular-nums' : 'text-left'}`}
+                        style={{ color: '#2B2A2A' }}
+                      >
+                        {toForm(product)[col.key] || '-'}
+                      </td>
+                    ))}
+                    {canEdit && (
+                      <td className="py-3 px-4 whitespace-nowrap text-center">
+                        <button
+                          onClick={() => startEdit(product)}
+                          disabled={editingId !== null}
+                          className="px-2 text-xs font-bold cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                          style={{ color: '#5A7ACD' }}
+                        >
+                          編集
+                        </button>
+                        <button
+                          onClick={() => handleDelete(product)}
+                          disabled={editingId !== null}
+                          className="px-2 text-xs cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                          style={{ color: '#C0392B' }}
+                        >
+                          削除
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* ページング */}
+          <div className="flex justify-center items-center gap-4 mt-6 text-sm" style={{ color: '#2B2A2A' }}>
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              ← 前へ
+            </button>
+            <span className="tabular-nums">{page} / {totalPages}</span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              次へ →
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { BatchJob, BatchSummary, JobStatus } from '@/lib/batch/types';
+import { AUTO_PROCESSOR_TYPE } from '@/lib/processors/detection';
+import type { PublicProcessorConfig } from '@/lib/processors/types';
+
+// ジョブ状態ごとの表示
+const STATUS_LABELS: Record<JobStatus, { label: string; color: string }> = {
+  queued: { label: '待機中', color: '#2B2A2A' },
+  processing: { label: '解析中', color: '#5A7ACD' },
+  done: { label: '完了', color: '#2E8B57' },
+  failed: { label: '失敗', color: '#C0392B' },
+};
+
+interface BatchJobListProps {
+  batch: BatchSummary;
+  // 自動判定した取引先の表示名
+  processors: PublicProcessorConfig[];
+  openedJobId: string;
+  onOpen: (job: BatchJob) => void;
+}
+
+// 一括処理したファイルの状態一覧
+export default function BatchJobList({ batch, processors, openedJobId, onOpen }: BatchJobListProps) {
+  const finishedCount = batch.jobs.filter(job => job.status === 'done' || job.status === 'failed').length;
+  const progress = batch.jobs.length > 0 ? (finishedCount / batch.jobs.length) * 100 : 0;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-lg p-8 mb-6 animate-slideIn" style={{ border: '1px solid #F5F2F2' }}>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+        <div>
+          <h2 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>🗂️ 一括処理</h2>
+          <p className="text-sm mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+            {finishedCount} / {batch.jobs.length}件 処理済み
+          </p>
+        </div>
+      </div>
+
+      {/* 実際の処理済み件数に基づく進捗 */}
+      <div className="w-full rounded-full h-3 overflow-hidden mb-6" style={{ backgroundColor: '#F5F2F2' }}>
+        <div
+          className="h-full rounded-full transition-all duration-500"
+          style={{ backgroundColor: '#5A7ACD', width: `${progress}%` }}
+        />
+      </div>
+
+      <ul className="space-y-2">
+        {batch.jobs.map(job => {
+          const status = STATUS_LABELS[job.status];
+          const isOpened = job.id === openedJobId;
+
+          return (
+            <li
+              key={job.id}
+              className="flex items-center gap-4 p-3 rounded-2xl border-2"
+              style={{ borderColor: isOpened ? '#5A7ACD' : '#F5F2F2', backgroundColor: '#F5F2F2' }}
+            >
+              <span
+                className="text-xs font-bold px-3 py-1 rounded-full text-white flex-shrink-0"
+                style={{ backgroundColor: status.color }}
+              >
+                {status.label}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate" style={{ color: '#2B2A2A' }}>
+                  {job.fileName}
+                  {batch.processorType === AUTO_PROCESSOR_TYPE && job.processorType && (
+                    <span className="ml-2 text-xs font-normal" style={{ opacity: 0.6 }}>
+                      → {processors.find(p => p.id === job.processorType)?.name || job.processorType}
+                    </span>
+                  )}
+                  {job.cache === 'hit' && (
+                    <span className="ml-2 text-xs font-normal" style={{ opacity: 0.6 }}>（キャッシュ済みの結果）</span>
+                  )}
+                </p>
+                {job.error && (
+                  <p className="text-xs mt-1 truncate" style={{ color: '#C0392B' }}>{job.error}</p>
+                )}
+              </div>
+              <span className="text-xs flex-shrink-0" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                {(job.size / 1024).toFixed(2)} KB
+              </span>
+              <button
+                onClick={() => onOpen(job)}
+                disabled={job.status !== 'done'}
+                className="text-white font-bold py-2 px-4 rounded-xl text-xs transition-all duration-200 cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+                style={{ backgroundColor: '#5A7ACD' }}
+              >
+                {isOpened ? '表示中' : '開く'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
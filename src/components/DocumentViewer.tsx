@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { BoundingBox } from '@/lib/ocr/entities';
+
+// ビューアに重ねて表示する読み取り位置
+export interface ViewerHighlight {
+  id: string;
+  label: string;
+  box: BoundingBox;
+}
+
+interface DocumentViewerProps {
+  file: File;
+  highlights: ViewerHighlight[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+// PDFをページごとに描画する幅（px）
+const PDF_RENDER_WIDTH = 1200;
+
+// PDFの各ページを画像（data URL）に変換する
+async function renderPdfPages(file: File): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const images: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / page.getViewport({ scale: 1 }).width });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+
+      await page.render({ canvas, viewport }).promise;
+      images.push(canvas.toDataURL('image/png'));
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return images;
+}
+
+// アップロードした注文書の原本を表示し、抽出項目の位置を重ねて表示する
+export default function DocumentViewer({ file, highlights, selectedId, onSelect }: DocumentViewerProps) {
+  const [pageImages, setPageImages] = useState<string[]>([]);
+  const [error, setError] = useState<string>('');
+  const selectedRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl = '';
+
+    setPageImages([]);
+    setError('');
+
+    if (file.type === 'application/pdf') {
+      renderPdfPages(file)
+        .then(images => {
+          if (!cancelled) setPageImages(images);
+        })
+        .catch(err => {
+          console.error('PDFの描画に失敗しました:', err);
+          if (!cancelled) setError('PDFを表示できませんでした');
+        });
+    } else {
+      objectUrl = URL.createObjectURL(file);
+      setPageImages([objectUrl]);
+    }
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file]);
+
+  // 表で選択した項目の位置までスクロールする
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [selectedId]);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-lg p-4" style={{ border: '1px solid #F5F2F2' }}>
+      <div className="flex items-center gap-3 mb-4 px-2">
+        <div className="w-2 h-8 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+        <div className="min-w-0">
+          <h2 className="text-lg font-bold" style={{ color: '#2B2A2A' }}>🖼️ 原本</h2>
+          <p className="text-xs truncate" style={{ color: '#2B2A2A', opacity: 0.6 }}>{file.name}</p>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm px-2" style={{ color: '#C0392B' }}>{error}</p>
+      )}
+      {!error && pageImages.length === 0 && (
+        <div className="flex justify-center py-12">
+          <div className="w-6 h-6 border-2 rounded-full animate-spin" style={{ borderColor: '#F5F2F2', borderTopColor: '#5A7ACD' }} />
+        </div>
+      )}
+
+      <div className="space-y-4 max-h-[80vh] overflow-y-auto">
+        {pageImages.map((src, index) => {
+          const pageNumber = index + 1;
+
+          return (
+            <div key={pageNumber} className="relative rounded-xl overflow-hidden" style={{ border: '1px solid #F5F2F2' }}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={src} alt={`${file.name} ${pageNumber}ページ`} className="w-full h-auto block" />
+              {highlights
+                .filter(highlight => highlight.box.page === pageNumber)
+                .map(highlight => {
+                  const isSelected = highlight.id === selectedId;
+
+                  return (
+                    <button
+                      key={highlight.id}
+                      ref={isSelected ? selectedRef : undefined}
+                      onClick={() => onSelect(highlight.id)}
+                      title={highlight.label}
+                      className="absolute cursor-pointer transition-all duration-150"
+                      style={{
+                        left: `${highlight.box.x * 100}%`,
+                        top: `${highlight.box.y * 100}%`,
+                        width: `${highlight.box.width * 100}%`,
+                        height: `${highlight.box.height * 100}%`,
+                        border: `2px solid ${isSelected ? '#E67E22' : 'rgba(90, 122, 205, 0.5)'}`,
+                        backgroundColor: isSelected ? 'rgba(230, 126, 34, 0.25)' : 'rgba(90, 122, 205, 0.08)',
+                      }}
+                    />
+                  );
+                })}
+              {pageImages.length > 1 && (
+                <span className="absolute bottom-2 right-2 text-xs px-2 py-1 rounded-lg text-white" style={{ backgroundColor: 'rgba(43, 42, 42, 0.6)' }}>
+                  {pageNumber} / {pageImages.length}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
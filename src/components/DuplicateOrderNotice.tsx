@@ -0,0 +1,92 @@
+'use client';
+
+import { DUPLICATE_REASON_LABELS, DuplicateOrder, ORDER_STATUS_LABELS } from '@/lib/orders/types';
+
+// 比較表に表示する現在の注文の値
+export interface DuplicateComparisonValues {
+  orderNumber: string;
+  orderDate: string;
+  recipientName: string;
+  fileName: string;
+}
+
+interface DuplicateOrderNoticeProps {
+  duplicates: DuplicateOrder[];
+  current: DuplicateComparisonValues;
+  confirmedAt: string | null;
+  onConfirm: () => void;
+}
+
+// 過去に処理した注文と重複している可能性がある場合の警告と比較表
+export default function DuplicateOrderNotice({ duplicates, current, confirmedAt, onConfirm }: DuplicateOrderNoticeProps) {
+  return (
+    <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: `2px solid ${confirmedAt ? '#F5F2F2' : '#E67E22'}` }}>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#E67E22' }} />
+          <div>
+            <h2 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>⚠ 重複の可能性</h2>
+            <p className="text-sm mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+              過去に処理した注文と{duplicates.length}件一致しました。
+              {confirmedAt ? `${new Date(confirmedAt).toLocaleString('ja-JP')}に確認済みです。` : '確認するまでCSVを出力できません。'}
+            </p>
+          </div>
+        </div>
+        {!confirmedAt && (
+          <button
+            onClick={onConfirm}
+            className="font-bold py-3 px-6 rounded-2xl text-sm text-white cursor-pointer"
+            style={{ backgroundColor: '#E67E22' }}
+          >
+            重複ではないことを確認
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {duplicates.map(({ order, reasons }) => {
+          const rows = [
+            { label: '注文番号', current: current.orderNumber, prior: order.orderNumber },
+            { label: '注文日', current: current.orderDate, prior: order.orderDate },
+            { label: '納入先', current: current.recipientName, prior: order.recipientName || '' },
+            { label: 'ファイル', current: current.fileName, prior: order.fileName },
+          ];
+
+          return (
+            <div key={order.id} className="rounded-2xl border-2 overflow-hidden" style={{ borderColor: '#F5F2F2' }}>
+              <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 text-xs" style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+                <span>
+                  一致：<span className="font-bold">{reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join('・')}</span>
+                  <span className="ml-3" style={{ opacity: 0.6 }}>
+                    {new Date(order.createdAt).toLocaleString('ja-JP')} 処理・{ORDER_STATUS_LABELS[order.status]}
+                  </span>
+                </span>
+                <a href={`/?order=${order.id}`} target="_blank" rel="noreferrer" className="font-bold" style={{ color: '#5A7ACD' }}>
+                  過去の注文を開く ↗
+                </a>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+                    <th className="py-2 px-4 text-left font-semibold w-24">項目</th>
+                    <th className="py-2 px-4 text-left font-semibold">この注文</th>
+                    <th className="py-2 px-4 text-left font-semibold">過去の注文</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.label} style={{ borderTop: '1px solid #F5F2F2', color: '#2B2A2A' }}>
+                      <td className="py-2 px-4 text-xs">{row.label}</td>
+                      <td className="py-2 px-4">{row.current || '-'}</td>
+                      <td className="py-2 px-4" style={{ fontWeight: row.current === row.prior ? 700 : undefined }}>{row.prior || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+
+interface LoginFormProps {
+  // ログイン後の遷移先
+  next: string;
+  initialError: string;
+  // シングルサインオンが使えるかどうか
+  oidc: boolean;
+}
+
+export default function LoginForm({ next, initialError, oidc }: LoginFormProps) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState(initialError);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'ログインに失敗しました');
+      }
+      // レイアウトのユーザー表示も更新するため、画面全体を読み込み直す
+      window.location.href = next;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-2" style={{ backgroundColor: '#F5F2F2' }}>
+      <main className="w-full max-w-sm bg-white rounded-3xl shadow-lg p-8" style={{ border: '1px solid #F5F2F2' }}>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#5A7ACD' }} />
+          <h1 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>ログイン</h1>
+        </div>
+
+        {error && (
+          <div className="rounded-2xl px-4 py-3 mb-4 text-sm font-medium" style={{ backgroundColor: '#FDE2E1', color: '#2B2A2A' }}>
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block text-sm font-semibold" style={{ color: '#2B2A2A' }}>
+            ユーザー名
+            <input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              className="mt-1 w-full rounded-2xl border-2 px-4 py-3 text-sm font-normal"
+              style={{ borderColor: '#F5F2F2' }}
+            />
+          </label>
+          <label className="block text-sm font-semibold" style={{ color: '#2B2A2A' }}>
+            パスワード
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              className="mt-1 w-full rounded-2xl border-2 px-4 py-3 text-sm font-normal"
+              style={{ borderColor: '#F5F2F2' }}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isLoading || !username || !password}
+            className="w-full text-white font-bold py-3 rounded-2xl text-sm cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            style={{ backgroundColor: '#5A7ACD' }}
+          >
+            {isLoading ? 'ログイン中...' : 'ログイン'}
+          </button>
+        </form>
+
+        {oidc && (
+          <a
+            href={`/api/auth/oidc/login?${new URLSearchParams({ next })}`}
+            className="block w-full text-center mt-4 py-3 rounded-2xl text-sm font-bold border-2"
+            style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+          >
+            シングルサインオンでログイン
+          </a>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { DELIVERY_STATUS_LABELS, DeliveryStatus, OrderDeliveries } from '@/lib/outbound/types';
+
+interface OrderDeliveryPanelProps {
+  deliveries: OrderDeliveries;
+  resendingId: string;
+  onResend: (deliveryId: string) => void;
+}
+
+// 送信状況の表示色
+const STATUS_COLORS: Record<DeliveryStatus, string> = {
+  pending: '#E67E22',
+  delivered: '#2E8B57',
+  failed: '#C0392B',
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('ja-JP');
+
+// 承認した注文の送信先ごとの送信状況と再送ボタン
+export default function OrderDeliveryPanel({ deliveries, resendingId, onResend }: OrderDeliveryPanelProps) {
+  const hasFailure = deliveries.deliveries.some(delivery => delivery.status === 'failed');
+
+  return (
+    <div className="bg-white rounded-3xl shadow-lg p-8" style={{ border: `2px solid ${hasFailure ? '#C0392B' : '#F5F2F2'}` }}>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-2 h-10 rounded-full" style={{ backgroundColor: '#2E8B57' }} />
+        <div>
+          <h2 className="text-2xl font-bold" style={{ color: '#2B2A2A' }}>📤 送信状況</h2>
+          {deliveries.approvedAt && (
+            <p className="text-sm mt-1" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+              {formatDateTime(deliveries.approvedAt)}に{deliveries.approvedBy}が承認しました。承認時の内容を送信します。
+            </p>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs" style={{ color: '#2B2A2A', opacity: 0.6 }}>
+            <th className="py-2 px-4 text-left font-semibold">送信先</th>
+            <th className="py-2 px-4 text-left font-semibold">状況</th>
+            <th className="py-2 px-4 text-left font-semibold">詳細</th>
+            <th className="py-2 px-4" />
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.deliveries.map(delivery => (
+            <tr key={delivery.id} style={{ borderTop: '1px solid #F5F2F2', color: '#2B2A2A' }}>
+              <td className="py-2 px-4">
+                {delivery.targetName}
+                <span className="text-xs ml-2" style={{ opacity: 0.6 }}>{delivery.targetType === 'webhook' ? 'Webhook' : 'フォルダ'}</span>
+              </td>
+              <td className="py-2 px-4 font-bold whitespace-nowrap" style={{ color: STATUS_COLORS[delivery.status] }}>
+                {DELIVERY_STATUS_LABELS[delivery.status]}
+              </td>
+              <td className="py-2 px-4 text-xs">
+                {delivery.status === 'delivered' && delivery.deliveredAt && `${formatDateTime(delivery.deliveredAt)}（${delivery.attempts}回目）`}
+                {delivery.status !== 'delivered' && delivery.error && (
+                  <span style={{ color: '#C0392B' }}>{delivery.error}（{delivery.attempts}回目）</span>
+                )}
+                {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                  <span className="block" style={{ opacity: 0.6 }}>{formatDateTime(delivery.nextAttemptAt)}に再試行します</span>
+                )}
+              </td>
+              <td className="py-2 px-4 text-right">
+                <button
+                  onClick={() => onResend(delivery.id)}
+                  disabled={resendingId === delivery.id}
+                  className="font-bold py-1 px-4 rounded-xl text-xs border-2 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                  style={{ borderColor: '#5A7ACD', color: '#5A7ACD' }}
+                >
+                  {resendingId === delivery.id ? '送信中...' : '再送'}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { createContext, ReactNode, useContext } from 'react';
+import { ROLE_LABELS, SessionUser } from '@/lib/auth/types';
+
+const SessionContext = createContext<SessionUser | null>(null);
+
+// ログイン中のユーザー（権限に応じた表示の切り替えに使う）
+export function useSessionUser(): SessionUser | null {
+  return useContext(SessionContext);
+}
+
+const handleLogout = async () => {
+  await fetch('/api/auth/logout', { method: 'POST' });
+  window.location.href = '/login';
+};
+
+// レイアウトでログイン中のユーザーを受け取り、各画面に渡す
+export default function SessionProvider({ user, children }: { user: SessionUser | null; children: ReactNode }) {
+  return (
+    <SessionContext.Provider value={user}>
+      {user && (
+        <div className="flex justify-end items-center gap-3 px-4 pt-2 text-xs" style={{ backgroundColor: '#F5F2F2', color: '#2B2A2A' }}>
+          <span>
+            {user.name}
+            <span className="ml-1" style={{ opacity: 0.6 }}>（{ROLE_LABELS[user.role]}）</span>
+          </span>
+          <button onClick={handleLogout} className="font-semibold cursor-pointer" style={{ color: '#5A7ACD' }}>
+            ログアウト
+          </button>
+        </div>
+      )}
+      {children}
+    </SessionContext.Provider>
+  );
+}
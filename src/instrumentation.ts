@@ -0,0 +1,16 @@
+// サーバーの起動時に一度だけ呼ばれる
+export async function register() {
+  // メールの受信はNode.jsのランタイムでのみ行う（MAIL_INGEST_SOURCE が未設定の場合は何もしない）
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startInboxWatcher } = await import('@/lib/inbox');
+    startInboxWatcher();
+
+    // 再起動前に送信した長いPDFの非同期処理の完了を確認する
+    const { startAsyncOcrPoller } = await import('@/lib/async-ocr');
+    startAsyncOcrPoller();
+
+    // 再起動前に失敗した承認済みの注文の送信を再試行する
+    const { startOutboundRetryPoller } = await import('@/lib/outbound');
+    startOutboundRetryPoller();
+  }
+}
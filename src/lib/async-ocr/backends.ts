@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { protos } from '@google-cloud/documentai';
+import { EmptyDocumentError } from '@/lib/ocr/extract';
+import { getClient, getProcessorName } from '@/lib/ocr/document-ai';
+import { getExtractionProvider } from '@/lib/ocr/providers';
+import { callWithRetry } from '@/lib/ocr/retry';
+import { ProviderConfigurationError } from '@/lib/ocr/types';
+import { preprocessDocument } from '@/lib/preprocess';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { getDataPath, readJsonFile, withFileLock, writeJsonFile } from '@/lib/storage';
+import { createGcsStorage, createLocalStorage, OperationStorage } from './storage';
+
+// 長時間実行オペレーション（バッチ処理）のバックエンド
+// document-ai: Document AIのbatchProcessDocumentsとCloud Storage
+// local: 開発・テスト用の代替実装（OCRプロバイダーをバックグラウンドで呼び出し、シャードに分けた結果をローカルに出力する）
+
+export interface BatchProcessRequest {
+  processor: ProcessorConfig;
+  inputUri: string;
+  mimeType: string;
+  // 出力先（このURIの下にオペレーションごとのシャードが出力される）
+  outputUri: string;
+}
+
+export interface BatchProcessState {
+  done: boolean;
+  state?: string;
+  error?: string;
+  // シャードが出力された場所
+  outputUris: string[];
+}
+
+export interface BatchProcessBackend {
+  readonly name: string;
+  readonly storage: OperationStorage;
+  // オペレーションを開始し、オペレーション名を返す
+  submit(request: BatchProcessRequest): Promise<string>;
+  check(operationName: string): Promise<BatchProcessState>;
+}
+
+function createDocumentAiBackend(): BatchProcessBackend {
+  const storage = createGcsStorage();
+  const State = protos.google.cloud.documentai.v1.BatchProcessMetadata.State;
+
+  return {
+    name: 'document-ai',
+    storage,
+
+    async submit({ processor, inputUri, mimeType, outputUri }) {
+      const name = getProcessorName(processor);
+      const [operation] = await callWithRetry('バッチ処理の送信', options => getClient().batchProcessDocuments({
+        name,
+        inputDocuments: { gcsDocuments: { documents: [{ gcsUri: inputUri, mimeType }] } },
+        documentOutputConfig: { gcsOutputConfig: { gcsUri: outputUri } },
+      }, options));
+      if (!operation.name) {
+        throw new Error('バッチ処理のオペレーション名を取得できませんでした');
+      }
+      return operation.name;
+    },
+
+    async check(operationName) {
+      const operation = await callWithRetry('バッチ処理の進捗の確認', () => getClient().checkBatchProcessDocumentsProgress(operationName));
+      const metadata = operation.metadata as protos.google.cloud.documentai.v1.IBatchProcessMetadata | null;
+      const statuses = metadata?.individualProcessStatuses || [];
+      // ファイルごとの処理が失敗した場合はそのエラーを返す
+      const failed = statuses.find(status => status.status?.code);
+
+      return {
+        done: Boolean(operation.done),
+        state: typeof metadata?.state === 'number' ? State[metadata.state] : metadata?.state || undefined,
+        error: operation.error?.message || failed?.status?.message || undefined,
+        outputUris: statuses.flatMap(status => (status.outputGcsDestination ? [status.outputGcsDestination] : [])),
+      };
+    },
+  };
+}
+
+interface LocalOperationState {
+  request: BatchProcessRequest;
+  createdAt: string;
+  finishedAt?: string;
+  outputUri?: string;
+  error?: string;
+}
+
+function getLocalSettings() {
+  return {
+    // 完了までの待ち時間（バッチ処理が時間のかかる処理であることを再現する）
+    delayMs: (Number(process.env.ASYNC_OCR_LOCAL_DELAY_SECONDS) || 5) * 1000,
+    // 1シャードのページ数
+    shardPages: Number(process.env.ASYNC_OCR_LOCAL_SHARD_PAGES) || 10,
+  };
+}
+
+// Document AIのバッチ処理と同じく、ページ数で分けたシャードごとのDocument JSONを <出力先>/<オペレーションID>/0/ に出力する
+async function runLocalOperation(storage: OperationStorage, operationId: string, { processor, inputUri, mimeType, outputUri }: BatchProcessRequest): Promise<string> {
+  const provider = getExtractionProvider();
+  const content = await storage.download(inputUri);
+  const { chunks } = await preprocessDocument({ content, mimeType, pageLimit: getLocalSettings().shardPages });
+  const destination = `${outputUri.replace(/\/+$/, '')}/${operationId}/0/`;
+
+  let textOffset = 0;
+  for (const [shardIndex, chunk] of chunks.entries()) {
+    const document = await provider.processDocument({ content: chunk.content, mimeType: chunk.mimeType, processor });
+    if (!document) {
+      throw new EmptyDocumentError();
+    }
+
+    const shard = { ...JSON.parse(JSON.stringify(document)), shardInfo: { shardIndex, shardCount: chunks.length, textOffset } };
+    await storage.upload(`${destination}document-${shardIndex}.json`, Buffer.from(JSON.stringify(shard)), 'application/json');
+    textOffset += document.text?.length || 0;
+  }
+
+  return destination;
+}
+
+function createLocalBackend(): BatchProcessBackend {
+  const storage = createLocalStorage();
+  const getStatePath = (operationName: string) => getDataPath('async-ocr', 'local-operations', `${operationName.split('/').pop()}.json`);
+
+  return {
+    name: 'local',
+    storage,
+
+    async submit(request) {
+      const operationName = `local/operations/${randomUUID()}`;
+      const state: LocalOperationState = { request, createdAt: new Date().toISOString() };
+      await writeJsonFile(getStatePath(operationName), state);
+      return operationName;
+    },
+
+    check(operationName) {
+      const statePath = getStatePath(operationName);
+      return withFileLock(statePath, async () => {
+        const state = await readJsonFile<LocalOperationState | null>(statePath, null);
+        if (!state) {
+          return { done: true, state: 'FAILED', error: `オペレーションが見つかりません: ${operationName}`, outputUris: [] };
+        }
+
+        if (!state.finishedAt) {
+          if (Date.now() - new Date(state.createdAt).getTime() < getLocalSettings().delayMs) {
+            return { done: false, state: 'RUNNING', outputUris: [] };
+          }
+
+          try {
+            state.outputUri = await runLocalOperation(storage, operationName.split('/').pop()!, state.request);
+          } catch (error) {
+            console.error('バッチ処理（ローカル）のエラー:', error);
+            state.error = error instanceof Error ? error.message : String(error);
+          }
+          state.finishedAt = new Date().toISOString();
+          await writeJsonFile(statePath, state);
+        }
+
+        return state.error
+          ? { done: true, state: 'FAILED', error: state.error, outputUris: [] }
+          : { done: true, state: 'SUCCEEDED', outputUris: [state.outputUri!] };
+      });
+    },
+  };
+}
+
+// ASYNC_OCR_BACKEND でバックエンドを切り替える（未設定時は、フィクスチャの場合はlocal、それ以外はdocument-ai）
+export function getBatchProcessBackend(): BatchProcessBackend {
+  const name = process.env.ASYNC_OCR_BACKEND || (getExtractionProvider().name === 'fixture' ? 'local' : 'document-ai');
+
+  switch (name) {
+    case 'document-ai':
+      return createDocumentAiBackend();
+    case 'local':
+      return createLocalBackend();
+    default:
+      throw new ProviderConfigurationError(`不明な非同期処理のバックエンドです: ${name}（document-ai, localのいずれかを指定してください）`);
+  }
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrder } from '@/lib/orders';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { getAsyncOperation, startAsyncOcrPoller, submitAsyncExtraction } from './index';
+
+// 長いPDFの非同期処理を、ローカルの代替実装（localバックエンド・フィクスチャのプロバイダー）で確認する
+
+const DEFAULT_FIXTURE = path.join(process.cwd(), 'fixtures', 'document-ai', 'default.json');
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+let tempDir: string;
+let fixtureDir: string;
+let processors: ProcessorConfig[];
+const originalEnv = { ...process.env };
+
+beforeEach(async () => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'async-ocr-'));
+  fixtureDir = path.join(tempDir, 'fixtures');
+  fs.mkdirSync(fixtureDir);
+  fs.copyFileSync(DEFAULT_FIXTURE, path.join(fixtureDir, 'default.json'));
+
+  process.env.OCR_PROVIDER = 'fixture';
+  process.env.OCR_FIXTURE_DIR = fixtureDir;
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  // 完了までの待ち時間と確認の間隔を短くする
+  process.env.ASYNC_OCR_LOCAL_DELAY_SECONDS = '0.01';
+  process.env.ASYNC_OCR_POLL_SECONDS = '0.05';
+  process.env.ASYNC_OCR_LOCAL_SHARD_PAGES = '2';
+  processors = await loadProcessorRegistry();
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+// バックグラウンドの確認で完了するまで待つ
+async function waitForCompletion(id: string) {
+  return vi.waitFor(async () => {
+    const operation = await getAsyncOperation(id);
+    if (operation.status === 'running') throw new Error('処理中です');
+    return operation;
+  }, { timeout: 10000, interval: 50 });
+}
+
+describe('submitAsyncExtraction', () => {
+  it('シャードに分かれた出力をまとめて注文履歴に保存する', async () => {
+    const [processor] = processors;
+    const content = await createPdf(5);
+    const consumed: number[] = [];
+
+    const submitted = await submitAsyncExtraction({
+      file: { name: 'long.pdf', type: 'application/pdf', content },
+      pageCount: 5,
+      processor,
+      processors,
+      username: 'tester',
+      consumePages: pages => consumed.push(pages),
+    });
+    expect(submitted).toMatchObject({ status: 'running', processorType: processor.id, requestedProcessorType: processor.id });
+
+    const operation = await waitForCompletion(submitted.id);
+    expect(operation.status).toBe('succeeded');
+    expect(consumed).toEqual([5]);
+
+    const order = await getOrder(operation.orderId!);
+    expect(order).toMatchObject({ fileName: 'long.pdf', processorType: processor.id, status: 'unreviewed' });
+    // 2ページずつのシャード（3つ）の読み取り結果を1つにまとめる
+    expect(order.result.pageCount).toBe(3);
+    expect(order.result.purchaseOrder.lines).toHaveLength(9);
+    expect(order.result.detection?.mode).toBe('manual');
+  });
+
+  it('自動判定の場合は送信前に取引先を判定し、判定した取引先で1回だけ処理する', async () => {
+    const [first, second] = processors;
+    const document = JSON.parse(fs.readFileSync(DEFAULT_FIXTURE, 'utf8'));
+    fs.writeFileSync(
+      path.join(fixtureDir, `${first.id}.json`),
+      JSON.stringify({ ...document, text: `${second.detection!.keywords![0]}\n${document.text}` })
+    );
+    const consumed: number[] = [];
+
+    const submitted = await submitAsyncExtraction({
+      file: { name: 'auto.pdf', type: 'application/pdf', content: await createPdf(4) },
+      pageCount: 4,
+      processors,
+      username: 'tester',
+      consumePages: pages => consumed.push(pages),
+    });
+    expect(submitted).toMatchObject({ processorType: second.id, requestedProcessorType: 'auto' });
+
+    const operation = await waitForCompletion(submitted.id);
+    expect(operation).toMatchObject({ status: 'succeeded', processorType: second.id });
+    // 判定のための1ページと、バッチ処理の残りの3ページ
+    expect(consumed).toEqual([1, 3]);
+
+    const order = await getOrder(operation.orderId!);
+    expect(order.result.detection).toMatchObject({ mode: 'auto', detectedType: second.id });
+  });
+});
+
+describe('submitAsyncExtraction の利用量', () => {
+  it('利用量を超える場合はファイルを保存・アップロードせずにエラーにする', async () => {
+    const [processor] = processors;
+    const exceeded = new Error('利用量を超えました');
+
+    await expect(submitAsyncExtraction({
+      file: { name: 'over.pdf', type: 'application/pdf', content: await createPdf(3) },
+      pageCount: 3,
+      processor,
+      processors,
+      username: 'tester',
+      consumePages: () => {
+        throw exceeded;
+      },
+    })).rejects.toBe(exceeded);
+
+    expect(fs.existsSync(path.join(process.env.DATA_DIR!, 'async-ocr'))).toBe(false);
+  });
+});
+
+describe('startAsyncOcrPoller', () => {
+  it('再起動前に送信した処理を、画面からの問い合わせを待たずに完了させる', async () => {
+    const [processor] = processors;
+    const submitted = await submitAsyncExtraction({
+      file: { name: 'restart.pdf', type: 'application/pdf', content: await createPdf(3) },
+      pageCount: 3,
+      processor,
+      processors,
+      username: 'tester',
+    });
+
+    // 再起動でバックグラウンドの確認が止まった状態にする
+    const store = globalThis as typeof globalThis & { __asyncOcrPoller?: ReturnType<typeof setInterval> };
+    clearInterval(store.__asyncOcrPoller);
+    delete store.__asyncOcrPoller;
+
+    startAsyncOcrPoller();
+    const recordPath = path.join(process.env.DATA_DIR!, 'async-ocr', 'operations', submitted.id, 'operation.json');
+    const record = await vi.waitFor(() => {
+      const stored = JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+      if (stored.status === 'running') throw new Error('処理中です');
+      return stored;
+    }, { timeout: 10000, interval: 50 });
+    expect(record.status).toBe('succeeded');
+    expect((await getOrder(record.orderId)).fileName).toBe('restart.pdf');
+  });
+});
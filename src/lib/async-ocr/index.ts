@@ -0,0 +1,325 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { protos } from '@google-cloud/documentai';
+import { recordExtraction } from '@/lib/audit';
+import { AnalyzeOptions, buildExtractionResult, classifyDocument, EmptyDocumentError } from '@/lib/ocr/extract';
+import { readOcrCache, writeOcrCache } from '@/lib/ocr/cache';
+import { mergeDocuments } from '@/lib/ocr/merge';
+import { getExtractionProvider } from '@/lib/ocr/providers';
+import { IDocument, ProviderError } from '@/lib/ocr/types';
+import { saveExtractedOrder } from '@/lib/orders';
+import { preprocessDocument, PreprocessingSummary } from '@/lib/preprocess';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { AUTO_PROCESSOR_TYPE, detectProcessor, ProcessorDetection } from '@/lib/processors/detection';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { getDataPath, readJsonFile, withFileLock, writeBinaryFile, writeJsonFile } from '@/lib/storage';
+import { getBatchProcessBackend } from './backends';
+import { OperationStorage } from './storage';
+import { AsyncOperation } from './types';
+
+export * from './types';
+
+// 長いPDFの非同期処理
+// ルートハンドラーの中でOCRを待つとタイムアウトするため、バッチ処理（長時間実行オペレーション）として送信してすぐに応答し、
+// バックグラウンドで完了を確認して、シャードに分かれた出力を1つにまとめて注文履歴に保存する
+// 状態は data/async-ocr/operations/<id>/ に保存し、再起動後はサーバーの起動時（instrumentation.ts）から確認を再開する
+
+export class AsyncOperationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`処理が見つかりません（id: ${id}）`);
+    this.name = 'AsyncOperationNotFoundError';
+  }
+}
+
+// 画面に返さない情報（バックエンド・入出力の場所・前処理の結果など）を含む保存形式
+interface StoredAsyncOperation extends AsyncOperation {
+  backend: string;
+  reportedType: string;
+  mimeType: string;
+  preprocessing: PreprocessingSummary;
+  inputUri: string;
+  outputUri: string;
+  refresh: boolean;
+  // 自動判定の場合、送信前に判定した結果
+  detection?: Omit<ProcessorDetection, 'mode'>;
+}
+
+export function getAsyncOcrSettings() {
+  return {
+    // このページ数以上のファイルは非同期で処理する
+    minPages: Number(process.env.ASYNC_OCR_MIN_PAGES) || 30,
+    // バックグラウンドで完了を確認する間隔
+    pollMs: (Number(process.env.ASYNC_OCR_POLL_SECONDS) || 10) * 1000,
+  };
+}
+
+// idはパスの一部になるため、UUID以外は受け付けない
+const isOperationId = (id: string) => /^[0-9a-f-]{36}$/.test(id);
+
+function getOperationPath(id: string, fileName: string): string {
+  if (!isOperationId(id)) throw new AsyncOperationNotFoundError(id);
+  return getDataPath('async-ocr', 'operations', id, fileName);
+}
+
+function toPublicOperation(record: StoredAsyncOperation): AsyncOperation {
+  return {
+    id: record.id,
+    fileName: record.fileName,
+    pageCount: record.pageCount,
+    requestedProcessorType: record.requestedProcessorType,
+    processorType: record.processorType,
+    provider: record.provider,
+    status: record.status,
+    operationName: record.operationName,
+    state: record.state,
+    orderId: record.orderId,
+    error: record.error,
+    username: record.username,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    finishedAt: record.finishedAt,
+  };
+}
+
+// 非同期で処理するかどうか（mode: async / sync で指定、省略時はページ数で判断）
+// OCR結果のキャッシュがある場合は、同期処理でもすぐに終わるため非同期にしない
+export async function shouldProcessAsync({ mode, pageCount, content, processor, refresh }: {
+  mode: string | null;
+  pageCount: number;
+  content: Buffer;
+  processor: ProcessorConfig;
+  refresh: boolean;
+}): Promise<boolean> {
+  if (mode === 'sync') return false;
+  if (mode === 'async') return true;
+  if (pageCount < getAsyncOcrSettings().minPages) return false;
+  return refresh || !(await readOcrCache({ content, provider: getExtractionProvider().name, processor }));
+}
+
+// ファイルをバッチ処理として送信する（processorを指定しない場合は、送信前に1ページ目などから取引先を自動判定する）
+// consumePagesは判定のための読み取りの前と、ファイルの保存・アップロードの前に、それぞれ読み取るページ数で呼ぶ（判定で読み取ったページは重ねて数えない）
+// （利用量を超える場合は何も保存・送信せずにエラーにする）
+export async function submitAsyncExtraction({ file, pageCount, processor, processors, username, refresh = false, consumePages }: {
+  file: { name: string; type: string; content: Buffer };
+  pageCount: number;
+  processor?: ProcessorConfig;
+  processors: ProcessorConfig[];
+  username: string;
+  refresh?: boolean;
+  consumePages?: AnalyzeOptions['consumePages'];
+}): Promise<AsyncOperation> {
+  const backend = getBatchProcessBackend();
+  const { processor: used, detection, pagesRead } = processor
+    ? { processor, detection: undefined, pagesRead: 0 }
+    : await classifyDocument({ content: file.content, mimeType: file.type, processors }, { refresh, consumePages });
+
+  // バッチ処理はページ数の上限が大きいため、PDFは分割せずに送る
+  const preprocessed = await preprocessDocument({ content: file.content, mimeType: file.type, pageLimit: Number.MAX_SAFE_INTEGER });
+  // 判定のために読み取ったページは数えない
+  if (pageCount - pagesRead > 0) consumePages?.(pageCount - pagesRead);
+
+  const id = randomUUID();
+  await writeBinaryFile(getOperationPath(id, 'source'), file.content);
+  await writeBinaryFile(getOperationPath(id, 'preprocessed'), preprocessed.content);
+
+  const inputUri = backend.storage.getUri(`input/${id}/document`);
+  const outputUri = backend.storage.getUri(`output/${id}/`);
+  await backend.storage.upload(inputUri, preprocessed.content, preprocessed.mimeType);
+  const operationName = await backend.submit({ processor: used, inputUri, mimeType: preprocessed.mimeType, outputUri });
+
+  const now = new Date().toISOString();
+  const record: StoredAsyncOperation = {
+    id,
+    fileName: file.name,
+    pageCount,
+    requestedProcessorType: processor?.id || AUTO_PROCESSOR_TYPE,
+    processorType: used.id,
+    provider: getExtractionProvider().name,
+    status: 'running',
+    operationName,
+    username,
+    createdAt: now,
+    updatedAt: now,
+    backend: backend.name,
+    reportedType: file.type,
+    mimeType: preprocessed.mimeType,
+    preprocessing: preprocessed.summary,
+    inputUri,
+    outputUri,
+    refresh,
+    ...(detection ? { detection } : {}),
+  };
+  await writeJsonFile(getOperationPath(id, 'operation.json'), record);
+
+  ensurePoller();
+  return toPublicOperation(record);
+}
+
+// シャードに分かれて出力されたDocument JSONを読み込み、順番に1つにまとめる
+async function collectShards(storage: OperationStorage, outputUris: string[]): Promise<IDocument> {
+  const uris: string[] = [];
+  for (const outputUri of outputUris) {
+    uris.push(...(await storage.list(outputUri.endsWith('/') ? outputUri : `${outputUri}/`)).filter(uri => uri.endsWith('.json')));
+  }
+  if (uris.length === 0) {
+    throw new EmptyDocumentError();
+  }
+
+  const shards: IDocument[] = [];
+  for (const uri of uris) {
+    const json = JSON.parse((await storage.download(uri)).toString('utf8'));
+    shards.push(protos.google.cloud.documentai.v1.Document.fromObject(json));
+  }
+  shards.sort((a, b) => Number(a.shardInfo?.shardIndex || 0) - Number(b.shardInfo?.shardIndex || 0));
+
+  return mergeDocuments(shards);
+}
+
+// 完了したオペレーションの出力から解析結果を作り、注文履歴に保存する
+async function completeOperation(record: StoredAsyncOperation, outputUris: string[]): Promise<void> {
+  const backend = getBatchProcessBackend();
+  const document = await collectShards(backend.storage, outputUris);
+
+  const processors = await loadProcessorRegistry();
+  const processor = processors.find(p => p.id === record.processorType);
+  if (!processor) {
+    throw new Error(`取引先設定が見つかりません: ${record.processorType}`);
+  }
+
+  // 自動判定の場合は送信前の判定結果、指定した場合は指定の誤りの確認用に読み取ったテキストから判定する
+  const isAuto = record.requestedProcessorType === AUTO_PROCESSOR_TYPE;
+  const detection = isAuto && record.detection ? record.detection : detectProcessor(document.text || '', processors);
+
+  const content = await fs.promises.readFile(getOperationPath(record.id, 'source'));
+  const preprocessedContent = await fs.promises.readFile(getOperationPath(record.id, 'preprocessed'));
+
+  const cache = await writeOcrCache({ content, provider: record.provider, processor }, document, { refresh: record.refresh });
+  const result = buildExtractionResult(document, { processor, preprocessing: record.preprocessing, provider: record.provider, cache });
+  result.detection = { mode: isAuto ? 'auto' : 'manual', ...detection };
+
+  const order = await saveExtractedOrder({
+    file: { name: record.fileName, type: record.reportedType, content },
+    preprocessed: { content: preprocessedContent, mimeType: record.mimeType },
+    processor,
+    result,
+    document,
+  });
+
+  record.status = 'succeeded';
+  record.orderId = order.id;
+  record.finishedAt = new Date().toISOString();
+
+  await recordExtraction({
+    username: record.username,
+    processor,
+    fileName: record.fileName,
+    content,
+    orderId: order.id,
+    durationMs: Date.now() - new Date(record.createdAt).getTime(),
+    result,
+  }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+
+  // バッチ処理の入出力は注文履歴に保存したため削除する
+  await Promise.all([
+    backend.storage.remove(record.inputUri),
+    backend.storage.remove(record.outputUri),
+  ]).catch(error => console.error('非同期処理の入出力の削除エラー:', error));
+}
+
+async function failOperation(record: StoredAsyncOperation, message: string): Promise<void> {
+  record.status = 'failed';
+  record.error = message;
+  record.finishedAt = new Date().toISOString();
+
+  await recordExtraction({
+    username: record.username,
+    fileName: record.fileName,
+    durationMs: Date.now() - new Date(record.createdAt).getTime(),
+    error: { code: 'processing_failed', message },
+  }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+}
+
+// 実行中のオペレーションの状態を確認し、完了していれば結果をまとめる
+function pollOperation(id: string): Promise<StoredAsyncOperation | null> {
+  const recordPath = getOperationPath(id, 'operation.json');
+  return withFileLock(recordPath, async () => {
+    const record = await readJsonFile<StoredAsyncOperation | null>(recordPath, null);
+    if (!record || record.status !== 'running') return record;
+
+    try {
+      const state = await getBatchProcessBackend().check(record.operationName);
+      record.state = state.state;
+      if (state.done) {
+        if (state.error) {
+          await failOperation(record, state.error);
+        } else {
+          await completeOperation(record, state.outputUris);
+        }
+      }
+    } catch (error) {
+      console.error(`非同期処理の確認エラー（${record.fileName}）:`, error);
+      // 一時的な障害の場合は失敗にせず、次の確認で再試行する
+      if (!(error instanceof ProviderError && error.options.retryable)) {
+        await failOperation(record, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    record.updatedAt = new Date().toISOString();
+    await writeJsonFile(recordPath, record);
+    return record;
+  });
+}
+
+async function pollRunningOperations(): Promise<void> {
+  let ids: string[];
+  try {
+    ids = await fs.promises.readdir(getDataPath('async-ocr', 'operations'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  for (const id of ids.filter(isOperationId)) {
+    const record = await readJsonFile<StoredAsyncOperation | null>(getOperationPath(id, 'operation.json'), null).catch(() => null);
+    if (record?.status === 'running') {
+      await pollOperation(id);
+    }
+  }
+}
+
+// 開発時のホットリロードで重複して起動しないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __asyncOcrPoller?: ReturnType<typeof setInterval>;
+  __asyncOcrPolling?: boolean;
+};
+
+// バックグラウンドでの確認を開始する（実行中のオペレーションがなければ何もしない）
+function ensurePoller(): void {
+  if (store.__asyncOcrPoller) return;
+
+  store.__asyncOcrPoller = setInterval(() => {
+    // 前回の確認（出力の取りまとめなど）が終わっていなければ待つ
+    if (store.__asyncOcrPolling) return;
+    store.__asyncOcrPolling = true;
+    pollRunningOperations()
+      .catch(error => console.error('非同期処理の確認エラー:', error))
+      .finally(() => {
+        store.__asyncOcrPolling = false;
+      });
+  }, getAsyncOcrSettings().pollMs);
+  store.__asyncOcrPoller.unref?.();
+}
+
+// サーバーの起動時に呼び出し、再起動前から実行中のオペレーションの確認を再開する
+export function startAsyncOcrPoller(): void {
+  ensurePoller();
+}
+
+// 状態を返す（画面からポーリングする）
+export async function getAsyncOperation(id: string): Promise<AsyncOperation> {
+  ensurePoller();
+
+  const record = await readJsonFile<StoredAsyncOperation | null>(getOperationPath(id, 'operation.json'), null);
+  if (!record) throw new AsyncOperationNotFoundError(id);
+  return toPublicOperation(record);
+}
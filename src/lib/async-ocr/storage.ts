@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import { Storage } from '@google-cloud/storage';
+import { getGoogleClientOptions } from '@/lib/ocr/document-ai';
+import { ProviderConfigurationError } from '@/lib/ocr/types';
+import { getDataPath, writeBinaryFile } from '@/lib/storage';
+
+// バッチ処理の入力ファイルと出力（シャードに分かれたDocument JSON）の置き場所
+// Document AIの場合は Cloud Storage、ローカルの代替実装の場合は data/async-ocr/storage/ を使う
+export interface OperationStorage {
+  // 置き場所の中のパスに対応するURI
+  getUri(relativePath: string): string;
+  upload(uri: string, content: Buffer, mimeType: string): Promise<void>;
+  // URIで始まるファイルのURI
+  list(prefixUri: string): Promise<string[]>;
+  download(uri: string): Promise<Buffer>;
+  // URIで始まるファイルを削除する
+  remove(prefixUri: string): Promise<void>;
+}
+
+function parseGcsUri(uri: string): { bucket: string; name: string } {
+  const match = uri.match(/^gs:\/\/([^/]+)\/?(.*)$/);
+  if (!match) {
+    throw new ProviderConfigurationError(`Cloud StorageのURIが不正です: ${uri}`);
+  }
+  return { bucket: match[1], name: match[2] };
+}
+
+// 進捗の確認ごとに作り直さないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __asyncOcrGcsStorage?: Storage;
+};
+
+// Cloud Storage（ASYNC_OCR_GCS_URI に gs://バケット/パス を指定）
+export function createGcsStorage(): OperationStorage {
+  const baseUri = process.env.ASYNC_OCR_GCS_URI?.replace(/\/+$/, '');
+  if (!baseUri) {
+    throw new ProviderConfigurationError('非同期処理には ASYNC_OCR_GCS_URI（gs://バケット/パス）の設定が必要です。.env.localを確認してください。');
+  }
+  parseGcsUri(baseUri);
+
+  store.__asyncOcrGcsStorage ??= new Storage(getGoogleClientOptions());
+  const storage = store.__asyncOcrGcsStorage;
+  const getUri = (relativePath: string) => `${baseUri}/${relativePath}`;
+
+  return {
+    getUri,
+
+    async upload(uri, content, mimeType) {
+      const { bucket, name } = parseGcsUri(uri);
+      await storage.bucket(bucket).file(name).save(content, { contentType: mimeType, resumable: false });
+    },
+
+    async list(prefixUri) {
+      const { bucket, name } = parseGcsUri(prefixUri);
+      const [files] = await storage.bucket(bucket).getFiles({ prefix: name });
+      return files.map(file => `gs://${bucket}/${file.name}`);
+    },
+
+    async download(uri) {
+      const { bucket, name } = parseGcsUri(uri);
+      const [content] = await storage.bucket(bucket).file(name).download();
+      return content;
+    },
+
+    async remove(prefixUri) {
+      const { bucket, name } = parseGcsUri(prefixUri);
+      await storage.bucket(bucket).deleteFiles({ prefix: name });
+    },
+  };
+}
+
+const LOCAL_SCHEME = 'local://';
+
+async function listFiles(dir: string): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    files.push(...(entry.isDirectory() ? await listFiles(entryPath) : [entryPath]));
+  }
+  return files;
+}
+
+// ローカルの代替実装（Cloud Storageなしで開発・テストするためのもの。URIは local://パス）
+export function createLocalStorage(): OperationStorage {
+  const root = path.resolve(getDataPath('async-ocr', 'storage'));
+
+  const toFilePath = (uri: string) => {
+    if (!uri.startsWith(LOCAL_SCHEME)) {
+      throw new ProviderConfigurationError(`ローカルストレージのURIが不正です: ${uri}`);
+    }
+    const filePath = path.resolve(root, uri.slice(LOCAL_SCHEME.length));
+    // 置き場所の外を指すURIは扱わない
+    if (filePath !== root && !filePath.startsWith(`${root}${path.sep}`)) {
+      throw new ProviderConfigurationError(`ローカルストレージのURIが不正です: ${uri}`);
+    }
+    return filePath;
+  };
+  const toUri = (filePath: string) => `${LOCAL_SCHEME}${path.relative(root, filePath).split(path.sep).join('/')}`;
+
+  // URIで始まるファイル（/で終わるURIはそのディレクトリの中のファイル）
+  const findFiles = async (prefixUri: string) => {
+    const prefix = toFilePath(prefixUri);
+    const isDirectory = prefixUri.endsWith('/');
+    const files = await listFiles(isDirectory ? prefix : path.dirname(prefix));
+    return isDirectory ? files : files.filter(filePath => filePath.startsWith(prefix));
+  };
+
+  return {
+    getUri: relativePath => `${LOCAL_SCHEME}${relativePath}`,
+
+    async upload(uri, content) {
+      await writeBinaryFile(toFilePath(uri), content);
+    },
+
+    async list(prefixUri) {
+      return (await findFiles(prefixUri)).map(toUri);
+    },
+
+    async download(uri) {
+      return fs.promises.readFile(toFilePath(uri));
+    },
+
+    async remove(prefixUri) {
+      for (const filePath of await findFiles(prefixUri)) {
+        await fs.promises.rm(filePath, { force: true });
+      }
+    },
+  };
+}
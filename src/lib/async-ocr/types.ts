@@ -0,0 +1,24 @@
+// 非同期処理（長いPDFをDocument AIのバッチ処理で読み取る）の状態（API・画面で共通）
+export type AsyncOperationStatus = 'running' | 'succeeded' | 'failed';
+
+export interface AsyncOperation {
+  id: string;
+  fileName: string;
+  pageCount: number;
+  // 指定された取引先（自動判定の場合は auto）と、読み取りに使っている取引先
+  requestedProcessorType: string;
+  processorType: string;
+  provider: string;
+  status: AsyncOperationStatus;
+  // 長時間実行オペレーションの名前
+  operationName: string;
+  // バックエンドが返す処理状況（RUNNING・SUCCEEDEDなど）
+  state?: string;
+  // 完了時に注文履歴へ保存した注文のID
+  orderId?: string;
+  error?: string;
+  username: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { applyDraftAction, createDraft, isCellEdited, toStoredDraft } from '@/lib/order-draft';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { ProductCandidate } from '@/lib/products/matching';
+import { PurchaseOrder } from '@/lib/purchase-order';
+import { diffDrafts } from './diff';
+
+function field(raw: string) {
+  return { raw, value: raw };
+}
+
+// 商品コードを読み間違えた1行の注文書と、JANコードで一致した商品マスターの候補
+const order: PurchaseOrder = {
+  processorType: 'test',
+  header: { order_number: field('A-1') },
+  recipientCompany: { name: null, address: null },
+  lines: [{ page: 1, fields: { product_code: field('1S46'), product_name: field('マーカー'), quantity: field('20') } }],
+  errors: [],
+};
+const candidates: ProductCandidate[] = [{
+  product: { id: 1, product_code: '1546', product_name: '油性ツインマーカー', sales_price: 100 },
+  score: 1,
+  reasons: ['jan'],
+}];
+
+let processor: ProcessorConfig;
+
+beforeAll(async () => {
+  [processor] = await loadProcessorRegistry();
+});
+
+describe('diffDrafts', () => {
+  it('初回の保存では、OCRの読み取り値からの自動補正と手修正を分けて返す', () => {
+    const draft = createDraft(order, processor, [candidates]);
+    const [row] = draft.rows;
+    expect(row.original).toMatchObject({ product_code: '1S46', product_name: 'マーカー' });
+    expect(row.values).toMatchObject({ product_code: '1546', product_name: '油性ツインマーカー' });
+    // 自動補正した値は手修正として扱わない
+    expect(isCellEdited(row, 'product_code')).toBe(false);
+
+    const edited = applyDraftAction(draft, { type: 'setCell', rowId: row.id, key: 'quantity', value: '30' });
+    expect(diffDrafts(null, toStoredDraft(edited))).toEqual([
+      { kind: 'master_correction', line: 1, key: 'product_code', before: '1S46', after: '1546' },
+      { kind: 'master_correction', line: 1, key: 'product_name', before: 'マーカー', after: '油性ツインマーカー' },
+      { kind: 'cell', line: 1, key: 'quantity', before: '20', after: '30' },
+    ]);
+  });
+
+  it('2回目以降の保存では前回の保存からの手修正だけを返す', () => {
+    const draft = createDraft(order, processor, [candidates]);
+    const previous = toStoredDraft(draft);
+    const edited = applyDraftAction(draft, { type: 'setCell', rowId: draft.rows[0].id, key: 'product_name', value: 'マーカー黒' });
+
+    expect(diffDrafts(previous, toStoredDraft(edited))).toEqual([
+      { kind: 'cell', line: 1, key: 'product_name', before: '油性ツインマーカー', after: 'マーカー黒' },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { getRowBaseValues, StoredOrderDraft } from '@/lib/order-draft';
+
+// 保存した手修正データの差分（前回の保存から変わった項目）
+
+export type DraftChange =
+  | { kind: 'header'; key: string; before: string; after: string }
+  // line は今回保存した明細行の位置（1始まり）
+  | { kind: 'cell'; line: number; key: string; before: string; after: string }
+  // 商品マスターとの照合による自動補正（before はOCRで読み取った値。初回の保存で記録する）
+  | { kind: 'master_correction'; line: number; key: string; before: string; after: string }
+  | { kind: 'line_added'; line: number; values: Record<string, string> }
+  // line は前回保存した明細行の位置
+  | { kind: 'line_deleted'; line: number; values: Record<string, string> };
+
+type StoredRow = StoredOrderDraft['rows'][number];
+
+// OCRで読み取った行は読み取り結果で対応付ける（並べ替えても同じ行とみなす）
+function getRowIdentity(row: StoredRow): string | null {
+  return row.original ? JSON.stringify([row.page, row.original]) : null;
+}
+
+function diffValues(before: Record<string, string>, after: Record<string, string>): { key: string; before: string; after: string }[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys
+    .map(key => ({ key, before: before[key] || '', after: after[key] || '' }))
+    .filter(change => change.before !== change.after);
+}
+
+// previousがnullの場合（初回の保存）は、OCRの読み取り結果からの変更を差分とする
+// 商品マスターでの自動補正は手修正と分けて記録し、手修正は補正後の値からの変更とする
+export function diffDrafts(previous: StoredOrderDraft | null, next: StoredOrderDraft): DraftChange[] {
+  const base: StoredOrderDraft = previous || {
+    ...next,
+    header: next.headerOriginal,
+    rows: next.rows.filter(row => row.original).map(row => ({ ...row, values: getRowBaseValues(row)! })),
+  };
+
+  const changes: DraftChange[] = diffValues(base.header, next.header)
+    .map(change => ({ kind: 'header', ...change }));
+
+  if (!previous) {
+    next.rows.forEach((row, index) => {
+      if (!row.original) return;
+      diffValues(row.original, getRowBaseValues(row)!).forEach(change => {
+        changes.push({ kind: 'master_correction', line: index + 1, ...change });
+      });
+    });
+  }
+
+  // 読み取った行は同じ読み取り結果の行と、手動で追加した行は追加した順に対応付ける
+  const remaining = base.rows.map((row, index) => ({ row, index }));
+  next.rows.forEach((row, index) => {
+    const identity = getRowIdentity(row);
+    const matchedIndex = remaining.findIndex(candidate => getRowIdentity(candidate.row) === identity);
+    if (matchedIndex < 0) {
+      changes.push({ kind: 'line_added', line: index + 1, values: row.values });
+      return;
+    }
+
+    const [matched] = remaining.splice(matchedIndex, 1);
+    diffValues(matched.row.values, row.values).forEach(change => {
+      changes.push({ kind: 'cell', line: index + 1, ...change });
+    });
+  });
+
+  remaining.forEach(({ row, index }) => {
+    changes.push({ kind: 'line_deleted', line: index + 1, values: row.values });
+  });
+
+  return changes;
+}
@@ -0,0 +1,377 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import { toCsv } from '@/lib/csv';
+import type { ExtractionResult } from '@/lib/ocr';
+import type { StoredOrderDraft } from '@/lib/order-draft';
+import type { Delivery } from '@/lib/outbound/types';
+import { ProcessorConfig, resolveProcessorId } from '@/lib/processors';
+import { getHeaderFieldKey } from '@/lib/processors/types';
+import { getAllProducts } from '@/lib/products';
+import { getDataPath, withFileLock } from '@/lib/storage';
+import { diffDrafts } from './diff';
+import { AUDIT_EVENT_TYPE_LABELS, AuditEvent, AuditQuery, AuditSearchResult } from './types';
+
+export * from './types';
+
+// 監査ログは月ごとのJSON Lines（data/audit/YYYY-MM.jsonl）に追記のみで保存する
+// 各記録は直前の記録のハッシュを含み、途中の記録の書き換え・削除を検出できる
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// 最初の記録のprevHash
+const GENESIS_HASH = '0'.repeat(64);
+
+type AuditEventInput = Omit<AuditEvent, 'id' | 'at' | 'prevHash' | 'hash'>;
+
+// 直前の記録のハッシュ（開発時のホットリロードで失われないよう globalThis に保持する）
+const store = globalThis as typeof globalThis & { __auditLastHash?: Map<string, string> };
+const lastHashes = (store.__auditLastHash ??= new Map<string, string>());
+
+function getAuditDir(): string {
+  return getDataPath('audit');
+}
+
+function hashEvent(event: Omit<AuditEvent, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(event)).digest('hex');
+}
+
+async function listLogFiles(): Promise<string[]> {
+  try {
+    const names = await fs.promises.readdir(getAuditDir());
+    return names.filter(name => /^\d{4}-\d{2}\.jsonl$/.test(name)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readAllEvents(): Promise<AuditEvent[]> {
+  const events: AuditEvent[] = [];
+  for (const name of await listLogFiles()) {
+    const text = await fs.promises.readFile(`${getAuditDir()}/${name}`, 'utf8');
+    text.split('\n').filter(line => line.trim()).forEach(line => events.push(JSON.parse(line) as AuditEvent));
+  }
+  return events;
+}
+
+async function getLastHash(): Promise<string> {
+  const dir = getAuditDir();
+  const cached = lastHashes.get(dir);
+  if (cached) return cached;
+
+  const events = await readAllEvents();
+  return events[events.length - 1]?.hash || GENESIS_HASH;
+}
+
+// 記録を追記する（同時に追記してもハッシュの連鎖が崩れないよう直列化する）
+export function recordAuditEvents(inputs: AuditEventInput[]): Promise<void> {
+  if (inputs.length === 0) return Promise.resolve();
+
+  const dir = getAuditDir();
+  return withFileLock(dir, async () => {
+    let prevHash = await getLastHash();
+    const lines: Record<string, string[]> = {};
+
+    for (const input of inputs) {
+      const unsigned = { id: randomUUID(), at: new Date().toISOString(), ...input, prevHash };
+      const event: AuditEvent = { ...unsigned, hash: hashEvent(unsigned) };
+      const month = event.at.slice(0, 7);
+      (lines[month] ??= []).push(JSON.stringify(event));
+      prevHash = event.hash;
+    }
+
+    await fs.promises.mkdir(dir, { recursive: true });
+    for (const [month, monthLines] of Object.entries(lines)) {
+      await fs.promises.appendFile(`${dir}/${month}.jsonl`, monthLines.map(line => `${line}\n`).join(''));
+    }
+    lastHashes.set(dir, prevHash);
+  });
+}
+
+// ハッシュの連鎖が最初に途切れている記録
+function findBrokenEvent(events: AuditEvent[]): string | null {
+  let prevHash = GENESIS_HASH;
+  for (const event of events) {
+    const { hash, ...unsigned } = event;
+    if (event.prevHash !== prevHash || hashEvent(unsigned) !== hash) return event.id;
+    prevHash = hash;
+  }
+  return null;
+}
+
+// 検索条件（APIのクエリ文字列）
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+  return {
+    type: params.get('type') || undefined,
+    username: params.get('username') || undefined,
+    orderId: params.get('orderId') || undefined,
+    from: params.get('from') || undefined,
+    to: params.get('to') || undefined,
+    page: Number(params.get('page')) || 1,
+    pageSize: Number(params.get('pageSize')) || undefined,
+  };
+}
+
+function filterEvents(events: AuditEvent[], query: AuditQuery): AuditEvent[] {
+  const username = query.username?.trim();
+  const orderId = query.orderId?.trim();
+  return events.filter(event =>
+    (!query.type || event.type === query.type) &&
+    (!username || event.username.includes(username)) &&
+    (!orderId || event.orderId === orderId) &&
+    // 日付は日本時間で比較する
+    (!query.from || toJstDate(event.at) >= query.from) &&
+    (!query.to || toJstDate(event.at) <= query.to)
+  );
+}
+
+function toJstDate(iso: string): string {
+  return new Date(new Date(iso).getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// 条件に一致する記録を新しい順に返す
+export async function searchAuditLog(query: AuditQuery): Promise<AuditSearchResult> {
+  const events = await readAllEvents();
+  const matched = filterEvents(events, query).reverse();
+
+  const size = Math.min(Math.max(1, Math.floor(query.pageSize || 0) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const current = Math.max(1, Math.floor(query.page || 0) || 1);
+
+  return {
+    events: matched.slice((current - 1) * size, current * size),
+    total: matched.length,
+    page: current,
+    pageSize: size,
+    brokenAt: findBrokenEvent(events),
+  };
+}
+
+// 条件に一致する記録をCSV（古い順）にする
+export async function exportAuditLog(query: AuditQuery): Promise<string> {
+  const events = filterEvents(await readAllEvents(), query);
+  return toCsv([
+    ['日時', '種別', 'ユーザー', '注文ID', '取引先', '内容', '詳細', 'ハッシュ'],
+    ...events.map(event => [
+      event.at,
+      AUDIT_EVENT_TYPE_LABELS[event.type] || event.type,
+      event.username,
+      event.orderId || '',
+      event.processorType || '',
+      event.summary,
+      JSON.stringify(event.details),
+      event.hash,
+    ]),
+  ], '\r\n');
+}
+
+// OCRによる読み取り（失敗した場合も記録する）
+export function recordExtraction({ username, processor, fileName, content, orderId, durationMs, result, error }: {
+  username: string;
+  processor?: ProcessorConfig;
+  fileName?: string;
+  content?: Buffer;
+  orderId?: string;
+  durationMs: number;
+  result?: ExtractionResult;
+  // 失敗した場合のエラーコードとメッセージ
+  error?: { code: string; message: string };
+}): Promise<void> {
+  const seconds = (durationMs / 1000).toFixed(1);
+  const name = fileName || '（ファイルなし）';
+  const confidences = result?.entities.map(entity => entity.confidence) || [];
+
+  return recordAuditEvents([{
+    type: 'extraction',
+    username,
+    orderId,
+    processorType: processor?.id,
+    summary: error
+      ? `${name}の読み取りに失敗しました（${error.message}）`
+      : `${name}を読み取りました（${result?.purchaseOrder.lines.length ?? 0}行・${seconds}秒${result?.cache.status === 'hit' ? '・キャッシュ' : ''}）`,
+    details: {
+      fileName,
+      fileHash: content ? createHash('sha256').update(content).digest('hex') : undefined,
+      fileSize: content?.length,
+      processorId: processor ? resolveProcessorId(processor) || null : undefined,
+      provider: result?.provider,
+      cache: result?.cache.status,
+      detection: result?.detection
+        ? { mode: result.detection.mode, detectedType: result.detection.detectedType, confidence: result.detection.confidence }
+        : undefined,
+      durationMs,
+      ...(result ? {
+        pageCount: result.pageCount,
+        entityCount: result.entities.length,
+        lineCount: result.purchaseOrder.lines.length,
+        averageConfidence: confidences.length > 0
+          ? Math.round((confidences.reduce((sum, value) => sum + value, 0) / confidences.length) * 1000) / 1000
+          : null,
+        header: Object.fromEntries(Object.entries(result.purchaseOrder.header).map(([key, field]) => [key, field.raw])),
+      } : {}),
+      ...(error ? { error: error.code, message: error.message } : {}),
+    },
+  }]);
+}
+
+function quote(value: string): string {
+  return value ? `「${value}」` : '（空欄）';
+}
+
+// 手修正の保存で変わった項目を1件ずつ記録する
+// 商品コードと商品名を商品マスターの商品に置き換えた行は、商品の選択として記録する
+// 商品マスターとの照合で自動的に補正した値は、初回の保存時に自動補正として記録する
+export async function recordDraftChanges({ username, orderId, processor, previous, next }: {
+  username: string;
+  orderId: string;
+  processor?: ProcessorConfig;
+  previous: StoredOrderDraft | null;
+  next: StoredOrderDraft;
+}): Promise<void> {
+  const changes = diffDrafts(previous, next);
+  if (changes.length === 0) return;
+
+  const headerLabels = Object.fromEntries((processor?.headerFields || []).map(field => [getHeaderFieldKey(field), field.label]));
+  const columnLabels = Object.fromEntries((processor?.itemColumns || []).map(col => [col.key, col.label]));
+  const base = { username, orderId, processorType: processor?.id };
+
+  // 商品コードが変わった行のうち、商品マスターの商品と商品名まで一致するもの
+  const codeChanges = changes.flatMap(change => (change.kind === 'cell' && change.key === 'product_code' ? [change] : []));
+  const products = codeChanges.length > 0 ? await getAllProducts() : [];
+  const matchedLines = new Map(codeChanges.flatMap(change => {
+    const row = next.rows[change.line - 1];
+    const product = products.find(p => p.product_code === change.after && p.product_name === row.values.product_name);
+    return product ? [[change.line, { change, product, row }] as const] : [];
+  }));
+
+  const events: AuditEventInput[] = [];
+  for (const [line, { change, product, row }] of matchedLines) {
+    const nameChange = changes.find(c => c.kind === 'cell' && c.line === line && c.key === 'product_name');
+    const beforeName = nameChange?.kind === 'cell' ? nameChange.before : row.values.product_name;
+    events.push({
+      ...base,
+      type: 'product_match',
+      summary: `${line}行目の商品を ${change.before || '（なし）'} ${beforeName} から ${product.product_code} ${product.product_name} に変更しました`,
+      details: {
+        line,
+        before: { product_code: change.before, product_name: beforeName },
+        after: { productId: product.id, product_code: product.product_code, product_name: product.product_name },
+        // OCRで読み取った値
+        original: row.original ? { product_code: row.original.product_code, product_name: row.original.product_name } : null,
+      },
+    });
+  }
+
+  for (const change of changes) {
+    switch (change.kind) {
+      case 'header': {
+        const label = headerLabels[change.key] || change.key;
+        events.push({
+          ...base,
+          type: 'correction',
+          summary: `${label}: ${quote(change.before)} → ${quote(change.after)}`,
+          details: change,
+        });
+        break;
+      }
+      case 'cell': {
+        if (matchedLines.has(change.line) && ['product_code', 'product_name'].includes(change.key)) break;
+        const label = columnLabels[change.key] || change.key;
+        events.push({
+          ...base,
+          type: 'correction',
+          summary: `${change.line}行目 ${label}: ${quote(change.before)} → ${quote(change.after)}`,
+          details: change,
+        });
+        break;
+      }
+      case 'master_correction': {
+        const label = columnLabels[change.key] || change.key;
+        events.push({
+          ...base,
+          type: 'master_correction',
+          summary: `${change.line}行目 ${label}: ${quote(change.before)} → ${quote(change.after)}（商品マスターと照合）`,
+          details: change,
+        });
+        break;
+      }
+      case 'line_added':
+        events.push({ ...base, type: 'correction', summary: `${change.line}行目を追加しました`, details: change });
+        break;
+      case 'line_deleted':
+        events.push({
+          ...base,
+          type: 'correction',
+          summary: `${change.line}行目（${change.values.product_name || change.values.product_code || '空欄'}）を削除しました`,
+          details: change,
+        });
+        break;
+    }
+  }
+
+  await recordAuditEvents(events);
+}
+
+export function recordExport({ username, orderId, format, template, fileName }: {
+  username: string;
+  orderId: string;
+  format: string;
+  template?: string;
+  fileName: string;
+}): Promise<void> {
+  return recordAuditEvents([{
+    type: 'export',
+    username,
+    orderId,
+    summary: `${fileName}を出力しました`,
+    details: { format, template, fileName },
+  }]);
+}
+
+export function recordApproval({ username, orderId, processorType, targets }: {
+  username: string;
+  orderId: string;
+  processorType: string;
+  // 送信する送信先の名前
+  targets: string[];
+}): Promise<void> {
+  return recordAuditEvents([{
+    type: 'approval',
+    username,
+    orderId,
+    processorType,
+    summary: `注文を承認しました（送信先: ${targets.join('・') || 'なし'}）`,
+    details: { targets },
+  }]);
+}
+
+// 送信の結果（成功・再試行を終えた失敗）と再送の操作を記録する
+export function recordDelivery({ username, orderId, delivery, action }: {
+  username: string;
+  orderId: string;
+  delivery: Delivery;
+  action: 'delivered' | 'failed' | 'resend';
+}): Promise<void> {
+  const summaries = {
+    delivered: `${delivery.targetName}へ送信しました（${delivery.attempts}回目）`,
+    failed: `${delivery.targetName}への送信に失敗しました（${delivery.error}）`,
+    resend: `${delivery.targetName}へ再送しました`,
+  };
+
+  return recordAuditEvents([{
+    type: 'delivery',
+    username,
+    orderId,
+    summary: summaries[action],
+    details: {
+      action,
+      deliveryId: delivery.id,
+      targetId: delivery.targetId,
+      targetType: delivery.targetType,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+    },
+  }]);
+}
@@ -0,0 +1,53 @@
+// 監査ログ（OCRの読み取り結果と、オペレーターによる修正・出力の記録）
+
+// extraction: OCRによる読み取り / correction: 項目の手修正・行の追加・削除
+// product_match: 商品マスターの候補の選択 / master_correction: 商品マスターとの照合による自動補正 / export: 出力
+// approval: 承認 / delivery: 送信先への送信（成功・失敗・再送）
+export type AuditEventType = 'extraction' | 'correction' | 'product_match' | 'master_correction' | 'export' | 'approval' | 'delivery';
+
+export const AUDIT_EVENT_TYPE_LABELS: Record<AuditEventType, string> = {
+  extraction: '読み取り',
+  correction: '手修正',
+  product_match: '商品の選択',
+  master_correction: '自動補正',
+  export: '出力',
+  approval: '承認',
+  delivery: '送信',
+};
+
+export interface AuditEvent {
+  id: string;
+  at: string;
+  type: AuditEventType;
+  // 操作したユーザー
+  username: string;
+  orderId?: string;
+  processorType?: string;
+  // 一覧・CSVに表示する内容
+  summary: string;
+  // 種別ごとの詳細（修正前後の値・ファイルのハッシュ・処理時間など）
+  details: Record<string, unknown>;
+  // 直前の記録のハッシュと、この記録のハッシュ（改ざん・削除の検出に使う）
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  type?: string;
+  username?: string;
+  orderId?: string;
+  // 期間（YYYY-MM-DD。両端を含む）
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AuditSearchResult {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // ハッシュの連鎖が途切れている記録（改ざん・削除の疑い）のid。問題がなければnull
+  brokenAt: string | null;
+}
@@ -0,0 +1,7 @@
+// ログインしていない（401）・権限がない（403）
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 | 404 = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
@@ -0,0 +1,41 @@
+import { cookies } from 'next/headers';
+import { AuthError } from './errors';
+import { SESSION_COOKIE, verifySessionToken } from './session';
+import { hasPermission, Permission, SessionUser } from './types';
+
+export * from './types';
+export { AuthError } from './errors';
+export { getRequiredPermission } from './permissions';
+export { createSessionToken, getSessionMaxAge, SESSION_COOKIE, verifySessionToken } from './session';
+export { authenticateUser, resolveOidcUser } from './users';
+export { completeOidcAuthorization, createOidcAuthorization, isOidcEnabled, OIDC_STATE_COOKIE } from './oidc';
+
+// ログイン後の遷移先（外部サイトへのリダイレクトに使われないよう、サイト内のパスに限る）
+export function getSafeNextPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+// リクエストのCookieからログインユーザーを取得する（未ログインの場合はnull）
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  return verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+// 監査ログに記録する操作者（proxyでログインを確認済みのため、通常は未ログインにならない）
+export async function getCurrentUsername(): Promise<string> {
+  return (await getCurrentUser())?.username || 'anonymous';
+}
+
+export async function requireUser(): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) throw new AuthError('ログインしてください', 401);
+  return user;
+}
+
+export async function requirePermission(permission: Permission): Promise<SessionUser> {
+  const user = await requireUser();
+  if (!hasPermission(user, permission)) {
+    throw new AuthError('この操作を行う権限がありません', 403);
+  }
+  return user;
+}
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeOidcAuthorization } from './oidc';
+
+const ISSUER = 'https://idp.example.com';
+const originalEnv = { ...process.env };
+
+// IdPの応答（トークンエンドポイントの応答を差し替えられるようにする）
+function stubIdp(tokenBody: Record<string, unknown>) {
+  const fetchMock = vi.fn<typeof fetch>(async input => {
+    const url = String(input);
+    if (url.endsWith('/.well-known/openid-configuration')) {
+      return Response.json({
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+      });
+    }
+    if (url === `${ISSUER}/token`) return Response.json(tokenBody);
+    if (url === `${ISSUER}/userinfo`) return Response.json({ sub: 'user-1', email: 'yamada@example.co.jp', email_verified: true });
+    return new Response(null, { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function callback() {
+  return completeOidcAuthorization(
+    'http://localhost:3000',
+    new URLSearchParams({ code: 'code-1', state: 'state-1' }),
+    `state-1.verifier-1.${encodeURIComponent('/orders')}`
+  );
+}
+
+beforeEach(() => {
+  process.env.OIDC_ISSUER = ISSUER;
+  process.env.OIDC_CLIENT_ID = 'client-1';
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  vi.unstubAllGlobals();
+});
+
+describe('completeOidcAuthorization', () => {
+  it('アクセストークンでUserInfoエンドポイントからユーザー情報を取得する', async () => {
+    const fetchMock = stubIdp({ access_token: 'token-1' });
+
+    await expect(callback()).resolves.toEqual({
+      claims: { sub: 'user-1', email: 'yamada@example.co.jp', emailVerified: true, name: undefined },
+      next: '/orders',
+    });
+    const userinfoCall = fetchMock.mock.calls.find(([url]) => String(url) === `${ISSUER}/userinfo`);
+    expect(userinfoCall?.[1]?.headers).toEqual({ Authorization: 'Bearer token-1' });
+  });
+
+  it('アクセストークンがない場合はUserInfoエンドポイントを呼び出さずに失敗する', async () => {
+    const fetchMock = stubIdp({ token_type: 'Bearer' });
+
+    await expect(callback()).rejects.toMatchObject({ name: 'AuthError', status: 401 });
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).not.toContain(`${ISSUER}/userinfo`);
+  });
+});
@@ -0,0 +1,136 @@
+import { createHash, randomBytes } from 'crypto';
+import { AuthError } from './errors';
+
+// OpenID Connect（認可コードフロー + PKCE）によるシングルサインオン
+// OIDC_ISSUER・OIDC_CLIENT_ID を設定した場合のみ有効になる
+
+// 認可リクエストの状態を保持するCookie（state・code_verifier・ログイン後の遷移先）
+export const OIDC_STATE_COOKIE = 'ocr_oidc';
+
+interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+}
+
+interface OidcMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  };
+}
+
+export function isOidcEnabled(): boolean {
+  return getOidcConfig() !== null;
+}
+
+function requireOidcConfig(): OidcConfig {
+  const config = getOidcConfig();
+  if (!config) throw new AuthError('シングルサインオンは設定されていません', 404);
+  return config;
+}
+
+function getRedirectUri(origin: string): string {
+  return process.env.OIDC_REDIRECT_URI || `${origin}/api/auth/oidc/callback`;
+}
+
+async function fetchMetadata(config: OidcConfig): Promise<OidcMetadata> {
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDCの設定を取得できませんでした（${response.status}）`);
+  }
+  return await response.json() as OidcMetadata;
+}
+
+// IdPの認可画面のURLと、コールバックで照合する状態（Cookieに保存する）
+export async function createOidcAuthorization(origin: string, next: string): Promise<{ url: string; state: string }> {
+  const config = requireOidcConfig();
+  const metadata = await fetchMetadata(config);
+
+  const state = randomBytes(16).toString('base64url');
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: getRedirectUri(origin),
+    scope: config.scopes,
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), state: [state, verifier, encodeURIComponent(next)].join('.') };
+}
+
+// 認可コードをトークンに交換し、UserInfoエンドポイントからユーザー情報を取得する
+// （トークンはTLSでトークンエンドポイントから直接受け取るため、IDトークンの署名は検証しない）
+export async function completeOidcAuthorization(
+  origin: string,
+  params: URLSearchParams,
+  savedState: string | undefined
+): Promise<{ claims: { sub: string; email?: string; emailVerified?: boolean; name?: string }; next: string }> {
+  const config = requireOidcConfig();
+  const [state, verifier, next] = (savedState || '').split('.');
+  const code = params.get('code');
+
+  if (params.get('error')) {
+    throw new AuthError(`シングルサインオンに失敗しました（${params.get('error')}）`, 401);
+  }
+  if (!code || !state || params.get('state') !== state) {
+    throw new AuthError('ログインの有効期限が切れました。もう一度ログインしてください', 401);
+  }
+
+  const metadata = await fetchMetadata(config);
+  const tokenResponse = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(origin),
+      client_id: config.clientId,
+      code_verifier: verifier,
+      ...(config.clientSecret ? { client_secret: config.clientSecret } : {}),
+    }),
+  });
+  if (!tokenResponse.ok) {
+    console.error('OIDCのトークン取得エラー:', tokenResponse.status, await tokenResponse.text());
+    throw new AuthError('シングルサインオンに失敗しました', 401);
+  }
+  const { access_token: accessToken } = await tokenResponse.json() as { access_token?: string };
+  if (!accessToken) {
+    throw new AuthError('シングルサインオンに失敗しました', 401);
+  }
+
+  const userinfoResponse = await fetch(metadata.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!userinfoResponse.ok) {
+    throw new AuthError('シングルサインオンのユーザー情報を取得できませんでした', 401);
+  }
+  const claims = await userinfoResponse.json() as { sub?: string; email?: string; email_verified?: boolean; name?: string };
+  if (!claims.sub) {
+    throw new AuthError('シングルサインオンのユーザー情報を取得できませんでした', 401);
+  }
+
+  return {
+    claims: { sub: claims.sub, email: claims.email, emailVerified: claims.email_verified, name: claims.name },
+    next: decodeURIComponent(next || '/'),
+  };
+}
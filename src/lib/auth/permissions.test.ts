@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { getRequiredPermission } from './permissions';
+import { hasPermission, SessionUser } from './types';
+
+const operator: SessionUser = { username: 'sato', name: '佐藤', role: 'operator' };
+const admin: SessionUser = { username: 'yamada', name: '山田太郎', role: 'admin' };
+
+describe('getRequiredPermission', () => {
+  it('管理者のみが使える画面・APIに必要な権限を返す', () => {
+    expect(getRequiredPermission('/api/products', 'POST')).toBe('products:write');
+    expect(getRequiredPermission('/api/products/12', 'DELETE')).toBe('products:write');
+    expect(getRequiredPermission('/api/products/import', 'POST')).toBe('products:write');
+    expect(getRequiredPermission('/api/processors/registry', 'PUT')).toBe('processors:write');
+    expect(getRequiredPermission('/processors', 'GET')).toBe('processors:write');
+    expect(getRequiredPermission('/audit', 'GET')).toBe('audit:read');
+    expect(getRequiredPermission('/api/audit/export', 'GET')).toBe('audit:read');
+  });
+
+  it('参照のみの操作や対象外のパスには権限を求めない', () => {
+    expect(getRequiredPermission('/api/products', 'GET')).toBeNull();
+    expect(getRequiredPermission('/api/products/12', 'GET')).toBeNull();
+    expect(getRequiredPermission('/api/processors', 'GET')).toBeNull();
+    expect(getRequiredPermission('/api/document-ai', 'POST')).toBeNull();
+    expect(getRequiredPermission('/auditor', 'GET')).toBeNull();
+  });
+});
+
+describe('hasPermission', () => {
+  it('管理者はすべての権限を持ち、オペレーターと未ログインは持たない', () => {
+    expect(hasPermission(admin, 'products:write')).toBe(true);
+    expect(hasPermission(admin, 'prices:read')).toBe(true);
+    expect(hasPermission(operator, 'products:write')).toBe(false);
+    expect(hasPermission(operator, 'audit:read')).toBe(false);
+    expect(hasPermission(null, 'audit:read')).toBe(false);
+  });
+});
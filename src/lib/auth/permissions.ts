@@ -0,0 +1,16 @@
+import { Permission } from './types';
+
+// 管理者のみが使える画面・API（ログインの確認とあわせて proxy で判定する）
+// APIはproxyのパスの判定に漏れがあっても操作できないよう、ルートハンドラーでも requirePermission で確認する
+const PERMISSION_RULES: { path: RegExp; methods: string[]; permission: Permission }[] = [
+  { path: /^\/api\/products(\/\d+)?$/, methods: ['POST', 'PUT', 'DELETE'], permission: 'products:write' },
+  { path: /^\/api\/products\/import$/, methods: ['POST'], permission: 'products:write' },
+  { path: /^\/api\/processors\/registry$/, methods: ['GET', 'PUT'], permission: 'processors:write' },
+  { path: /^\/processors$/, methods: ['GET'], permission: 'processors:write' },
+  { path: /^(\/api)?\/audit(\/.*)?$/, methods: ['GET'], permission: 'audit:read' },
+];
+
+export function getRequiredPermission(pathname: string, method: string): Permission | null {
+  const rule = PERMISSION_RULES.find(r => r.path.test(pathname) && r.methods.includes(method));
+  return rule?.permission || null;
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSessionToken, verifySessionToken } from './session';
+import { SessionUser } from './types';
+
+const user: SessionUser = { username: 'yamada', name: '山田太郎', role: 'admin' };
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  process.env.AUTH_SECRET = 'test-secret';
+  process.env.AUTH_SESSION_HOURS = '1';
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  vi.useRealTimers();
+});
+
+// 署名部分はそのままで、本文を書き換えたトークン
+function tamper(token: string, changes: Record<string, unknown>): string {
+  const [data, signature] = token.split('.');
+  const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  return `${Buffer.from(JSON.stringify({ ...payload, ...changes })).toString('base64url')}.${signature}`;
+}
+
+describe('セッションの署名', () => {
+  it('作成したトークンからログインユーザーを取り出す', () => {
+    expect(verifySessionToken(createSessionToken(user))).toEqual(user);
+  });
+
+  it('本文を書き換えたトークンや別の鍵で署名したトークンは無効にする', () => {
+    const token = createSessionToken({ ...user, role: 'operator' });
+    expect(verifySessionToken(tamper(token, { role: 'admin' }))).toBeNull();
+
+    process.env.AUTH_SECRET = 'other-secret';
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it('形式が正しくないトークンは無効にする', () => {
+    expect(verifySessionToken(undefined)).toBeNull();
+    expect(verifySessionToken('')).toBeNull();
+    expect(verifySessionToken('abc')).toBeNull();
+    expect(verifySessionToken(`${createSessionToken(user)}x`)).toBeNull();
+  });
+
+  it('有効期限を過ぎたトークンは無効にする', () => {
+    vi.useFakeTimers();
+    const token = createSessionToken(user);
+
+    vi.advanceTimersByTime(60 * 60 * 1000 - 1000);
+    expect(verifySessionToken(token)).toEqual(user);
+    vi.advanceTimersByTime(1000);
+    expect(verifySessionToken(token)).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { SessionUser, UserRole } from './types';
+
+// ログイン状態はサーバーに保存せず、署名したCookieで持つ
+// （形式: base64url(JSON).base64url(HMAC-SHA256)。改ざんされたCookieは署名の検証で弾く）
+
+export const SESSION_COOKIE = 'ocr_session';
+
+const ROLES: UserRole[] = ['operator', 'admin'];
+
+interface SessionPayload extends SessionUser {
+  // 有効期限（UNIX時間・秒）
+  exp: number;
+}
+
+// AUTH_SECRET が未設定の場合は起動ごとの鍵を使う（再起動するとログアウトされる）
+const store = globalThis as typeof globalThis & { __sessionSecret?: string };
+
+function getSecret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (!store.__sessionSecret) {
+    console.warn('AUTH_SECRET が設定されていないため、一時的な鍵でログイン状態を署名します');
+    store.__sessionSecret = randomBytes(32).toString('hex');
+  }
+  return store.__sessionSecret;
+}
+
+export function getSessionMaxAge(): number {
+  return (Number(process.env.AUTH_SESSION_HOURS) || 12) * 60 * 60;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+export function createSessionToken(user: SessionUser): string {
+  const payload: SessionPayload = {
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + getSessionMaxAge(),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+// 署名と有効期限を確認し、ログインユーザーを返す（無効な場合はnull）
+export function verifySessionToken(token: string | undefined): SessionUser | null {
+  const [data, signature] = (token || '').split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as SessionPayload;
+    if (!(payload.exp > Date.now() / 1000) || !ROLES.includes(payload.role)) return null;
+    return { username: payload.username, name: payload.name, role: payload.role };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,33 @@
+// ログインユーザーと権限（画面からも参照する）
+
+export type UserRole = 'operator' | 'admin';
+
+export type Permission =
+  // 商品マスターの登録・更新・削除・CSV取り込み
+  | 'products:write'
+  // 取引先設定の参照・更新
+  | 'processors:write'
+  // 商品マスターの仕入価格の閲覧
+  | 'prices:read'
+  // 監査ログの閲覧・CSV出力
+  | 'audit:read';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  operator: [],
+  admin: ['products:write', 'processors:write', 'prices:read', 'audit:read'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  operator: 'オペレーター',
+  admin: '管理者',
+};
+
+export interface SessionUser {
+  username: string;
+  name: string;
+  role: UserRole;
+}
+
+export function hasPermission(user: SessionUser | null | undefined, permission: Permission): boolean {
+  return !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+}
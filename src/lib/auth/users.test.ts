@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuthError } from './errors';
+import { resolveOidcUser } from './users';
+
+let tempDir: string;
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-users-'));
+  process.env.USERS_PATH = path.join(tempDir, 'users.json');
+  fs.writeFileSync(process.env.USERS_PATH, JSON.stringify({
+    users: [{ username: 'yamada', name: '山田太郎', role: 'admin', email: 'Yamada@Example.co.jp' }],
+  }));
+  delete process.env.OIDC_ALLOWED_DOMAINS;
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('resolveOidcUser', () => {
+  it('users.json に同じメールアドレスのユーザーがあればその権限でログインする', async () => {
+    await expect(resolveOidcUser({ sub: '1', email: 'yamada@example.co.jp' }))
+      .resolves.toEqual({ username: 'yamada', name: '山田太郎', role: 'admin' });
+  });
+
+  it('登録のないユーザーは許可したドメインの場合のみオペレーターとしてログインする', async () => {
+    await expect(resolveOidcUser({ sub: '2', email: 'sato@example.co.jp' })).rejects.toMatchObject({ status: 403 });
+
+    process.env.OIDC_ALLOWED_DOMAINS = 'example.co.jp, @partner.jp';
+    await expect(resolveOidcUser({ sub: '2', email: 'sato@example.co.jp', name: '佐藤' }))
+      .resolves.toEqual({ username: 'sato@example.co.jp', name: '佐藤', role: 'operator' });
+    await expect(resolveOidcUser({ sub: '3', email: 'suzuki@partner.jp' })).resolves.toMatchObject({ role: 'operator' });
+    await expect(resolveOidcUser({ sub: '4', email: 'tanaka@example.co.jp.evil.com' })).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('メールアドレスがない・確認されていない場合はログインさせない', async () => {
+    process.env.OIDC_ALLOWED_DOMAINS = 'example.co.jp';
+    await expect(resolveOidcUser({ sub: '5' })).rejects.toMatchObject({ status: 403 });
+    await expect(resolveOidcUser({ sub: '6', email: 'yamada@example.co.jp', emailVerified: false }))
+      .rejects.toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,82 @@
+import { scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getDataPath, readJsonFile } from '@/lib/storage';
+import { AuthError } from './errors';
+import { SessionUser, UserRole } from './types';
+
+// ローカルのユーザー（data/users.json）
+// パスワードはscryptでハッシュ化して保存する（形式: scrypt$<salt>$<hash>。scripts/add-user.mjs で登録する）
+
+interface StoredUser {
+  username: string;
+  name?: string;
+  role: UserRole;
+  // OIDCでログインしたユーザーの照合に使う
+  email?: string;
+  // OIDCでのみログインするユーザーは省略できる
+  passwordHash?: string;
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+function getUsersPath(): string {
+  return process.env.USERS_PATH || getDataPath('users.json');
+}
+
+// ユーザーの追加時に再起動しなくて済むよう、呼び出しごとにファイルを読む
+async function readUsers(): Promise<StoredUser[]> {
+  const { users } = await readJsonFile<{ users: StoredUser[] }>(getUsersPath(), { users: [] });
+  return Array.isArray(users) ? users : [];
+}
+
+function toSessionUser(user: StoredUser): SessionUser {
+  return { username: user.username, name: user.name || user.username, role: user.role === 'admin' ? 'admin' : 'operator' };
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// 存在しないユーザーでも同じだけ時間がかかるよう、ダミーのハッシュと照合する
+const DUMMY_HASH = `scrypt$${'0'.repeat(32)}$${'0'.repeat(KEY_LENGTH * 2)}`;
+
+// ユーザー名とパスワードを照合する（一致しない場合はnull）
+export async function authenticateUser(username: string, password: string): Promise<SessionUser | null> {
+  const user = (await readUsers()).find(u => u.username === username);
+  const matched = await verifyPassword(password, user?.passwordHash || DUMMY_HASH);
+  return user?.passwordHash && matched ? toSessionUser(user) : null;
+}
+
+// OIDCでのログインを許可するメールアドレスのドメイン（カンマ区切り）
+function getAllowedOidcDomains(): string[] {
+  return (process.env.OIDC_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().replace(/^@/, '').toLowerCase())
+    .filter(Boolean);
+}
+
+// OIDCでログインしたユーザー
+// users.json に同じメールアドレスの登録があればその権限、なければ OIDC_ALLOWED_DOMAINS のドメインの場合のみオペレーターとしてログインさせる
+// IdPが確認していないメールアドレス（email_verified: false）では照合しない
+export async function resolveOidcUser(claims: { sub: string; email?: string; emailVerified?: boolean; name?: string }): Promise<SessionUser> {
+  const email = claims.emailVerified === false ? undefined : claims.email?.toLowerCase();
+  if (!email) {
+    throw new AuthError('メールアドレスを確認できないため、ログインできません', 403);
+  }
+
+  const user = (await readUsers()).find(u => u.email?.toLowerCase() === email);
+  if (user) return toSessionUser(user);
+
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+  if (!getAllowedOidcDomains().includes(domain)) {
+    throw new AuthError(`このアカウント（${email}）はログインを許可されていません。管理者に登録を依頼してください`, 403);
+  }
+  return { username: email, name: claims.name || email, role: 'operator' };
+}
@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { recordExtraction } from '@/lib/audit';
+import { AnalyzeOptions, analyzeDocumentWithDetection, ExtractionResult, ProviderError } from '@/lib/ocr';
+import { saveExtractedOrder } from '@/lib/orders';
+import { AUTO_PROCESSOR_TYPE } from '@/lib/processors/detection';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { UploadError } from '@/lib/upload';
+import { TaskQueue } from './queue';
+import { BatchJob, BatchSummary } from './types';
+
+export * from './types';
+
+interface Batch {
+  id: string;
+  processorType: string;
+  createdAt: string;
+  jobs: BatchJob[];
+  results: Map<string, ExtractionResult>;
+}
+
+interface BatchFile {
+  name: string;
+  type: string;
+  content: Buffer;
+}
+
+// 完了したバッチを保持する時間（ミリ秒）
+const BATCH_TTL_MS = 6 * 60 * 60 * 1000;
+
+// 開発時のホットリロードでジョブが消えないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __batches?: Map<string, Batch>;
+  __batchQueue?: TaskQueue;
+};
+
+const batches = (store.__batches ??= new Map<string, Batch>());
+const queue = (store.__batchQueue ??= new TaskQueue(Number(process.env.BATCH_CONCURRENCY) || 2));
+
+function isCompleted(batch: Batch): boolean {
+  return batch.jobs.every(job => job.status === 'done' || job.status === 'failed');
+}
+
+// 保持期間を過ぎた完了済みバッチを破棄する
+function pruneBatches(): void {
+  const threshold = Date.now() - BATCH_TTL_MS;
+  for (const [id, batch] of batches) {
+    if (isCompleted(batch) && new Date(batch.createdAt).getTime() < threshold) {
+      batches.delete(id);
+    }
+  }
+}
+
+function toSummary(batch: Batch): BatchSummary {
+  return {
+    id: batch.id,
+    processorType: batch.processorType,
+    createdAt: batch.createdAt,
+    jobs: batch.jobs.map(job => ({ ...job })),
+    completed: isCompleted(batch),
+  };
+}
+
+// ファイルをまとめてキューに登録し、バッチを作成する
+// 各ファイルの読み取りは、登録したユーザー（username）の操作として監査ログに記録する
+// processorを指定しない場合は、ファイルごとに取引先を自動判定する
+// consumePagesはOCRプロバイダーを呼び出すファイルごとに呼ぶ（利用量の上限を超えたファイルは失敗にする）
+export function createBatch(
+  files: BatchFile[],
+  { processor, processors, consumePages }: {
+    processor?: ProcessorConfig;
+    processors: ProcessorConfig[];
+    consumePages?: AnalyzeOptions['consumePages'];
+  },
+  username: string
+): BatchSummary {
+  pruneBatches();
+
+  const now = new Date().toISOString();
+  const batch: Batch = {
+    id: randomUUID(),
+    processorType: processor?.id || AUTO_PROCESSOR_TYPE,
+    createdAt: now,
+    jobs: [],
+    results: new Map(),
+  };
+
+  for (const file of files) {
+    const job: BatchJob = {
+      id: randomUUID(),
+      fileName: file.name,
+      size: file.content.length,
+      status: 'queued',
+      createdAt: now,
+    };
+    batch.jobs.push(job);
+
+    queue.enqueue(async () => {
+      job.status = 'processing';
+      job.startedAt = new Date().toISOString();
+      const startedAt = Date.now();
+
+      // 読み取りに使った取引先（自動判定の場合は判定結果）
+      let usedProcessor = processor;
+
+      try {
+        const analysis = await analyzeDocumentWithDetection({
+          content: file.content,
+          mimeType: file.type,
+          processor,
+          processors,
+        }, { consumePages });
+        const { document, preprocessed, result } = analysis;
+        usedProcessor = analysis.processor;
+        const order = await saveExtractedOrder({ file, preprocessed, processor: usedProcessor, result, document });
+        batch.results.set(job.id, result);
+        job.orderId = order.id;
+        job.processorType = usedProcessor.id;
+        job.cache = result.cache.status;
+        job.status = 'done';
+      } catch (error) {
+        console.error(`バッチ処理エラー（${file.name}）:`, error);
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        job.errorCode = error instanceof ProviderError ? error.code
+          : error instanceof UploadError && error.code === 'rate_limited' ? 'rate_limited'
+          : 'processing_failed';
+      } finally {
+        job.finishedAt = new Date().toISOString();
+      }
+
+      await recordExtraction({
+        username,
+        processor: usedProcessor,
+        fileName: file.name,
+        content: file.content,
+        orderId: job.orderId,
+        durationMs: Date.now() - startedAt,
+        result: batch.results.get(job.id),
+        ...(job.error ? { error: { code: job.errorCode || 'processing_failed', message: job.error } } : {}),
+      }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+    });
+  }
+
+  batches.set(batch.id, batch);
+  return toSummary(batch);
+}
+
+export function getBatch(batchId: string): BatchSummary | undefined {
+  const batch = batches.get(batchId);
+  return batch && toSummary(batch);
+}
+
+export function getJobResult(batchId: string, jobId: string): ExtractionResult | undefined {
+  return batches.get(batchId)?.results.get(jobId);
+}
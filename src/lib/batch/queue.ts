@@ -0,0 +1,26 @@
+// 同時実行数を制限して非同期タスクを順番に実行するキュー
+export class TaskQueue {
+  private running = 0;
+  private readonly pending: (() => Promise<void>)[] = [];
+
+  constructor(private readonly concurrency: number) {}
+
+  enqueue(task: () => Promise<void>): void {
+    this.pending.push(task);
+    this.next();
+  }
+
+  private next(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift()!;
+      this.running++;
+
+      task()
+        .catch(error => console.error('キューのタスク実行エラー:', error))
+        .finally(() => {
+          this.running--;
+          this.next();
+        });
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { OcrCacheStatus } from '@/lib/ocr/cache';
+import type { ProviderErrorCode } from '@/lib/ocr/types';
+
+// バッチ処理のジョブ状態（API・画面で共通）
+export type JobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  size: number;
+  status: JobStatus;
+  error?: string;
+  // エラーの分類（OCRプロバイダーの呼び出しエラーの場合はその code、利用量の上限に達した場合は rate_limited）
+  errorCode?: ProviderErrorCode | 'rate_limited' | 'processing_failed';
+  // 注文履歴に保存した注文のID（完了時）
+  orderId?: string;
+  // 読み取りに使った取引先（自動判定の場合は判定結果、完了時）
+  processorType?: string;
+  // OCR結果のキャッシュを使ったかどうか（完了時）
+  cache?: OcrCacheStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface BatchSummary {
+  id: string;
+  // 指定された取引先（自動判定の場合は auto）
+  processorType: string;
+  createdAt: string;
+  jobs: BatchJob[];
+  // 全ジョブが done / failed になったらtrue
+  completed: boolean;
+}
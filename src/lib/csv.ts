@@ -0,0 +1,68 @@
+// CSVの読み書き（RFC 4180準拠のダブルクォート・改行を含むセルに対応）
+
+// カンマや改行を含む場合はダブルクォートで囲む
+export function escapeCsvValue(value: string): string {
+  if (value.includes(',') || value.includes('\n') || value.includes('\r') || value.includes('"')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function toCsv(rows: string[][], lineEnding = '\n'): string {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join(lineEnding);
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  // 先頭のBOMは除去する
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  // 空行は除外する
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// UTF-8（BOM有無）またはShift_JIS（Excelの既定）のCSVをデコードする
+export function decodeCsv(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+}
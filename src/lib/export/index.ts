@@ -0,0 +1,373 @@
+import ExcelJS from 'exceljs';
+import fs from 'fs';
+import iconv from 'iconv-lite';
+import path from 'path';
+import { toCsv } from '@/lib/csv';
+import { LineWarning, summarizeOrderTotal, validateLine } from '@/lib/line-validation';
+import {
+  createDraft,
+  findMatchedProduct,
+  getEditedKeys,
+  getLineMatchQuery,
+  getRowMatchQuery,
+  OrderDraft,
+  restoreDraft,
+} from '@/lib/order-draft';
+import {
+  getDuplicateOrders,
+  getOrder,
+  OrderDuplicateError,
+  OrderRecord,
+  OrderValidationError,
+  updateOrder,
+} from '@/lib/orders';
+import { getProcessorConfig, getHeaderFieldKey, ProcessorConfig, ProcessorRegistryError } from '@/lib/processors';
+import { getAllProducts } from '@/lib/products';
+import { findProductCandidates } from '@/lib/products/matching';
+import { formatFieldValue, PurchaseOrder, PurchaseOrderField, toPurchaseOrder } from '@/lib/purchase-order';
+import { CsvEncoding, CsvTemplate, ExportFormat, ExportTemplateColumn, PublicCsvTemplate } from './types';
+
+export * from './types';
+
+// CSVテンプレートの読み込みエラー
+export class ExportTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportTemplateError';
+  }
+}
+
+// 出力したファイル
+export interface ExportFile {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+const CSV_ENCODINGS: CsvEncoding[] = ['utf-8', 'utf-8-bom', 'shift_jis'];
+
+// 列の取得元として指定できる値
+const COLUMN_SOURCE_PATTERN = /^(header\.\S+|line\.\S+|supplier\.(id|name)|order\.(id|fileName))$/;
+
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv',
+};
+
+function getTemplatesPath(): string {
+  return process.env.EXPORT_TEMPLATES_PATH || path.join(process.cwd(), 'data', 'export-templates.json');
+}
+
+function validateTemplate(template: CsvTemplate, index: number): void {
+  const label = template?.id || `#${index}`;
+
+  if (!template?.id || !template.name) {
+    throw new ExportTemplateError(`CSVテンプレート ${label} に id または name がありません`);
+  }
+  if (!CSV_ENCODINGS.includes(template.encoding)) {
+    throw new ExportTemplateError(`CSVテンプレート ${label} の encoding が不正です: ${template.encoding}`);
+  }
+  if (template.lineEnding && !['lf', 'crlf'].includes(template.lineEnding)) {
+    throw new ExportTemplateError(`CSVテンプレート ${label} の lineEnding が不正です: ${template.lineEnding}`);
+  }
+  if (template.columns !== undefined && (!Array.isArray(template.columns) || template.columns.length === 0)) {
+    throw new ExportTemplateError(`CSVテンプレート ${label} の columns が不正です`);
+  }
+  const invalidColumn = (template.columns || []).find(column =>
+    !column?.label || (column.value === undefined) === (column.source === undefined) ||
+    (column.source !== undefined && !COLUMN_SOURCE_PATTERN.test(column.source))
+  );
+  if (invalidColumn) {
+    throw new ExportTemplateError(`CSVテンプレート ${label} の列 ${invalidColumn.label || ''} の source / value が不正です`);
+  }
+}
+
+// CSVテンプレートを読み込む
+// 取引先設定と同様に、呼び出しごとにファイルを読む
+export async function loadCsvTemplates(): Promise<CsvTemplate[]> {
+  const fileContents = await fs.promises.readFile(getTemplatesPath(), 'utf8');
+  const { templates } = JSON.parse(fileContents) as { templates: CsvTemplate[] };
+
+  if (!Array.isArray(templates)) {
+    throw new ExportTemplateError('CSVテンプレートの形式が不正です');
+  }
+
+  templates.forEach(validateTemplate);
+
+  const ids = new Set<string>();
+  for (const { id } of templates) {
+    if (ids.has(id)) {
+      throw new ExportTemplateError(`CSVテンプレートのidが重複しています: ${id}`);
+    }
+    ids.add(id);
+  }
+
+  return templates;
+}
+
+export function toPublicCsvTemplate(template: CsvTemplate): PublicCsvTemplate {
+  return { id: template.id, name: template.name };
+}
+
+// 出力する注文書（手修正後の値と、明細行ごとの手修正項目・チェック結果）
+interface PreparedOrder {
+  record: OrderRecord;
+  processor: ProcessorConfig;
+  order: PurchaseOrder;
+  lines: { edited: string[]; warnings: LineWarning[] }[];
+  total: { amount: number; calculated: number };
+}
+
+// 保存した手修正データ（未保存の場合は解析結果）から、画面と同じ内容の注文書を作成する
+// includePurchasePrice: false の場合は、仕入価格との比較の警告（仕入価格を含む）を除く（仕入価格を閲覧できないユーザーの出力用）
+async function prepareOrder(record: OrderRecord, { includePurchasePrice = true } = {}): Promise<PreparedOrder> {
+  const processor = await getProcessorConfig(record.processorType);
+  if (!processor) {
+    throw new ProcessorRegistryError(`取引先設定が見つかりません: ${record.processorType}`);
+  }
+
+  const products = await getAllProducts();
+  const draft: OrderDraft = record.draft
+    ? restoreDraft(record.draft, record.draft.rows.map(row =>
+      findProductCandidates(getRowMatchQuery(row), processor.productCode, products)
+    ))
+    : createDraft(record.result.purchaseOrder, processor, record.result.purchaseOrder.lines.map(line =>
+      findProductCandidates(getLineMatchQuery(line), processor.productCode, products)
+    ));
+
+  const columnKeys = processor.itemColumns.map(col => col.key);
+  const hidePriceWarnings = !includePurchasePrice && processor.priceCheck?.field === 'purchase_price';
+  const lines = draft.rows.map(row => ({
+    edited: getEditedKeys(row, columnKeys).map(key => processor.itemColumns.find(col => col.key === key)?.label || key),
+    warnings: validateLine(row.values, findMatchedProduct(row, processor.productCode).matchedProduct, processor.priceCheck)
+      .filter(warning => !(hidePriceWarnings && warning.code === 'price_mismatch')),
+  }));
+
+  return {
+    record,
+    processor,
+    order: toPurchaseOrder(draft, processor),
+    lines,
+    total: summarizeOrderTotal(draft.rows.map(row => row.values)),
+  };
+}
+
+// YYYY-MM-DD を書式（yyyy / yy / MM / M / dd / d）に従って変換する
+export function formatDate(isoDate: string, format: string): string {
+  const [year, month, day] = isoDate.split('-');
+  const tokens: Record<string, string> = {
+    yyyy: year,
+    yy: year.slice(-2),
+    MM: month,
+    M: String(Number(month)),
+    dd: day,
+    d: String(Number(day)),
+  };
+  return format.replace(/yyyy|yy|MM|M|dd|d/g, token => tokens[token]);
+}
+
+function isDateField(prepared: PreparedOrder, source: string): boolean {
+  const [scope, ...rest] = source.split('.');
+  const key = rest.join('.');
+  const field = scope === 'header'
+    ? prepared.processor.headerFields.find(f => getHeaderFieldKey(f) === key)
+    : prepared.processor.itemColumns.find(col => col.key === key);
+  return field?.type === 'date';
+}
+
+// 列の値を取得する（日付の項目はテンプレートの書式に変換する）
+function getColumnValue(
+  prepared: PreparedOrder,
+  column: ExportTemplateColumn,
+  lineIndex: number,
+  dateFormat: string
+): string {
+  if (column.value !== undefined) return column.value;
+
+  const source = column.source || '';
+  const formatField = (field: PurchaseOrderField | undefined) => {
+    if (field && typeof field.value === 'string' && isDateField(prepared, source)) {
+      const date = formatDate(field.value, dateFormat);
+      return field.remark ? `${date} ${field.remark}` : date;
+    }
+    return formatFieldValue(field);
+  };
+
+  if (source.startsWith('header.')) return formatField(prepared.order.header[source.substring('header.'.length)]);
+
+  switch (source) {
+    case 'line.no': return String(lineIndex + 1);
+    case 'line.edited': return prepared.lines[lineIndex].edited.join(' ');
+    case 'line.warnings': return prepared.lines[lineIndex].warnings.map(warning => warning.message).join(' / ');
+    case 'supplier.id': return prepared.processor.id;
+    case 'supplier.name': return prepared.processor.name;
+    case 'order.id': return prepared.record.id;
+    case 'order.fileName': return prepared.record.fileName;
+  }
+
+  return formatField(prepared.order.lines[lineIndex].fields[source.substring('line.'.length)]);
+}
+
+// 列を指定しないテンプレートは、明細のカラム・手修正項目・警告を出力する
+function getTemplateColumns(template: CsvTemplate, processor: ProcessorConfig): ExportTemplateColumn[] {
+  return template.columns || [
+    ...processor.itemColumns.map(col => ({ label: col.label, source: `line.${col.key}` })),
+    { label: '手修正項目', source: 'line.edited' },
+    { label: '警告', source: 'line.warnings' },
+  ];
+}
+
+// テンプレートに従って、明細1行につき1行のCSVを作成する
+function renderCsv(prepared: PreparedOrder, template: CsvTemplate): Buffer {
+  const columns = getTemplateColumns(template, prepared.processor);
+  const dateFormat = template.dateFormat || DEFAULT_DATE_FORMAT;
+  const emptyValue = template.emptyValue ?? '';
+
+  const rows = prepared.order.lines.map((_, lineIndex) => columns.map(column =>
+    getColumnValue(prepared, column, lineIndex, dateFormat) || emptyValue
+  ));
+  const text = toCsv(
+    template.headerRow === false ? rows : [columns.map(column => column.label), ...rows],
+    template.lineEnding === 'crlf' ? '\r\n' : '\n'
+  );
+
+  switch (template.encoding) {
+    case 'shift_jis':
+      // 基幹システムで使われる機種依存文字（①、㈱など）も変換できるようWindows-31Jで出力する
+      return iconv.encode(text, 'cp932');
+    case 'utf-8-bom':
+      // BOM付きUTF-8でExcelでも文字化けしないようにする
+      return Buffer.from(`\uFEFF${text}`, 'utf8');
+    default:
+      return Buffer.from(text, 'utf8');
+  }
+}
+
+// Excelのセルの値（数値・日付は型変換後の値、それ以外は文字列）
+function toCellValue(field: PurchaseOrderField | undefined, isDate: boolean): ExcelJS.CellValue {
+  if (!field || field.value === null || field.remark) return formatFieldValue(field) || null;
+  if (isDate && typeof field.value === 'string') return new Date(`${field.value}T00:00:00Z`);
+  return field.value;
+}
+
+function styleHeaderRow(sheet: ExcelJS.Worksheet): void {
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+// ヘッダー項目のシート（注文書）と明細のシート（明細）を持つExcelファイルを作成する
+async function renderXlsx(prepared: PreparedOrder): Promise<Buffer> {
+  const { processor, order, record } = prepared;
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const headerSheet = workbook.addWorksheet('注文書');
+  headerSheet.columns = [{ header: '項目', width: 20 }, { header: '値', width: 40 }];
+  headerSheet.addRows([
+    ['取引先', processor.name],
+    ['ファイル', record.fileName],
+    ...processor.headerFields.map(field => [
+      field.label,
+      toCellValue(order.header[getHeaderFieldKey(field)], field.type === 'date'),
+    ]),
+    ['合計金額', prepared.total.amount],
+  ]);
+  headerSheet.eachRow(row => {
+    if (row.getCell(2).value instanceof Date) row.getCell(2).numFmt = 'yyyy/mm/dd';
+  });
+  styleHeaderRow(headerSheet);
+
+  const lineSheet = workbook.addWorksheet('明細');
+  lineSheet.columns = [
+    { header: 'No', width: 6 },
+    ...processor.itemColumns.map(col => ({
+      header: col.label,
+      width: col.key === 'product_name' ? 40 : 14,
+      style: col.type === 'date' ? { numFmt: 'yyyy/mm/dd' } : {},
+    })),
+    { header: '手修正項目', width: 20 },
+    { header: '警告', width: 60 },
+  ];
+  order.lines.forEach((line, lineIndex) => {
+    lineSheet.addRow([
+      lineIndex + 1,
+      ...processor.itemColumns.map(col => toCellValue(line.fields[col.key], col.type === 'date')),
+      prepared.lines[lineIndex].edited.join(' '),
+      prepared.lines[lineIndex].warnings.map(warning => warning.message).join(' / '),
+    ]);
+  });
+  styleHeaderRow(lineSheet);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// 型変換後の注文書に、取引先・明細行ごとの手修正項目とチェック結果を加えたデータ
+function toOrderJson(prepared: PreparedOrder) {
+  const { record, processor, order } = prepared;
+  return {
+    orderId: record.id,
+    supplier: { id: processor.id, name: processor.name },
+    fileName: record.fileName,
+    exportedAt: new Date().toISOString(),
+    purchaseOrder: order,
+    total: prepared.total,
+    lines: prepared.lines.map((line, lineIndex) => ({ no: lineIndex + 1, ...line })),
+  };
+}
+
+function renderJson(prepared: PreparedOrder): Buffer {
+  return Buffer.from(JSON.stringify(toOrderJson(prepared), null, 2) + '\n', 'utf8');
+}
+
+// 保存した注文をJSON出力と同じ形式のデータにする（承認した注文の送信に使う）
+export async function buildOrderJson(id: string): Promise<ReturnType<typeof toOrderJson>> {
+  return toOrderJson(await prepareOrder(await getOrder(id)));
+}
+
+// 出力ファイル名（例: 注文書_A-12345_20251015.xlsx）
+function getExportFileName(record: OrderRecord, extension: string): string {
+  const orderNumber = record.orderNumber.normalize('NFKC').trim().replace(/[\\/:*?"<>|\s]+/g, '_');
+  const today = formatDate(new Date().toISOString().slice(0, 10), 'yyyyMMdd');
+  return `注文書_${orderNumber || record.id.slice(0, 8)}_${today}.${extension}`;
+}
+
+// 保存した注文を指定の形式で出力し、出力済みにする
+// 重複の可能性がある注文は確認済みにするまで出力しない
+// includePurchasePrice: 出力するユーザーが仕入価格を閲覧できるかどうか（できない場合は警告の列に仕入価格を含めない）
+export async function exportOrder(
+  id: string,
+  format: unknown,
+  templateId?: unknown,
+  { includePurchasePrice = false }: { includePurchasePrice?: boolean } = {}
+): Promise<ExportFile> {
+  if (!Object.keys(CONTENT_TYPES).includes(format as string)) {
+    throw new OrderValidationError(`無効な出力形式です: ${format}`);
+  }
+
+  const record = await getOrder(id);
+
+  if (!record.duplicateConfirmedAt) {
+    const duplicates = await getDuplicateOrders(id);
+    if (duplicates.length > 0) throw new OrderDuplicateError(duplicates);
+  }
+
+  let template: CsvTemplate | undefined;
+  if (format === 'csv') {
+    template = (await loadCsvTemplates()).find(t => t.id === templateId);
+    if (!template) throw new OrderValidationError(`CSVテンプレートが見つかりません: ${templateId}`);
+  }
+
+  const prepared = await prepareOrder(record, { includePurchasePrice });
+  const content = template
+    ? renderCsv(prepared, template)
+    : format === 'xlsx' ? await renderXlsx(prepared) : renderJson(prepared);
+  const contentType = template
+    ? `${CONTENT_TYPES.csv}; charset=${template.encoding === 'shift_jis' ? 'Shift_JIS' : 'utf-8'}`
+    : CONTENT_TYPES[format as ExportFormat];
+
+  await updateOrder(id, { status: 'exported' });
+  return { content, contentType, fileName: getExportFileName(record, format as ExportFormat) };
+}
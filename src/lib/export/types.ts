@@ -0,0 +1,43 @@
+// 注文書の出力形式とCSVテンプレート
+// テンプレートは data/export-templates.json に定義し、API・画面の両方から参照する
+
+export type ExportFormat = 'xlsx' | 'json' | 'csv';
+
+// CSVの文字コード（utf-8-bom: Excelで開く用のBOM付きUTF-8）
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'shift_jis';
+
+// CSVの列定義
+// sourceは値の取得元、valueは固定値（どちらか一方を指定する）
+//   header.<key>   ヘッダー項目（"header.order_date"、"header.recipient_company.name" など）
+//   line.<key>     明細のカラム（"line.product_code" など）
+//   line.no        明細の行番号（1から）
+//   line.edited    手修正した項目名
+//   line.warnings  数量・金額のチェック結果
+//   supplier.id / supplier.name / order.id / order.fileName
+export interface ExportTemplateColumn {
+  label: string;
+  source?: string;
+  value?: string;
+}
+
+export interface CsvTemplate {
+  id: string;
+  name: string;
+  encoding: CsvEncoding;
+  // 日付の書式（yyyy / yy / MM / M / dd / d。既定: yyyy-MM-dd）
+  dateFormat?: string;
+  // 見出し行を出力するか（既定: true）
+  headerRow?: boolean;
+  // 改行コード（既定: lf）
+  lineEnding?: 'lf' | 'crlf';
+  // 空欄の場合に出力する値（既定: 空文字）
+  emptyValue?: string;
+  // 省略した場合は明細のカラム・手修正項目・警告を取引先設定の順に出力する
+  columns?: ExportTemplateColumn[];
+}
+
+// 画面に返すテンプレート情報
+export interface PublicCsvTemplate {
+  id: string;
+  name: string;
+}
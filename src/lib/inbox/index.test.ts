@@ -0,0 +1,188 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrder } from '@/lib/orders';
+import { checkInbox, getInboxState, InboxItemStateError, retryInboxItem } from './index';
+
+// メールの取り込みを、.eml ファイルを置いたフォルダとフィクスチャのプロバイダーで確認する
+
+const DEFAULT_FIXTURE = path.join(process.cwd(), 'fixtures', 'document-ai', 'default.json');
+const REGISTRY = path.join(process.cwd(), 'data', 'processors.json');
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+// 添付ファイル付きのメール（RFC 822）
+function createMail({ from, subject, attachments }: {
+  from: string;
+  subject: string;
+  attachments: { fileName: string; type: string; content: Buffer }[];
+}): string {
+  const boundary = 'boundary-test';
+  return [
+    `From: ${from}`,
+    'To: orders@example.co.jp',
+    `Subject: ${subject}`,
+    'Date: Wed, 15 Oct 2025 09:00:00 +0900',
+    `Message-ID: <${subject}@example.co.jp>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'Order attached.',
+    ...attachments.flatMap(({ fileName, type, content }) => [
+      `--${boundary}`,
+      `Content-Type: ${type}; name="${fileName}"`,
+      `Content-Disposition: attachment; filename="${fileName}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      content.toString('base64'),
+    ]),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+let tempDir: string;
+let mailDir: string;
+let processorIds: string[];
+const originalEnv = { ...process.env };
+const store = globalThis as typeof globalThis & {
+  __inboxPoller?: ReturnType<typeof setInterval>;
+  __inboxCycle?: { received: Promise<void> };
+};
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inbox-'));
+  mailDir = path.join(tempDir, 'mail');
+  fs.mkdirSync(mailDir);
+
+  // 2番目の取引先は送信元のドメインで判定する
+  const { processors } = JSON.parse(fs.readFileSync(REGISTRY, 'utf8'));
+  processors[1].detection = { ...processors[1].detection, senders: ['@supplier.example.jp'] };
+  processorIds = processors.map((processor: { id: string }) => processor.id);
+  fs.writeFileSync(path.join(tempDir, 'processors.json'), JSON.stringify({ processors }));
+
+  process.env.OCR_PROVIDER = 'fixture';
+  process.env.OCR_FIXTURE_DIR = path.dirname(DEFAULT_FIXTURE);
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  process.env.PROCESSOR_REGISTRY_PATH = path.join(tempDir, 'processors.json');
+  process.env.MAIL_INGEST_SOURCE = 'maildir';
+  process.env.MAIL_INGEST_MAILDIR = mailDir;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  // バックグラウンドの読み取りが終わってから片付ける
+  await vi.waitFor(() => {
+    if (store.__inboxCycle) throw new Error('取り込み中です');
+  });
+  clearInterval(store.__inboxPoller);
+  delete store.__inboxPoller;
+  process.env = { ...originalEnv };
+  vi.restoreAllMocks();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+// 受信したメールの読み取りが終わるまで待つ
+async function checkInboxAndWait() {
+  await checkInbox();
+  await vi.waitFor(() => {
+    if (store.__inboxCycle) throw new Error('取り込み中です');
+  }, { timeout: 10000, interval: 50 });
+  return getInboxState();
+}
+
+describe('メールの取り込み', () => {
+  it('添付ファイルを読み取って注文履歴に保存し、読んだメールはフォルダから移す', async () => {
+    fs.writeFileSync(path.join(mailDir, 'order.eml'), createMail({
+      from: 'Sales <sales@supplier.example.jp>',
+      subject: 'order-1',
+      attachments: [{ fileName: 'order.pdf', type: 'application/pdf', content: await createPdf(1) }],
+    }));
+
+    const state = await checkInboxAndWait();
+    expect(state.source).toEqual({ type: 'maildir', location: mailDir });
+    expect(state.lastError).toBeUndefined();
+    expect(state.items).toHaveLength(1);
+
+    const [item] = state.items;
+    expect(item).toMatchObject({
+      status: 'done',
+      from: 'sales@supplier.example.jp',
+      subject: 'order-1',
+      fileName: 'order.pdf',
+      attempts: 1,
+      processorType: processorIds[1],
+      processorSource: 'sender',
+      orderStatus: 'unreviewed',
+    });
+    expect((await getOrder(item.orderId!)).fileName).toBe('order.pdf');
+    expect(fs.existsSync(path.join(mailDir, 'order.eml'))).toBe(false);
+    expect(fs.existsSync(path.join(mailDir, 'processed', 'order.eml'))).toBe(true);
+  });
+
+  it('添付ファイルのないメールや読み取れない添付ファイルは、取り込み失敗として記録する', async () => {
+    fs.writeFileSync(path.join(mailDir, 'a.eml'), createMail({ from: 'info@example.com', subject: 'no-attachment', attachments: [] }));
+    fs.writeFileSync(path.join(mailDir, 'b.eml'), createMail({
+      from: 'info@example.com',
+      subject: 'broken',
+      attachments: [{ fileName: 'broken.pdf', type: 'application/pdf', content: Buffer.from('not a pdf') }],
+    }));
+
+    const { items } = await checkInboxAndWait();
+    expect(items.find(item => item.subject === 'no-attachment')).toMatchObject({ status: 'failed', errorCode: 'file_missing' });
+    expect(items.find(item => item.subject === 'broken')).toMatchObject({ status: 'failed', errorCode: 'unsupported_type', attempts: 1 });
+  });
+
+  it('取り込み済みのメールは、フォルダに残っていても二重に取り込まない', async () => {
+    const mail = createMail({
+      from: 'info@example.com',
+      subject: 'order-2',
+      attachments: [{ fileName: 'order.pdf', type: 'application/pdf', content: await createPdf(1) }],
+    });
+    fs.writeFileSync(path.join(mailDir, 'order.eml'), mail);
+    await checkInboxAndWait();
+
+    // 受信済みにできなかった（フォルダから移せなかった）場合と同じ状態にする
+    fs.writeFileSync(path.join(mailDir, 'order.eml'), mail);
+    const { items } = await checkInboxAndWait();
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ status: 'done', processorSource: 'default', processorType: processorIds[0] });
+  });
+});
+
+describe('retryInboxItem', () => {
+  it('取り込みに失敗した添付ファイルを読み取り直し、失敗していないものは断る', async () => {
+    fs.writeFileSync(path.join(mailDir, 'order.eml'), createMail({
+      from: 'info@example.com',
+      subject: 'too-many-pages',
+      attachments: [{ fileName: 'long.pdf', type: 'application/pdf', content: await createPdf(3) }],
+    }));
+    process.env.UPLOAD_MAX_PAGES = '2';
+
+    const [failed] = (await checkInboxAndWait()).items;
+    expect(failed).toMatchObject({ status: 'failed', errorCode: 'too_many_pages' });
+
+    // 上限を変更してから読み取り直す
+    process.env.UPLOAD_MAX_PAGES = '3';
+    await expect(retryInboxItem(failed.id)).resolves.toMatchObject({ status: 'queued', attempts: 0 });
+    await vi.waitFor(() => {
+      if (store.__inboxCycle) throw new Error('取り込み中です');
+    }, { timeout: 10000, interval: 50 });
+
+    const [done] = (await getInboxState()).items;
+    expect(done).toMatchObject({ status: 'done', attempts: 1 });
+    await expect(retryInboxItem(done.id)).rejects.toBeInstanceOf(InboxItemStateError);
+  });
+});
@@ -0,0 +1,381 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import { Attachment, simpleParser } from 'mailparser';
+import { recordExtraction } from '@/lib/audit';
+import { analyzeDocumentWithDetection } from '@/lib/ocr/extract';
+import { ProviderError } from '@/lib/ocr/types';
+import { getOrderSummaries, saveExtractedOrder } from '@/lib/orders';
+import { findProcessorBySender, loadProcessorRegistry, ProcessorConfig } from '@/lib/processors';
+import { getDataPath, readJsonFile, withFileLock, writeBinaryFile, writeJsonFile } from '@/lib/storage';
+import { getUploadErrorCode, validateUploadContent } from '@/lib/upload';
+import { getMailSource, MailSource, ReceivedMail } from './sources';
+import { InboxItem, InboxProcessorSource, InboxState } from './types';
+
+export * from './types';
+export { MailSourceError } from './sources';
+
+// メールで受信した注文書の取り込み
+// 受信元（Maildir / .eml のフォルダ / IMAP）から新しいメールを定期的に読み、PDF・画像の添付ファイルを1件ずつ読み取って注文履歴に保存する
+// 取り込んだ注文は「未確認」として受信一覧（確認待ち）に並び、画面で内容を確認する
+// 状態は data/inbox/ に保存し、読み取り前の添付ファイルも保存して再起動後・失敗後に読み取り直せるようにする
+
+export class InboxItemNotFoundError extends Error {
+  constructor(id: string) {
+    super(`受信した注文書が見つかりません（id: ${id}）`);
+    this.name = 'InboxItemNotFoundError';
+  }
+}
+
+// 受信した注文書の状態により操作できない
+export class InboxItemStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InboxItemStateError';
+  }
+}
+
+interface StoredInboxState {
+  lastCheckedAt?: string;
+  lastError?: string;
+  // 取り込み済みのメールのキー（受信元で受信済みにできなかった場合に二重に取り込まないため）
+  seen: string[];
+}
+
+// 取り込み済みのキーを保持する件数（古いものから捨てる）
+// 受信元は取り込んだメールをフォルダから移す・既読にするため、キーは受信済みにできなかった直近のメールの分だけあればよい
+const MAX_SEEN_KEYS = 5000;
+
+export function getInboxSettings() {
+  return {
+    // 新しいメールを確認する間隔
+    pollMs: (Number(process.env.MAIL_INGEST_INTERVAL_SECONDS) || 60) * 1000,
+    // 1回の確認で読むメールの上限
+    maxMessages: Number(process.env.MAIL_INGEST_MAX_MESSAGES) || 20,
+    // 一時的な障害で読み取りに失敗した場合に、自動で読み取り直す回数の上限（最初の読み取りを含む）
+    maxAttempts: Number(process.env.MAIL_INGEST_MAX_ATTEMPTS) || 3,
+    // 監査ログに記録するユーザー名
+    username: process.env.MAIL_INGEST_USERNAME || 'mail',
+  };
+}
+
+const getItemsPath = () => getDataPath('inbox', 'items.json');
+const getStatePath = () => getDataPath('inbox', 'state.json');
+
+// idはパスの一部になるため、UUID以外は受け付けない
+function getAttachmentPath(id: string): string {
+  if (!/^[0-9a-f-]{36}$/.test(id)) throw new InboxItemNotFoundError(id);
+  return getDataPath('inbox', 'attachments', id);
+}
+
+async function readItems(): Promise<InboxItem[]> {
+  return (await readJsonFile<{ items: InboxItem[] }>(getItemsPath(), { items: [] })).items;
+}
+
+// 受信した注文書を更新する（新しい順に保存する）
+function updateItems<T>(update: (items: InboxItem[]) => T | Promise<T>): Promise<T> {
+  return withFileLock(getItemsPath(), async () => {
+    const items = await readItems();
+    const result = await update(items);
+    await writeJsonFile(getItemsPath(), { items });
+    return result;
+  });
+}
+
+function updateItem(id: string, changes: Partial<InboxItem>): Promise<InboxItem> {
+  return updateItems(items => {
+    const index = items.findIndex(item => item.id === id);
+    if (index < 0) throw new InboxItemNotFoundError(id);
+    items[index] = { ...items[index], ...changes, updatedAt: new Date().toISOString() };
+    return items[index];
+  });
+}
+
+function updateState(update: (state: StoredInboxState) => void): Promise<void> {
+  return withFileLock(getStatePath(), async () => {
+    const state = await readJsonFile<StoredInboxState>(getStatePath(), { seen: [] });
+    update(state);
+    state.seen = state.seen.slice(-MAX_SEEN_KEYS);
+    await writeJsonFile(getStatePath(), state);
+  });
+}
+
+// 注文書として読み取る添付ファイル（本文に埋め込まれたロゴなどの画像は除く）
+function isDocumentAttachment(attachment: Attachment): boolean {
+  if (attachment.related) return false;
+  const type = attachment.contentType.toLowerCase();
+  return type === 'application/pdf' || type.startsWith('image/') || type === 'application/octet-stream';
+}
+
+// メールを解析し、添付ファイルごとに読み取り待ちとして登録する
+async function ingestMail({ key, raw }: ReceivedMail): Promise<void> {
+  const now = new Date().toISOString();
+  const base = {
+    messageKey: key,
+    from: '',
+    subject: '',
+    receivedAt: now,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const failed = (error: string, errorCode: InboxItem['errorCode']): InboxItem => ({
+    ...base,
+    id: randomUUID(),
+    fileName: '',
+    mimeType: '',
+    size: raw.length,
+    status: 'failed',
+    error,
+    errorCode,
+  });
+
+  let items: InboxItem[];
+  try {
+    const mail = await simpleParser(raw, { skipHtmlToText: true, skipTextToHtml: true, skipTextLinks: true });
+    Object.assign(base, {
+      messageId: mail.messageId,
+      from: mail.from?.value[0]?.address || '',
+      subject: mail.subject || '',
+      receivedAt: (mail.date && !isNaN(mail.date.getTime()) ? mail.date : new Date()).toISOString(),
+    });
+
+    const attachments = mail.attachments.filter(isDocumentAttachment);
+    items = attachments.map((attachment, index) => ({
+      ...base,
+      id: randomUUID(),
+      fileName: attachment.filename || `attachment-${index + 1}`,
+      mimeType: attachment.contentType,
+      size: attachment.content.length,
+      status: 'queued' as const,
+    }));
+
+    for (const [index, item] of items.entries()) {
+      await writeBinaryFile(getAttachmentPath(item.id), attachments[index].content);
+    }
+    // 添付ファイルのないメールも、受信したことが分かるよう失敗として記録する
+    if (items.length === 0) {
+      items = [failed('注文書の添付ファイル（PDF・画像）がありません', 'file_missing')];
+    }
+  } catch (error) {
+    console.error(`メールの解析エラー（${key}）:`, error);
+    items = [failed(`メールを読み込めませんでした（${error instanceof Error ? error.message : String(error)}）`, 'invalid_file')];
+  }
+
+  await updateItems(current => {
+    current.unshift(...items);
+  });
+  await updateState(state => {
+    state.seen.push(key);
+  });
+}
+
+async function receiveMail(): Promise<void> {
+  let source: MailSource | null;
+  let lastError: string | undefined;
+
+  try {
+    source = getMailSource();
+    if (!source) return;
+
+    const { seen } = await readJsonFile<StoredInboxState>(getStatePath(), { seen: [] });
+    await source.receive(ingestMail, { limit: getInboxSettings().maxMessages, seen: new Set(seen) });
+  } catch (error) {
+    console.error('メールの受信エラー:', error);
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  await updateState(state => {
+    state.lastCheckedAt = new Date().toISOString();
+    state.lastError = lastError;
+  });
+}
+
+// 添付ファイルを読み取り、注文履歴に保存する
+// 取引先は送信元のアドレスで決め、一致する取引先がない場合は読み取ったテキストから自動判定する
+async function processItem(item: InboxItem): Promise<void> {
+  const { maxAttempts, username } = getInboxSettings();
+  const startedAt = Date.now();
+  let processor: ProcessorConfig | undefined;
+  let content: Buffer | undefined;
+
+  try {
+    content = await fs.promises.readFile(getAttachmentPath(item.id));
+    const processors = await loadProcessorRegistry();
+    const file = await validateUploadContent(item.fileName, content);
+    const senderProcessor = findProcessorBySender(item.from, processors);
+
+    const analysis = await analyzeDocumentWithDetection({
+      content: file.content,
+      mimeType: file.type,
+      processor: senderProcessor,
+      processors,
+    });
+    const { document, preprocessed, result } = analysis;
+    processor = analysis.processor;
+
+    const order = await saveExtractedOrder({
+      file: { name: file.name, type: file.type, content: file.content },
+      preprocessed,
+      processor,
+      result,
+      document,
+    });
+    const processorSource: InboxProcessorSource = senderProcessor ? 'sender' : result.detection?.detectedType ? 'detection' : 'default';
+
+    await updateItem(item.id, {
+      status: 'done',
+      orderId: order.id,
+      processorType: processor.id,
+      processorSource,
+      error: undefined,
+      errorCode: undefined,
+    });
+    // 原本ファイルは注文履歴に保存したため、読み取り前の添付ファイルは削除する
+    await fs.promises.rm(getAttachmentPath(item.id), { force: true });
+
+    await recordExtraction({
+      username,
+      processor,
+      fileName: item.fileName,
+      content,
+      orderId: order.id,
+      durationMs: Date.now() - startedAt,
+      result,
+    }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+  } catch (error) {
+    console.error(`受信した注文書の読み取りエラー（${item.fileName}）:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    const errorCode = getUploadErrorCode(error);
+    // 一時的な障害の場合は、次回の確認で読み取り直す
+    const retry = error instanceof ProviderError && error.options.retryable && item.attempts < maxAttempts;
+
+    await updateItem(item.id, { status: retry ? 'queued' : 'failed', error: message, errorCode });
+    await recordExtraction({
+      username,
+      processor,
+      fileName: item.fileName,
+      content,
+      durationMs: Date.now() - startedAt,
+      error: { code: errorCode, message },
+    }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+  }
+}
+
+// 読み取り待ちの添付ファイルを古い順に1件ずつ読み取る（一時的な障害で読み取り待ちに戻したものは次回の確認で読み取る）
+async function processQueuedItems(): Promise<void> {
+  const attempted = new Set<string>();
+
+  // 前回の読み取り中に停止した添付ファイルは、読み取り待ちに戻す（読み取りは同時に1つしか行わないため）
+  await updateItems(items => {
+    for (const item of items) {
+      if (item.status === 'processing') item.status = 'queued';
+    }
+  });
+
+  for (;;) {
+    const item = await updateItems(items => {
+      const next = items.findLast(candidate => candidate.status === 'queued' && !attempted.has(candidate.id));
+      if (next) {
+        next.status = 'processing';
+        next.attempts += 1;
+        next.updatedAt = new Date().toISOString();
+      }
+      return next;
+    });
+    if (!item) return;
+    attempted.add(item.id);
+    await processItem(item);
+  }
+}
+
+// 開発時のホットリロードで重複して起動しないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __inboxPoller?: ReturnType<typeof setInterval>;
+  __inboxCycle?: { received: Promise<void> };
+};
+
+// メールを受信して読み取る（実行中の場合は新たに始めない）
+// 受信が終わった時点で解決する（読み取りはバックグラウンドで続ける）
+function runInboxCycle(): Promise<void> {
+  if (store.__inboxCycle) return store.__inboxCycle.received;
+
+  const received = receiveMail();
+  store.__inboxCycle = { received };
+  received
+    .then(processQueuedItems)
+    .catch(error => console.error('メールの取り込みエラー:', error))
+    .finally(() => {
+      store.__inboxCycle = undefined;
+    });
+  return received;
+}
+
+// バックグラウンドでの受信を開始する（受信元が設定されていなければ何もしない）
+function ensureInboxPoller(): void {
+  if (store.__inboxPoller || !process.env.MAIL_INGEST_SOURCE) return;
+
+  store.__inboxPoller = setInterval(() => {
+    void runInboxCycle();
+  }, getInboxSettings().pollMs);
+  store.__inboxPoller.unref?.();
+}
+
+// サーバーの起動時に呼び出し、すぐに1回受信する
+export function startInboxWatcher(): void {
+  if (!process.env.MAIL_INGEST_SOURCE) return;
+  ensureInboxPoller();
+  void runInboxCycle();
+}
+
+export async function getInboxState(): Promise<InboxState> {
+  ensureInboxPoller();
+
+  let source: InboxState['source'] = null;
+  let configError: string | undefined;
+  try {
+    const mailSource = getMailSource();
+    source = mailSource && { type: mailSource.type, location: mailSource.location };
+  } catch (error) {
+    configError = error instanceof Error ? error.message : String(error);
+  }
+
+  const state = await readJsonFile<StoredInboxState>(getStatePath(), { seen: [] });
+  const items = await readItems();
+  const orders = await getOrderSummaries(items.flatMap(item => (item.orderId ? [item.orderId] : [])));
+
+  return {
+    source,
+    lastCheckedAt: state.lastCheckedAt,
+    lastError: configError || state.lastError,
+    items: items.map(item => ({ ...item, orderStatus: item.orderId ? orders.get(item.orderId)?.status : undefined })),
+  };
+}
+
+// 今すぐ新しいメールを確認する（受信が終わるまで待ち、読み取りはバックグラウンドで行う）
+export async function checkInbox(): Promise<InboxState> {
+  ensureInboxPoller();
+  await runInboxCycle();
+  return getInboxState();
+}
+
+// 取り込めなかった添付ファイルを読み取り直す
+export async function retryInboxItem(id: string): Promise<InboxItem> {
+  const attachmentPath = getAttachmentPath(id);
+
+  const item = await updateItems(async items => {
+    const target = items.find(candidate => candidate.id === id);
+    if (!target) throw new InboxItemNotFoundError(id);
+    if (target.status !== 'failed') {
+      throw new InboxItemStateError('取り込みに失敗した注文書のみ読み取り直せます');
+    }
+    if (!fs.existsSync(attachmentPath)) {
+      throw new InboxItemStateError('読み取る添付ファイルがありません');
+    }
+
+    Object.assign(target, { status: 'queued', attempts: 0, updatedAt: new Date().toISOString() });
+    return { ...target };
+  });
+
+  void runInboxCycle();
+  return item;
+}
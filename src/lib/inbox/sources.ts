@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import { ImapFlow } from 'imapflow';
+import { getDataDir } from '@/lib/storage';
+import { MailSourceType } from './types';
+
+// 注文書のメールの受信元
+// maildir: Maildir（new/ のメールを読み、cur/ へ移す）または .eml ファイルを置いたフォルダ（読んだファイルは processed/ へ移す）
+// imap: IMAPサーバーの未読メール（取り込んだら既読にする）
+
+// 受信元の設定の誤り
+export class MailSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailSourceError';
+  }
+}
+
+export interface ReceivedMail {
+  // 受信元でメールを識別するキー
+  key: string;
+  // メールの原文（RFC 822）
+  raw: Buffer;
+}
+
+export interface ReceiveOptions {
+  // 1回の受信で読むメールの上限
+  limit: number;
+  // 取り込み済みのキー（読み込まずに受信済みとして扱う）
+  seen: Set<string>;
+}
+
+export interface MailSource {
+  readonly type: MailSourceType;
+  // 画面に表示する受信元（フォルダ・サーバー。パスワードは含めない）
+  readonly location: string;
+  // 新しいメールを1通ずつ handle に渡し、handle が終わったメールを受信済みにする（handle が失敗したメールは次回に読み直す）
+  receive(handle: (mail: ReceivedMail) => Promise<void>, options: ReceiveOptions): Promise<void>;
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function createMaildirSource(dir: string): MailSource {
+  return {
+    type: 'maildir',
+    location: dir,
+
+    async receive(handle, { limit, seen }) {
+      if (!(await isDirectory(dir))) {
+        throw new MailSourceError(`メールのフォルダが見つかりません: ${dir}`);
+      }
+
+      // new/ があればMaildirとして扱う
+      const isMaildir = await isDirectory(path.join(dir, 'new'));
+      const folder = isMaildir ? path.join(dir, 'new') : dir;
+      const entries = await fs.promises.readdir(folder, { withFileTypes: true });
+      const names = entries
+        .filter(entry => entry.isFile() && !entry.name.startsWith('.') && (isMaildir || /\.eml$/i.test(entry.name)))
+        .map(entry => entry.name)
+        .sort();
+
+      let count = 0;
+      for (const name of names) {
+        // Maildirのファイル名は「一意な名前:2,フラグ」の形（フラグはメールソフトが書き換える）
+        const key = `maildir:${name.split(':')[0]}`;
+        if (!seen.has(key)) {
+          if (count >= limit) break;
+          count++;
+          await handle({ key, raw: await fs.promises.readFile(path.join(folder, name)) });
+        }
+
+        // 取り込み済みのキーは件数に上限があるため、読んだメールはフォルダから移して読み直さないようにする
+        const target = isMaildir ? path.join(dir, 'cur', `${name.split(':')[0]}:2,S`) : path.join(dir, 'processed', name);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.rename(path.join(folder, name), target);
+      }
+    },
+  };
+}
+
+function createImapSource(): MailSource {
+  const host = process.env.MAIL_INGEST_IMAP_HOST;
+  const user = process.env.MAIL_INGEST_IMAP_USER;
+  const pass = process.env.MAIL_INGEST_IMAP_PASSWORD;
+  if (!host || !user || !pass) {
+    throw new MailSourceError('MAIL_INGEST_IMAP_HOST / MAIL_INGEST_IMAP_USER / MAIL_INGEST_IMAP_PASSWORD を設定してください');
+  }
+  const secure = process.env.MAIL_INGEST_IMAP_SECURE !== 'false';
+  const port = Number(process.env.MAIL_INGEST_IMAP_PORT) || (secure ? 993 : 143);
+  const mailbox = process.env.MAIL_INGEST_IMAP_MAILBOX || 'INBOX';
+
+  return {
+    type: 'imap',
+    location: `${user}@${host}:${port}/${mailbox}`,
+
+    async receive(handle, { limit, seen }) {
+      const client = new ImapFlow({ host, port, secure, auth: { user, pass }, logger: false });
+      await client.connect();
+
+      try {
+        const lock = await client.getMailboxLock(mailbox);
+        try {
+          const uids = (await client.search({ seen: false }, { uid: true })) || [];
+          // UIDVALIDITYが変わるとUIDが振り直されるため、キーに含める
+          const uidValidity = client.mailbox ? String(client.mailbox.uidValidity) : '';
+
+          let count = 0;
+          for (const uid of uids) {
+            const key = `imap:${user}@${host}/${mailbox}/${uidValidity}/${uid}`;
+            if (!seen.has(key)) {
+              if (count >= limit) break;
+              count++;
+              const message = await client.fetchOne(String(uid), { source: true }, { uid: true });
+              if (!message || !message.source) continue;
+              await handle({ key, raw: message.source });
+            }
+            await client.messageFlagsAdd(String(uid), ['\\Seen'], { uid: true });
+          }
+        } finally {
+          lock.release();
+        }
+      } finally {
+        await client.logout().catch(() => client.close());
+      }
+    },
+  };
+}
+
+// MAIL_INGEST_SOURCE で受信元を切り替える（未設定の場合はメールの取り込みを行わない）
+export function getMailSource(): MailSource | null {
+  const type = process.env.MAIL_INGEST_SOURCE;
+
+  switch (type) {
+    case undefined:
+    case '':
+      return null;
+    case 'maildir': {
+      const dir = process.env.MAIL_INGEST_MAILDIR;
+      if (!dir) {
+        throw new MailSourceError('MAIL_INGEST_MAILDIR にメールのフォルダを設定してください');
+      }
+      // 相対パスはデータディレクトリからのパスとする
+      return createMaildirSource(path.resolve(getDataDir(), dir));
+    }
+    case 'imap':
+      return createImapSource();
+    default:
+      throw new MailSourceError(`不明なメールの受信元です: ${type}（maildir, imapのいずれかを指定してください）`);
+  }
+}
@@ -0,0 +1,68 @@
+import type { OrderStatus } from '@/lib/orders/types';
+import type { UploadErrorCode } from '@/lib/upload/types';
+
+// メールで受信した注文書の取り込み（API・画面で共通）
+
+// 受信元（maildir: Maildir または .eml ファイルを置いたフォルダ、imap: IMAPサーバー）
+export type MailSourceType = 'maildir' | 'imap';
+
+// 添付ファイルごとの取り込み状況
+// queued: 読み取り待ち / processing: 読み取り中 / done: 注文履歴に保存済み / failed: 取り込めなかった
+export type InboxItemStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+export const INBOX_ITEM_STATUS_LABELS: Record<InboxItemStatus, string> = {
+  queued: '読み取り待ち',
+  processing: '読み取り中',
+  done: '取り込み済み',
+  failed: '取り込み失敗',
+};
+
+// 取引先の決め方
+// sender: 送信元のアドレス（detection.senders） / detection: 読み取ったテキストから自動判定 / default: 判定できず取引先設定の先頭を使用
+export type InboxProcessorSource = 'sender' | 'detection' | 'default';
+
+export const INBOX_PROCESSOR_SOURCE_LABELS: Record<InboxProcessorSource, string> = {
+  sender: '送信元',
+  detection: '自動判定',
+  default: '判定できず',
+};
+
+// 受信したメールの添付ファイル1件（添付ファイルのないメールも、失敗として1件記録する）
+export interface InboxItem {
+  id: string;
+  // 受信元でメールを識別するキー（同じメールを二重に取り込まないために使う）
+  messageKey: string;
+  messageId?: string;
+  from: string;
+  subject: string;
+  receivedAt: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: InboxItemStatus;
+  // 読み取りを試みた回数
+  attempts: number;
+  // 読み取りに使った取引先（完了時）
+  processorType?: string;
+  processorSource?: InboxProcessorSource;
+  // 注文履歴に保存した注文のID（完了時）
+  orderId?: string;
+  error?: string;
+  errorCode?: UploadErrorCode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 画面に返す項目（取り込んだ注文の処理状況を含む）
+export interface InboxEntry extends InboxItem {
+  orderStatus?: OrderStatus;
+}
+
+export interface InboxState {
+  // 受信元の設定（未設定の場合はnull）
+  source: { type: MailSourceType; location: string } | null;
+  lastCheckedAt?: string;
+  // 前回の受信で発生したエラー（接続できないなど）
+  lastError?: string;
+  items: InboxEntry[];
+}
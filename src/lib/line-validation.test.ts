@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '@/lib/products/types';
+import { summarizeOrderTotal, validateLine } from './line-validation';
+
+const product: Product = { id: 1, product_code: '1546', product_name: 'マーカー', purchase_price: 15, sales_price: 20 };
+
+describe('validateLine', () => {
+  it('数量・金額が整合し、単価がマスター価格の許容範囲内なら警告しない', () => {
+    expect(validateLine(
+      { quantity_per_case: '10', case_count: '2', quantity: '20', unit_price: '20.5', amount: '410' },
+      product
+    )).toEqual([]);
+  });
+
+  it('数値として読み取れない値を警告する', () => {
+    const warnings = validateLine({ quantity: '2O', unit_price: '100' }, undefined);
+    expect(warnings).toEqual([expect.objectContaining({ code: 'invalid_number', keys: ['quantity'] })]);
+  });
+
+  it('数量がケース数 × 入数と一致しない場合を警告する', () => {
+    const warnings = validateLine({ quantity_per_case: '12', case_count: '2', quantity: '20' }, undefined);
+    expect(warnings.map(w => w.code)).toEqual(['quantity_mismatch']);
+    expect(warnings[0].keys).toEqual(['quantity', 'case_count', 'quantity_per_case']);
+  });
+
+  it('金額が数量 × 単価と1円を超えて異なる場合を警告する', () => {
+    expect(validateLine({ quantity: '3', unit_price: '33.3', amount: '100' }, undefined)).toEqual([]);
+    expect(validateLine({ quantity: '3', unit_price: '33.3', amount: '102' }, undefined).map(w => w.code)).toEqual(['amount_mismatch']);
+  });
+
+  it('単価とマスター価格の差を、取引先の設定の価格と許容範囲で確認する', () => {
+    expect(validateLine({ unit_price: '22' }, product).map(w => w.code)).toEqual(['price_mismatch']);
+    expect(validateLine({ unit_price: '22' }, product, { field: 'sales_price', tolerance: 0.1 })).toEqual([]);
+
+    const [warning] = validateLine({ unit_price: '20' }, product, { field: 'purchase_price', tolerance: 0.05 });
+    expect(warning).toMatchObject({ code: 'price_mismatch', keys: ['unit_price'] });
+    expect(warning.message).toContain('仕入価格');
+  });
+
+  it('マスター価格が未設定の商品は価格を確認しない', () => {
+    expect(validateLine({ unit_price: '999' }, { ...product, purchase_price: undefined }, { field: 'purchase_price', tolerance: 0 })).toEqual([]);
+  });
+});
+
+describe('summarizeOrderTotal', () => {
+  it('明細の金額の合計と、数量 × 単価で計算した合計を返す', () => {
+    expect(summarizeOrderTotal([
+      { quantity: '20', unit_price: '21.4', amount: '428' },
+      { quantity: '10', unit_price: '¥100', amount: '1,000' },
+      { quantity: '', unit_price: '50', amount: '' },
+    ])).toEqual({ amount: 1428, calculated: 1428 });
+  });
+});
@@ -0,0 +1,95 @@
+import { parseNumber } from '@/lib/normalize';
+import { PriceCheckRule } from '@/lib/processors/types';
+import type { Product } from '@/lib/products/types';
+
+// 明細行の計算チェックで見つかった不一致
+export interface LineWarning {
+  code: 'invalid_number' | 'quantity_mismatch' | 'amount_mismatch' | 'price_mismatch';
+  message: string;
+  // 不一致に関係するカラム
+  keys: string[];
+}
+
+// 数値として扱うカラム
+const NUMERIC_KEYS = ['quantity_per_case', 'box_count', 'case_count', 'quantity', 'unit_price', 'amount'];
+
+// 金額の端数処理による差を許容する幅（円）
+const AMOUNT_TOLERANCE = 1;
+
+const DEFAULT_PRICE_CHECK: PriceCheckRule = { field: 'sales_price', tolerance: 0.05 };
+
+const PRICE_FIELD_LABELS: Record<PriceCheckRule['field'], string> = {
+  sales_price: '販売価格',
+  purchase_price: '仕入価格',
+};
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('ja-JP', { maximumFractionDigits: 2 });
+}
+
+// 明細行の数量・金額の整合性と、マスター価格との差を確認する
+export function validateLine(
+  values: Record<string, string>,
+  matchedProduct: Product | undefined,
+  priceCheck: PriceCheckRule = DEFAULT_PRICE_CHECK
+): LineWarning[] {
+  const warnings: LineWarning[] = [];
+  const numbers: Record<string, number | null> = {};
+
+  for (const key of NUMERIC_KEYS) {
+    numbers[key] = parseNumber(values[key]);
+    if (values[key] && numbers[key] === null) {
+      warnings.push({ code: 'invalid_number', message: `「${values[key]}」を数値として読み取れません`, keys: [key] });
+    }
+  }
+
+  const { quantity_per_case: perCase, case_count: cases, quantity, unit_price: unitPrice, amount } = numbers;
+
+  // 数量 = ケース数 × 入数（ケース数と入数の両方が記載されている場合）
+  if (perCase !== null && cases !== null && quantity !== null && perCase * cases !== quantity) {
+    warnings.push({
+      code: 'quantity_mismatch',
+      message: `数量 ${formatNumber(quantity)} がケース数 × 入数（${formatNumber(cases)} × ${formatNumber(perCase)} = ${formatNumber(cases * perCase)}）と一致しません`,
+      keys: ['quantity', 'case_count', 'quantity_per_case'],
+    });
+  }
+
+  // 金額 = 数量 × 単価
+  if (quantity !== null && unitPrice !== null && amount !== null) {
+    const expected = quantity * unitPrice;
+    if (Math.abs(expected - amount) > AMOUNT_TOLERANCE) {
+      warnings.push({
+        code: 'amount_mismatch',
+        message: `金額 ${formatNumber(amount)} が数量 × 単価（${formatNumber(quantity)} × ${formatNumber(unitPrice)} = ${formatNumber(expected)}）と一致しません`,
+        keys: ['amount', 'quantity', 'unit_price'],
+      });
+    }
+  }
+
+  // 単価とマスター価格の差（マスター価格が未設定の商品は対象外）
+  const masterPrice = matchedProduct?.[priceCheck.field];
+  if (unitPrice !== null && masterPrice) {
+    const ratio = Math.abs(unitPrice - masterPrice) / masterPrice;
+    if (ratio > priceCheck.tolerance) {
+      warnings.push({
+        code: 'price_mismatch',
+        message: `単価 ${formatNumber(unitPrice)} がマスターの${PRICE_FIELD_LABELS[priceCheck.field]} ${formatNumber(masterPrice)} と${Math.round(ratio * 100)}%異なります`,
+        keys: ['unit_price'],
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// 注文書の合計（明細の金額の合計と、数量 × 単価で計算した合計）
+export function summarizeOrderTotal(rows: Record<string, string>[]): { amount: number; calculated: number } {
+  return rows.reduce((total, values) => {
+    const quantity = parseNumber(values.quantity);
+    const unitPrice = parseNumber(values.unit_price);
+    return {
+      amount: total.amount + (parseNumber(values.amount) ?? 0),
+      calculated: total.calculated + (quantity !== null && unitPrice !== null ? quantity * unitPrice : 0),
+    };
+  }, { amount: 0, calculated: 0 });
+}
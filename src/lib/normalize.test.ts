@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseDate, parseJapaneseDate, parseNumber } from './normalize';
+
+describe('parseNumber', () => {
+  it('全角数字・カンマ・円記号・単位を除いて変換する', () => {
+    expect(parseNumber('１，２００')).toBe(1200);
+    expect(parseNumber('¥3,450円')).toBe(3450);
+    expect(parseNumber('¥1,234-')).toBe(1234);
+    expect(parseNumber('@21.4')).toBe(21.4);
+    expect(parseNumber('12入')).toBe(12);
+    expect(parseNumber('20 個')).toBe(20);
+  });
+
+  it('会計表記の負数を負の数にする', () => {
+    expect(parseNumber('△100')).toBe(-100);
+    expect(parseNumber('▲1,500')).toBe(-1500);
+    expect(parseNumber('(100)')).toBe(-100);
+    expect(parseNumber('-5')).toBe(-5);
+  });
+
+  it('数値として解釈できない値はnullを返す', () => {
+    expect(parseNumber('')).toBeNull();
+    expect(parseNumber(null)).toBeNull();
+    expect(parseNumber(undefined)).toBeNull();
+    expect(parseNumber('約100')).toBeNull();
+    expect(parseNumber('1.2.3')).toBeNull();
+  });
+});
+
+describe('parseJapaneseDate', () => {
+  it('和暦を西暦に変換する', () => {
+    expect(parseJapaneseDate('令和7年10月15日').date).toBe('2025-10-15');
+    expect(parseJapaneseDate('R7.10.15').date).toBe('2025-10-15');
+    expect(parseJapaneseDate('令和元年5月1日').date).toBe('2019-05-01');
+    expect(parseJapaneseDate('平成31年4月30日').date).toBe('2019-04-30');
+    expect(parseJapaneseDate('Ｒ７．１０．１５').date).toBe('2025-10-15');
+  });
+
+  it('西暦の書式を変換する', () => {
+    expect(parseJapaneseDate('2025/10/15').date).toBe('2025-10-15');
+    expect(parseJapaneseDate('2025年10月15日').date).toBe('2025-10-15');
+    expect(parseJapaneseDate('20251015').date).toBe('2025-10-15');
+    expect(parseJapaneseDate('25/10/15').date).toBe('2025-10-15');
+  });
+
+  it('年のない日付は基準日の前後半年に収まる年にする', () => {
+    expect(parseJapaneseDate('10/19', '2025-10-15').date).toBe('2025-10-19');
+    expect(parseJapaneseDate('1/10', '2025-12-20').date).toBe('2026-01-10');
+    expect(parseJapaneseDate('12月28日', '2026-01-05').date).toBe('2025-12-28');
+  });
+
+  it('日付以外の記載を備考に分け、曜日は備考に含めない', () => {
+    expect(parseJapaneseDate('10/25 午前着', '2025-10-15')).toEqual({ date: '2025-10-25', remark: '午前着' });
+    expect(parseJapaneseDate('2025/10/15(水)')).toEqual({ date: '2025-10-15', remark: '' });
+    expect(parseJapaneseDate('11月上旬')).toEqual({ date: null, remark: '11月上旬' });
+  });
+
+  it('存在しない日付は日付として扱わない', () => {
+    expect(parseJapaneseDate('2025/02/30').date).toBeNull();
+    expect(parseJapaneseDate('').date).toBeNull();
+  });
+});
+
+describe('parseDate', () => {
+  it('日付以外の記載を含む場合はnullを返す', () => {
+    expect(parseDate('令和7年10月15日')).toBe('2025-10-15');
+    expect(parseDate('10/25 午前着', '2025-10-15')).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+// OCRで読み取った値の正規化
+
+// 数値の前後に付く記号・単位（例: "@21.4"、"¥3,450-"、"12入"）
+const NUMBER_PREFIX = /^[@＠¥￥]+/;
+const NUMBER_SUFFIX = /(円|[-―ー]|個|本|箱|枚|入|ケース|cs|pcs|ea)$/i;
+
+// 全角数字・カンマ・円記号・単位を含む数値を数値に変換する
+// 例: "１，２００" → 1200、"¥3,450円" → 3450、"¥1,234-" → 1234、"△100" → -100、"(100)" → -100
+// 数値として解釈できない場合はnull
+export function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+
+  let text = value.normalize('NFKC').replace(/[\s,]/g, '');
+  let sign = 1;
+
+  // 会計表記の負数（△100、▲100、(100)）
+  if (/^[△▲]/.test(text)) {
+    sign = -1;
+    text = text.substring(1);
+  } else if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+
+  text = text.replace(NUMBER_PREFIX, '');
+  while (NUMBER_SUFFIX.test(text)) {
+    text = text.replace(NUMBER_SUFFIX, '');
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return sign * Number(text);
+}
+
+// 和暦の元号と元年の西暦
+const ERAS: { names: string[]; startYear: number }[] = [
+  { names: ['令和', '令', 'R'], startYear: 2019 },
+  { names: ['平成', '平', 'H'], startYear: 1989 },
+  { names: ['昭和', '昭', 'S'], startYear: 1926 },
+  { names: ['大正', '大', 'T'], startYear: 1912 },
+  { names: ['明治', '明', 'M'], startYear: 1868 },
+];
+
+const ERA_PATTERN = ERAS.flatMap(era => era.names).join('|');
+
+// 日付の書式（NFKC正規化後の文字列に対して、先に一致したものを使う）
+const DATE_PATTERNS: { pattern: RegExp; toParts: (match: RegExpMatchArray) => { year?: number; month: number; day: number } }[] = [
+  // 令和7年10月15日、R7.10.15、令元/5/1
+  {
+    pattern: new RegExp(`(${ERA_PATTERN})\\.?\\s*(\\d{1,2}|元)\\s*[年/.-]\\s*(\\d{1,2})\\s*[月/.-]\\s*(\\d{1,2})\\s*日?`, 'i'),
+    toParts: match => {
+      const era = ERAS.find(e => e.names.some(name => name.toUpperCase() === match[1].toUpperCase()))!;
+      const eraYear = match[2] === '元' ? 1 : Number(match[2]);
+      return { year: era.startYear + eraYear - 1, month: Number(match[3]), day: Number(match[4]) };
+    },
+  },
+  // 2025/10/15、2025年10月15日、2025-10-15
+  {
+    pattern: /(\d{4})\s*[年/.-]\s*(\d{1,2})\s*[月/.-]\s*(\d{1,2})\s*日?/,
+    toParts: match => ({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }),
+  },
+  // 20251015
+  {
+    pattern: /(?<!\d)(\d{4})(\d{2})(\d{2})(?!\d)/,
+    toParts: match => ({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }),
+  },
+  // 25/10/15（西暦の下2桁）
+  {
+    pattern: /(?<![\d/.-])(\d{2})[/.-](\d{1,2})[/.-](\d{1,2})(?![\d/.-])/,
+    toParts: match => ({ year: 2000 + Number(match[1]), month: Number(match[2]), day: Number(match[3]) }),
+  },
+  // 10/19、10月19日（年は基準日から推定する）
+  {
+    pattern: /(?<![\d/.-])(\d{1,2})\s*[月/.-]\s*(\d{1,2})\s*日?(?![\d/.-])/,
+    toParts: match => ({ month: Number(match[1]), day: Number(match[2]) }),
+  },
+];
+
+// 日付の後ろに付く曜日（"(水)" など）は備考として扱わない
+const WEEKDAY_PATTERN = /^\s*[(（]?\s*[月火水木金土日]\s*(曜日?)?\s*[)）]?/;
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// 年のない日付の年を、基準日の前後半年に収まるように推定する
+// 例: 基準日 2025-12-20 の "1/10" → 2026-01-10、基準日 2026-01-05 の "12/28" → 2025-12-28
+function inferYear(month: number, day: number, reference: string): number {
+  const referenceDate = new Date(`${reference}T00:00:00Z`);
+  const year = referenceDate.getUTCFullYear();
+  const halfYear = 183 * 24 * 60 * 60 * 1000;
+  const candidate = Date.UTC(year, month - 1, day);
+
+  if (candidate < referenceDate.getTime() - halfYear) return year + 1;
+  if (candidate > referenceDate.getTime() + halfYear) return year - 1;
+  return year;
+}
+
+// 日付と、それ以外の記載（備考）
+export interface ParsedDate {
+  // YYYY-MM-DD（日付を含まない場合はnull）
+  date: string | null;
+  // 日付以外の記載（"11月上旬"、"午前着" など）
+  remark: string;
+}
+
+// 和暦・西暦・年のない日付を含む文字列を日付と備考に分ける
+// 年のない日付は基準日（YYYY-MM-DD。省略時は今日）から年を推定する
+// 例: "令和7年10月15日" → 2025-10-15、"10/25 午前着" → 2025-10-25 + "午前着"、"11月上旬" → 備考のみ
+export function parseJapaneseDate(value: string | null | undefined, reference?: string | null): ParsedDate {
+  const text = (value || '').normalize('NFKC').trim();
+  if (!text) return { date: null, remark: '' };
+
+  for (const { pattern, toParts } of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) continue;
+
+    const { year, month, day } = toParts(match);
+    const date = toIsoDate(year ?? inferYear(month, day, reference || new Date().toISOString().slice(0, 10)), month, day);
+    if (!date) continue;
+
+    const before = text.substring(0, match.index);
+    const after = text.substring(match.index + match[0].length).replace(WEEKDAY_PATTERN, '');
+    return { date, remark: `${before} ${after}`.trim().replace(/^[\s,、:：]+|[\s,、:：]+$/g, '') };
+  }
+
+  return { date: null, remark: text };
+}
+
+// 日付のみの文字列をISO形式（YYYY-MM-DD）に変換する
+// 日付以外の記載を含む場合や解釈できない場合はnull
+export function parseDate(value: string | null | undefined, reference?: string | null): string | null {
+  const { date, remark } = parseJapaneseDate(value, reference);
+  return remark ? null : date;
+}
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { protos } from '@google-cloud/documentai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { readOcrCache, writeOcrCache } from './cache';
+
+const { Document } = protos.google.cloud.documentai.v1;
+
+let tempDir: string;
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-cache-'));
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  delete process.env.OCR_CACHE_TTL_HOURS;
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('OCRキャッシュ', () => {
+  it('bytes・int64の項目を保存前と同じ値で読み込み、ページ画像は保存しない', async () => {
+    const [processor] = await loadProcessorRegistry();
+    const request = { content: Buffer.from('order'), provider: 'fixture', processor };
+    // 複数の読み取り結果をまとめたドキュメントなど、protoのインスタンスではないオブジェクト（Buffer・Longを含む）
+    const document = Document.toObject(Document.fromObject({
+      content: Buffer.from('原本'),
+      text: '注文書 A-1',
+      pages: [{ pageNumber: 1, image: { content: Buffer.from('画像'), mimeType: 'image/png' } }],
+      entities: [{ type: 'order_number', mentionText: 'A-1', textAnchor: { textSegments: [{ startIndex: '4', endIndex: '7' }] } }],
+    }));
+
+    await writeOcrCache(request, document);
+    const cached = await readOcrCache(request);
+
+    expect(cached?.cache.status).toBe('hit');
+    expect(Buffer.from(cached!.document.content!).toString()).toBe('原本');
+    const [segment] = cached!.document.entities![0].textAnchor!.textSegments!;
+    expect([Number(segment.startIndex), Number(segment.endIndex)]).toEqual([4, 7]);
+    expect(cached!.document.pages![0].image).toBeFalsy();
+  });
+
+  it('期限切れのキャッシュは保存のたびではなく、間隔をあけて削除する', async () => {
+    const [processor] = await loadProcessorRegistry();
+    const store = globalThis as typeof globalThis & { __ocrCachePrunedAt?: number };
+    delete store.__ocrCachePrunedAt;
+    process.env.OCR_CACHE_TTL_HOURS = '1';
+
+    const cacheDir = path.join(process.env.DATA_DIR!, 'ocr-cache');
+    const writeExpired = (name: string) => {
+      const filePath = path.join(cacheDir, name);
+      fs.mkdirSync(cacheDir, { recursive: true });
+      fs.writeFileSync(filePath, '{}');
+      const expired = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      fs.utimesSync(filePath, expired, expired);
+      return filePath;
+    };
+
+    const first = writeExpired('expired-1.json');
+    await writeOcrCache({ content: Buffer.from('a'), provider: 'fixture', processor }, Document.fromObject({ text: 'a' }));
+    await vi.waitFor(() => expect(fs.existsSync(first)).toBe(false));
+
+    // 前回の削除から間隔があいていなければ削除しない
+    const second = writeExpired('expired-2.json');
+    await writeOcrCache({ content: Buffer.from('b'), provider: 'fixture', processor }, Document.fromObject({ text: 'b' }));
+    expect(fs.existsSync(second)).toBe(true);
+  });
+});
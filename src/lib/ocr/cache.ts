@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { protos } from '@google-cloud/documentai';
+import { resolveProcessorId } from '@/lib/processors';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { getDataPath, readJsonFile, writeTextFile } from '@/lib/storage';
+import { IDocument } from './types';
+
+// OCRの結果（プロバイダーが返したドキュメント）のキャッシュ
+// 同じファイルを同じプロセッサ・バージョンで読み取る場合は、プロバイダーを呼び出さずに再利用する
+// data/ocr-cache/<キー>.json に保存し、OCR_CACHE_TTL_HOURS（既定: 720時間）を過ぎたものは使わない
+
+const { Document } = protos.google.cloud.documentai.v1;
+
+const DEFAULT_TTL_HOURS = 720;
+
+// 期限切れのキャッシュを削除する間隔（保存のたびにディレクトリ全体を確認しないよう間隔をあける）
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// hit: キャッシュを使用、miss: キャッシュがなく読み取り、refresh: キャッシュを使わずに読み取り、disabled: キャッシュ無効
+export type OcrCacheStatus = 'hit' | 'miss' | 'refresh' | 'disabled';
+
+// 解析結果に含めるキャッシュの利用状況
+export interface OcrCacheInfo {
+  status: OcrCacheStatus;
+  // キャッシュした日時（hitの場合は元の読み取り日時）
+  cachedAt?: string;
+  expiresAt?: string;
+}
+
+interface OcrCacheEntry {
+  key: string;
+  cachedAt: string;
+  provider: string;
+  processorType: string;
+  processorId: string | null;
+  processorVersionId: string | null;
+  fileHash: string;
+  document: unknown;
+}
+
+// 0以下の場合はキャッシュしない
+function getCacheTtlMs(): number {
+  const hours = Number(process.env.OCR_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+function getCacheDir(): string {
+  return getDataPath('ocr-cache');
+}
+
+function getExpiresAt(cachedAt: string, ttlMs: number): string {
+  return new Date(new Date(cachedAt).getTime() + ttlMs).toISOString();
+}
+
+// ファイル内容のハッシュ・プロバイダー・プロセッサID・バージョンからキーを作る
+function getCacheKeySource(content: Buffer, provider: string, processor: ProcessorConfig) {
+  return {
+    fileHash: createHash('sha256').update(content).digest('hex'),
+    provider,
+    processorType: processor.id,
+    processorId: resolveProcessorId(processor) || null,
+    processorVersionId: processor.processorVersionId || null,
+  };
+}
+
+function toCacheKey(source: ReturnType<typeof getCacheKeySource>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([source.fileHash, source.provider, source.processorId ?? source.processorType, source.processorVersionId]))
+    .digest('hex');
+}
+
+// 期限切れのキャッシュを削除する
+async function pruneExpiredEntries(ttlMs: number): Promise<void> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(getCacheDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  const now = Date.now();
+  for (const name of names.filter(n => n.endsWith('.json'))) {
+    const filePath = `${getCacheDir()}/${name}`;
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    if (stat && now - stat.mtimeMs > ttlMs) {
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+}
+
+// 開発時のホットリロードで間隔がリセットされないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __ocrCachePrunedAt?: number;
+};
+
+// 前回の削除から PRUNE_INTERVAL_MS 以上経っていれば、バックグラウンドで期限切れのキャッシュを削除する
+function schedulePrune(ttlMs: number): void {
+  const now = Date.now();
+  if (store.__ocrCachePrunedAt && now - store.__ocrCachePrunedAt < PRUNE_INTERVAL_MS) return;
+  store.__ocrCachePrunedAt = now;
+  pruneExpiredEntries(ttlMs).catch(error => console.error('OCRキャッシュの削除エラー:', error));
+}
+
+type OcrCacheRequest = { content: Buffer; provider: string; processor: ProcessorConfig };
+
+function getCacheLocation({ content, provider, processor }: OcrCacheRequest) {
+  const source = getCacheKeySource(content, provider, processor);
+  const key = toCacheKey(source);
+  return { source, key, filePath: getDataPath('ocr-cache', `${key}.json`) };
+}
+
+// キャッシュした読み取り結果（キャッシュがない・期限切れ・無効の場合はnull）
+export async function readOcrCache(request: OcrCacheRequest): Promise<{ document: IDocument; cache: OcrCacheInfo } | null> {
+  const ttlMs = getCacheTtlMs();
+  if (ttlMs === 0) return null;
+
+  // 壊れたキャッシュは読み取り直して上書きする
+  const entry = await readJsonFile<OcrCacheEntry | null>(getCacheLocation(request).filePath, null).catch(() => null);
+  if (!entry || Date.now() - new Date(entry.cachedAt).getTime() > ttlMs) return null;
+
+  return {
+    document: Document.fromObject(entry.document as Record<string, unknown>),
+    cache: { status: 'hit', cachedAt: entry.cachedAt, expiresAt: getExpiresAt(entry.cachedAt, ttlMs) },
+  };
+}
+
+// 読み取り結果をキャッシュに保存する（保存に失敗しても読み取り結果は使えるよう、エラーは記録のみ）
+export async function writeOcrCache(request: OcrCacheRequest, document: IDocument, { refresh = false } = {}): Promise<OcrCacheInfo> {
+  const ttlMs = getCacheTtlMs();
+  if (ttlMs === 0) return { status: 'disabled' };
+
+  const { source, key, filePath } = getCacheLocation(request);
+  const cachedAt = new Date().toISOString();
+
+  try {
+    // bytes・int64の項目も読み込み時に元に戻せるよう、protoのJSON形式（base64・文字列）にする
+    const entry: OcrCacheEntry = { key, cachedAt, ...source, document: Document.fromObject(document).toJSON() };
+    // ページ画像は大きいため保存しない（注文履歴のDocument JSONと同じ）
+    await writeTextFile(filePath, JSON.stringify(entry, (name, value) => (name === 'image' ? undefined : value)));
+  } catch (error) {
+    console.error('OCRキャッシュの保存エラー:', error);
+  }
+  schedulePrune(ttlMs);
+
+  return { status: refresh ? 'refresh' : 'miss', cachedAt, expiresAt: getExpiresAt(cachedAt, ttlMs) };
+}
+
+// キャッシュを使って読み取る（キャッシュがない・期限切れ・refreshの場合はreadを呼び出して保存する）
+export async function withOcrCache({ refresh = false, ...request }: OcrCacheRequest & { refresh?: boolean }, read: () => Promise<IDocument>): Promise<{ document: IDocument; cache: OcrCacheInfo }> {
+  const cached = refresh ? null : await readOcrCache(request);
+  if (cached) return cached;
+
+  const document = await read();
+  return { document, cache: await writeOcrCache(request, document, { refresh }) };
+}
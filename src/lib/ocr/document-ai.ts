@@ -0,0 +1,72 @@
+import { DocumentProcessorServiceClient } from '@google-cloud/documentai';
+import { resolveProcessorId } from '@/lib/processors';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { callWithRetry } from './retry';
+import { ExtractionProvider, ExtractionRequest, ProviderConfigurationError } from './types';
+
+// Google Cloud クライアントの認証設定
+// Vercel環境ではJSONを直接パース、ローカル環境ではファイルパスを使用
+export function getGoogleClientOptions(): { credentials?: Record<string, string>; keyFilename?: string } {
+  const credentials = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+
+  if (!credentials) {
+    // 環境変数が未設定の場合はデフォルト認証を使用
+    return {};
+  }
+
+  try {
+    // JSONとしてパースを試みる（Vercel用）
+    return { credentials: JSON.parse(credentials) };
+  } catch {
+    // パースに失敗したらファイルパスとして扱う（ローカル用）
+    return { keyFilename: credentials };
+  }
+}
+
+// 開発時のホットリロードで作り直さないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __documentAiClient?: DocumentProcessorServiceClient;
+};
+
+// Document AI クライアント（接続と認証情報を使い回すため、リクエストごとには作らない）
+export function getClient(): DocumentProcessorServiceClient {
+  store.__documentAiClient ??= new DocumentProcessorServiceClient(getGoogleClientOptions());
+  return store.__documentAiClient;
+}
+
+// プロセッサー名（取引先設定でバージョン指定がある場合はそのバージョン）
+export function getProcessorName(processor: ProcessorConfig): string {
+  // 環境変数の確認
+  const projectId = process.env.GOOGLE_CLOUD_PROJECT_ID;
+  const location = process.env.GOOGLE_CLOUD_LOCATION;
+  const processorId = resolveProcessorId(processor);
+
+  if (!projectId || !location || !processorId) {
+    throw new ProviderConfigurationError('環境変数が設定されていません。.env.localを確認してください。');
+  }
+
+  const processorName = `projects/${projectId}/locations/${location}/processors/${processorId}`;
+  return processor.processorVersionId
+    ? `${processorName}/processorVersions/${processor.processorVersionId}`
+    : processorName;
+}
+
+// Google Cloud Document AI を呼び出すプロバイダー
+export const documentAiProvider: ExtractionProvider = {
+  name: 'document-ai',
+
+  async processDocument({ content, mimeType, processor }: ExtractionRequest) {
+    const name = getProcessorName(processor);
+
+    // ドキュメント処理リクエスト（タイムアウト・一時的な障害の再試行・エラーの分類は callWithRetry で行う）
+    const [result] = await callWithRetry('Document AIの解析', options => getClient().processDocument({
+      name,
+      rawDocument: {
+        content,
+        mimeType,
+      },
+    }, options));
+
+    return result.document;
+  },
+};
@@ -0,0 +1,105 @@
+import { google } from '@google-cloud/documentai/build/protos/protos';
+
+type ITextAnchor = google.cloud.documentai.v1.Document.ITextAnchor;
+type IPageAnchor = google.cloud.documentai.v1.Document.IPageAnchor;
+type IEntity = google.cloud.documentai.v1.Document.IEntity;
+type IPage = google.cloud.documentai.v1.Document.IPage;
+
+// ページのサイズ（ビューアで座標を変換するために使用）
+export interface PageInfo {
+  pageNumber: number;
+  width: number;
+  height: number;
+  unit: string;
+}
+
+// ページ内の位置（0〜1に正規化した左上座標と幅・高さ）
+export interface BoundingBox {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function extractPageInfo(pages: IPage[] | null | undefined): PageInfo[] {
+  return (pages || []).map((page, index) => ({
+    pageNumber: page.pageNumber || index + 1,
+    width: page.dimension?.width || 0,
+    height: page.dimension?.height || 0,
+    unit: page.dimension?.unit || '',
+  }));
+}
+
+// pageAnchorのboundingPolyから正規化したバウンディングボックスを求める
+// normalizedVerticesがない場合はピクセル座標をページサイズで割って正規化する
+function extractBoundingBox(pageAnchor: IPageAnchor | null | undefined, pages: PageInfo[]): BoundingBox | null {
+  const pageRef = pageAnchor?.pageRefs?.[0];
+  const poly = pageRef?.boundingPoly;
+  if (!poly) return null;
+
+  const pageIndex = Number(pageRef.page || 0);
+  const pageInfo = pages[pageIndex];
+  const points = poly.normalizedVertices?.length
+    ? poly.normalizedVertices.map(v => ({ x: v.x || 0, y: v.y || 0 }))
+    : (poly.vertices || []).map(v => ({
+      x: pageInfo?.width ? (v.x || 0) / pageInfo.width : 0,
+      y: pageInfo?.height ? (v.y || 0) / pageInfo.height : 0,
+    }));
+  if (points.length === 0) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+
+  return {
+    page: pageIndex + 1,
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+  };
+}
+
+// textAnchorからテキストを抽出するヘルパー関数
+export function extractTextFromAnchor(textAnchor: ITextAnchor | null | undefined, fullText: string): string {
+  if (!textAnchor?.textSegments || textAnchor.textSegments.length === 0) {
+    return '';
+  }
+
+  return textAnchor.textSegments
+    .map((segment) => {
+      const startIndex = Number(segment.startIndex || 0);
+      const endIndex = Number(segment.endIndex || 0);
+      return fullText.substring(startIndex, endIndex);
+    })
+    .join('')
+    .trim();
+}
+
+// Custom Extractor用: エンティティを再帰的に処理してフラットな構造に変換
+export interface ExtractedEntity {
+  type: string;
+  value: string;
+  confidence: number;
+  normalizedValue: string;
+  page: number;
+  boundingBox: BoundingBox | null;
+  properties: ExtractedEntity[];
+}
+
+export function processEntity(entity: IEntity, fullText: string, pages: PageInfo[] = []): ExtractedEntity {
+  // mentionTextがあればそれを使用、なければtextAnchorから抽出
+  const value = entity.mentionText || extractTextFromAnchor(entity.textAnchor, fullText);
+
+  return {
+    type: entity.type || '',
+    value,
+    confidence: entity.confidence || 0,
+    normalizedValue: entity.normalizedValue?.text || '',
+    page: Number(entity.pageAnchor?.pageRefs?.[0]?.page || 0) + 1,
+    boundingBox: extractBoundingBox(entity.pageAnchor, pages),
+    properties: entity.properties?.map(prop => processEntity(prop, fullText, pages)) || [],
+  };
+}
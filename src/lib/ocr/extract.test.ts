@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { analyzeDocument, analyzeDocumentWithDetection } from './extract';
+
+// フィクスチャのプロバイダー（保存済みのDocument JSON）で、前処理から注文書の作成までを確認する
+
+const DEFAULT_FIXTURE = path.join(process.cwd(), 'fixtures', 'document-ai', 'default.json');
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+// 取引先ID名のフィクスチャ（<processorId>.json）を、既定のフィクスチャのテキストを差し替えて作る
+function writeProcessorFixture(fixtureDir: string, processorId: string, text: string): void {
+  const document = JSON.parse(fs.readFileSync(DEFAULT_FIXTURE, 'utf8'));
+  fs.writeFileSync(path.join(fixtureDir, `${processorId}.json`), JSON.stringify({ ...document, text: `${text}\n${document.text}` }));
+}
+
+let tempDir: string;
+let fixtureDir: string;
+let processors: ProcessorConfig[];
+const originalEnv = { ...process.env };
+
+beforeEach(async () => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-extract-'));
+  fixtureDir = path.join(tempDir, 'fixtures');
+  fs.mkdirSync(fixtureDir);
+  fs.copyFileSync(DEFAULT_FIXTURE, path.join(fixtureDir, 'default.json'));
+
+  process.env.OCR_PROVIDER = 'fixture';
+  process.env.OCR_FIXTURE_DIR = fixtureDir;
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  processors = await loadProcessorRegistry();
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('analyzeDocument', () => {
+  it('フィクスチャの読み取り結果から注文書を作成する', async () => {
+    const [processor] = processors;
+    const { result } = await analyzeDocument({ content: await createPdf(1), mimeType: 'application/pdf', processor });
+
+    expect(result.provider).toBe('fixture');
+    expect(result.processorType).toBe(processor.id);
+    expect(result.purchaseOrder.header.order_number.raw).toBe('A-102938');
+    expect(result.purchaseOrder.header.order_date.value).toBe('2025-10-15');
+    expect(result.purchaseOrder.lines).toHaveLength(3);
+    expect(result.purchaseOrder.lines[0].fields.product_code.raw).toBe('1546');
+    expect(result.purchaseOrder.lines[0].fields.quantity.value).toBe(20);
+    expect(result.cache.status).toBe('miss');
+  });
+
+  it('同じファイルはキャッシュを使い、プロバイダーを呼び出すときだけページ数を数える', async () => {
+    const [processor] = processors;
+    const content = await createPdf(3);
+    const consumed: number[] = [];
+    const consumePages = (pages: number) => consumed.push(pages);
+
+    const first = await analyzeDocument({ content, mimeType: 'application/pdf', processor }, { consumePages });
+    const second = await analyzeDocument({ content, mimeType: 'application/pdf', processor }, { consumePages });
+    const refreshed = await analyzeDocument({ content, mimeType: 'application/pdf', processor }, { consumePages, refresh: true });
+
+    expect([first.result.cache.status, second.result.cache.status, refreshed.result.cache.status]).toEqual(['miss', 'hit', 'refresh']);
+    expect(consumed).toEqual([3, 3]);
+    expect(second.result.purchaseOrder).toEqual(first.result.purchaseOrder);
+  });
+});
+
+describe('analyzeDocumentWithDetection', () => {
+  it('1ページ目で判定した取引先で1回だけ読み取る', async () => {
+    const [first, second] = processors;
+    writeProcessorFixture(fixtureDir, first.id, second.detection!.keywords![0]);
+    const consumed: number[] = [];
+
+    const analysis = await analyzeDocumentWithDetection(
+      { content: await createPdf(3), mimeType: 'application/pdf', processors },
+      { consumePages: pages => consumed.push(pages) }
+    );
+
+    expect(analysis.processor.id).toBe(second.id);
+    expect(analysis.result.processorType).toBe(second.id);
+    expect(analysis.result.detection).toMatchObject({ mode: 'auto', detectedType: second.id });
+    // 判定のための1ページと、判定した取引先での残りの2ページ
+    expect(consumed).toEqual([1, 2]);
+  });
+
+  it('1ページのファイルを先頭以外の取引先と判定した場合は、読み直したページを重ねて数えない', async () => {
+    const [first, second] = processors;
+    writeProcessorFixture(fixtureDir, first.id, second.detection!.keywords![0]);
+    const consumed: number[] = [];
+
+    const analysis = await analyzeDocumentWithDetection(
+      { content: await createPdf(1), mimeType: 'application/pdf', processors },
+      { consumePages: pages => consumed.push(pages) }
+    );
+
+    expect(analysis.processor.id).toBe(second.id);
+    expect(consumed).toEqual([1]);
+  });
+
+  it('1ページのファイルを先頭の取引先と判定した場合は、判定の読み取り結果をそのまま使う', async () => {
+    const [first] = processors;
+    writeProcessorFixture(fixtureDir, first.id, first.detection!.keywords![0]);
+    const consumed: number[] = [];
+
+    const analysis = await analyzeDocumentWithDetection(
+      { content: await createPdf(1), mimeType: 'application/pdf', processors },
+      { consumePages: pages => consumed.push(pages) }
+    );
+
+    expect(analysis.processor.id).toBe(first.id);
+    expect(analysis.result.detection).toMatchObject({ mode: 'auto', detectedType: first.id });
+    expect(analysis.result.purchaseOrder.lines).toHaveLength(3);
+    expect(consumed).toEqual([1]);
+  });
+
+  it('取引先を指定した場合は指定の取引先で読み取り、判定結果は確認用に返す', async () => {
+    const [first, second] = processors;
+    writeProcessorFixture(fixtureDir, first.id, second.detection!.keywords![0]);
+    const consumed: number[] = [];
+
+    const analysis = await analyzeDocumentWithDetection(
+      { content: await createPdf(2), mimeType: 'application/pdf', processor: first, processors },
+      { consumePages: pages => consumed.push(pages) }
+    );
+
+    expect(analysis.processor.id).toBe(first.id);
+    expect(analysis.result.detection).toMatchObject({ mode: 'manual', detectedType: second.id });
+    expect(consumed).toEqual([2]);
+  });
+});
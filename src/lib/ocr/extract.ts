@@ -0,0 +1,189 @@
+import { preprocessDocument, PreprocessingSummary } from '@/lib/preprocess';
+import { detectProcessor, ProcessorDetection } from '@/lib/processors/detection';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { buildPurchaseOrder, PurchaseOrder } from '@/lib/purchase-order';
+import { OcrCacheInfo, readOcrCache, withOcrCache } from './cache';
+import { ExtractedEntity, extractPageInfo, PageInfo, processEntity } from './entities';
+import { mergeDocuments } from './merge';
+import { consolidatePages, PageLayout } from './pages';
+import { getExtractionProvider } from './providers';
+import { ExtractionRequest, IDocument } from './types';
+
+// 解析結果（APIレスポンス・バッチ処理の結果として返す形）
+export interface ExtractionResult {
+  text: string;
+  entities: ExtractedEntity[];
+  // 取引先設定に従って型変換した注文書
+  purchaseOrder: PurchaseOrder;
+  pageCount: number;
+  pages: PageInfo[];
+  // ページごとの明細行と、ページ間で重複・分割していた項目
+  layout: PageLayout;
+  // OCRに送る前の前処理（形式の変換・傾き補正・PDFの分割など）
+  preprocessing: PreprocessingSummary;
+  processorType: string;
+  provider: string;
+  // OCR結果のキャッシュを使ったかどうか
+  cache: OcrCacheInfo;
+  // 取引先の判定結果（analyzeDocumentWithDetectionで解析した場合）
+  detection?: ProcessorDetection;
+}
+
+// analyzeDocumentの結果（プロバイダーが返したドキュメントと前処理後のファイルを含む）
+export interface DocumentAnalysis {
+  document: IDocument;
+  preprocessed: { content: Buffer; mimeType: string };
+  result: ExtractionResult;
+}
+
+// プロバイダーがドキュメントを返さなかった場合のエラー
+export class EmptyDocumentError extends Error {
+  constructor() {
+    super('ドキュメントの解析に失敗しました');
+    this.name = 'EmptyDocumentError';
+  }
+}
+
+export interface AnalyzeOptions {
+  // true の場合はOCR結果のキャッシュを使わずに読み取り直す
+  refresh?: boolean;
+  // OCRプロバイダーを呼び出す直前に、解析するページ数を渡す（利用量の制限用。キャッシュを使う場合は呼ばない）
+  consumePages?: (pages: number) => void;
+}
+
+// ファイル1件をOCRプロバイダーで解析し、エンティティを抽出する
+export async function extractDocument(request: ExtractionRequest): Promise<ExtractionResult> {
+  const { result } = await analyzeDocument(request);
+  return result;
+}
+
+// extractDocumentと同じ解析を行い、プロバイダーが返したドキュメントと前処理後のファイルもあわせて返す（注文履歴への保存用）
+export function analyzeDocument(request: ExtractionRequest, options: AnalyzeOptions = {}): Promise<DocumentAnalysis> {
+  return readDocument(request, options);
+}
+
+// classified: 自動判定の結果。判定で同じ取引先のプロセッサで読み取り済みのドキュメント（ファイル全体を読み取った場合のみ）は
+// プロバイダーを呼び出さずに使い、判定で読み取ったページは利用量に数えない
+async function readDocument(
+  { content, mimeType, processor }: ExtractionRequest,
+  { refresh = false, consumePages }: AnalyzeOptions,
+  classified?: Pick<ProcessorClassification, 'document' | 'pagesRead'>
+): Promise<DocumentAnalysis> {
+  const provider = getExtractionProvider();
+  const preprocessed = await preprocessDocument({ content, mimeType, pageLimit: processor.pageLimit });
+
+  // 同じファイルを同じプロセッサで読み取ったことがあれば、キャッシュした結果を使う
+  const { document, cache } = await withOcrCache({ content, provider: provider.name, processor, refresh }, async () => {
+    if (classified?.document) return classified.document;
+
+    const pages = preprocessed.summary.chunks.reduce((sum, chunk) => sum + chunk.pageCount, 0) - (classified?.pagesRead || 0);
+    if (pages > 0) consumePages?.(pages);
+    // ページ数の上限で分割したPDFは順番に解析し、結果を1つにまとめる
+    const documents: IDocument[] = [];
+    for (const chunk of preprocessed.chunks) {
+      const chunkDocument = await provider.processDocument({ content: chunk.content, mimeType: chunk.mimeType, processor });
+      if (!chunkDocument) {
+        throw new EmptyDocumentError();
+      }
+      documents.push(chunkDocument);
+    }
+    return mergeDocuments(documents);
+  });
+
+  return {
+    document,
+    preprocessed: { content: preprocessed.content, mimeType: preprocessed.mimeType },
+    result: buildExtractionResult(document, { processor, preprocessing: preprocessed.summary, provider: provider.name, cache }),
+  };
+}
+
+// プロバイダーが返したドキュメントから解析結果を作る（非同期処理で読み取ったドキュメントにも使う）
+export function buildExtractionResult(document: IDocument, { processor, preprocessing, provider, cache }: {
+  processor: ProcessorConfig;
+  preprocessing: PreprocessingSummary;
+  provider: string;
+  cache: OcrCacheInfo;
+}): ExtractionResult {
+  // テキストとエンティティを抽出
+  const fullText = document.text || '';
+  const pages = extractPageInfo(document.pages);
+
+  // Custom Extractor用: エンティティを階層構造で抽出
+  // items（明細行）の中にjan_code, product_codeなどがネストされる
+  const entities = document.entities?.map((entity) => processEntity(entity, fullText, pages)) || [];
+  // 注文書は、ページごとに繰り返されたヘッダーと、ページをまたいだ明細行を整理してから作成する
+  const consolidated = consolidatePages(entities);
+
+  return {
+    text: fullText.trim(),
+    entities,
+    purchaseOrder: buildPurchaseOrder(consolidated.entities, processor),
+    pageCount: document.pages?.length || 0,
+    pages,
+    layout: consolidated.layout,
+    preprocessing,
+    processorType: processor.id,
+    provider,
+    cache,
+  };
+}
+
+// 取引先の自動判定の結果
+export interface ProcessorClassification {
+  // 読み取りに使う取引先（判定できなかった場合は取引先設定の先頭）
+  processor: ProcessorConfig;
+  detection: Omit<ProcessorDetection, 'mode'>;
+  // 判定のために読み取ったドキュメント（1ページのファイルを、判定した取引先のプロセッサで読み取った場合のみ）
+  document?: IDocument;
+  // 判定のために読み取って利用量に数えたページ数（キャッシュで判定した場合は0）
+  pagesRead: number;
+}
+
+// 読み取る前に取引先を判定する（判定した取引先のプロセッサで1回だけ読み取るため）
+// いずれかの取引先で読み取ったキャッシュがあればそのテキストで判定し、なければ1ページ目だけを先頭の取引先のプロセッサで読み取って判定する
+export async function classifyDocument({ content, mimeType, processors }: Omit<ExtractionRequest, 'processor'> & {
+  processors: ProcessorConfig[];
+}, { refresh = false, consumePages }: AnalyzeOptions = {}): Promise<ProcessorClassification> {
+  const provider = getExtractionProvider();
+  const classify = (text: string, pagesRead: number, document?: IDocument): ProcessorClassification => {
+    const detection = detectProcessor(text, processors);
+    const processor = processors.find(p => p.id === detection.detectedType) || processors[0];
+    return { processor, detection, pagesRead, ...(document && processor.id === processors[0].id ? { document } : {}) };
+  };
+
+  if (!refresh) {
+    for (const processor of processors) {
+      const cached = await readOcrCache({ content, provider: provider.name, processor });
+      if (cached) return classify(cached.document.text || '', 0);
+    }
+  }
+
+  const preprocessed = await preprocessDocument({ content, mimeType, pageLimit: 1 });
+  const [firstPage] = preprocessed.chunks;
+  consumePages?.(firstPage.pageCount);
+  const document = await provider.processDocument({ content: firstPage.content, mimeType: firstPage.mimeType, processor: processors[0] });
+  if (!document) {
+    throw new EmptyDocumentError();
+  }
+  // 1ページのファイルは、判定に読み取った結果がそのままファイル全体の読み取り結果になる
+  return classify(document.text || '', firstPage.pageCount, preprocessed.chunks.length === 1 ? document : undefined);
+}
+
+// 取引先を判定して解析する
+// processorを指定しない場合（自動判定）は、classifyDocumentで判定した取引先で読み取る
+// processorを指定した場合はその取引先で解析し、判定結果は指定の誤りの確認用として返す
+export async function analyzeDocumentWithDetection({ content, mimeType, processor, processors }: Omit<ExtractionRequest, 'processor'> & {
+  processor?: ProcessorConfig;
+  processors: ProcessorConfig[];
+}, options: AnalyzeOptions = {}): Promise<DocumentAnalysis & { processor: ProcessorConfig }> {
+  if (processor) {
+    const analysis = await readDocument({ content, mimeType, processor }, options);
+    analysis.result.detection = { mode: 'manual', ...detectProcessor(analysis.result.text, processors) };
+    return { ...analysis, processor };
+  }
+
+  const classification = await classifyDocument({ content, mimeType, processors }, options);
+  const analysis = await readDocument({ content, mimeType, processor: classification.processor }, options, classification);
+  analysis.result.detection = { mode: 'auto', ...classification.detection };
+  return { ...analysis, processor: classification.processor };
+}
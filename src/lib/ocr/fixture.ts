@@ -0,0 +1,43 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { protos } from '@google-cloud/documentai';
+import { ExtractionProvider, ExtractionRequest, ProviderConfigurationError } from './types';
+
+// 保存済みのDocument AIレスポンス（Document JSON）の置き場所
+function getFixtureDir(): string {
+  return process.env.OCR_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'document-ai');
+}
+
+// アップロードされたファイルに対応するフィクスチャを探す
+// 1. ファイル内容のSHA-256（<hash>.json） 2. 取引先ID（<processorId>.json） 3. default.json の順
+function resolveFixturePath({ content, processor }: ExtractionRequest): string | undefined {
+  const dir = getFixtureDir();
+  const hash = createHash('sha256').update(content).digest('hex');
+
+  return [`${hash}.json`, `${processor.id}.json`, 'default.json']
+    .map(fileName => path.join(dir, fileName))
+    .find(filePath => fs.existsSync(filePath));
+}
+
+// Google Cloudの認証情報なしで開発・テストするためのプロバイダー
+// processDocumentのレスポンスから保存したDocument JSONをそのまま返す
+export const fixtureProvider: ExtractionProvider = {
+  name: 'fixture',
+
+  async processDocument(request: ExtractionRequest) {
+    const filePath = resolveFixturePath(request);
+
+    if (!filePath) {
+      throw new ProviderConfigurationError(
+        `フィクスチャが見つかりません（${getFixtureDir()}）。OCR_FIXTURE_DIRを確認してください。`
+      );
+    }
+
+    const json = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    // processDocumentのレスポンス全体（{ document: ... }）を保存した場合にも対応
+    const documentJson = json.document ?? json;
+
+    return protos.google.cloud.documentai.v1.Document.fromObject(documentJson);
+  },
+};
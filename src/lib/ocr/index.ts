@@ -0,0 +1,6 @@
+export * from './types';
+export * from './entities';
+export * from './providers';
+export * from './cache';
+export * from './extract';
+export * from './pages';
@@ -0,0 +1,44 @@
+import { IDocument } from './types';
+
+// 分割してOCRに送ったPDFの結果を1つのドキュメントにまとめる
+// 2つ目以降のドキュメントは、テキストの位置（textSegments）とページ番号（pageRefs・pageNumber）を前のドキュメントの分だけずらす
+
+function shiftAnchors(value: unknown, textOffset: number, pageOffset: number): unknown {
+  if (Array.isArray(value)) return value.map(item => shiftAnchors(item, textOffset, pageOffset));
+  // ページ画像などのバイナリはそのまま
+  if (!value || typeof value !== 'object' || ArrayBuffer.isView(value)) return value;
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+    if (key === 'textSegments' && Array.isArray(child)) {
+      return [key, child.map(segment => ({
+        ...segment,
+        startIndex: Number(segment.startIndex || 0) + textOffset,
+        endIndex: Number(segment.endIndex || 0) + textOffset,
+      }))];
+    }
+    if (key === 'pageRefs' && Array.isArray(child)) {
+      return [key, child.map(ref => ({ ...shiftAnchors(ref, textOffset, pageOffset) as object, page: Number(ref.page || 0) + pageOffset }))];
+    }
+    return [key, shiftAnchors(child, textOffset, pageOffset)];
+  }));
+}
+
+export function mergeDocuments(documents: IDocument[]): IDocument {
+  if (documents.length === 1) return documents[0];
+
+  let textOffset = 0;
+  let pageOffset = 0;
+  const merged: IDocument = { ...documents[0], text: '', pages: [], entities: [] };
+
+  for (const document of documents) {
+    const shifted = shiftAnchors(document, textOffset, pageOffset) as IDocument;
+    merged.text += document.text || '';
+    merged.pages!.push(...(shifted.pages || []).map((page, index) => ({ ...page, pageNumber: pageOffset + index + 1 })));
+    merged.entities!.push(...shifted.entities || []);
+
+    textOffset += (document.text || '').length;
+    pageOffset += document.pages?.length || 0;
+  }
+
+  return merged;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedEntity } from './entities';
+import { consolidatePages } from './pages';
+
+function entity(type: string, value: string, page: number, confidence = 0.9, properties: ExtractedEntity[] = []): ExtractedEntity {
+  return { type, value, confidence, normalizedValue: '', page, boundingBox: null, properties };
+}
+
+function item(page: number, values: Record<string, string>, confidence = 0.9): ExtractedEntity {
+  return entity('item', '', page, confidence, Object.entries(values).map(([type, value]) => entity(type, value, page, confidence)));
+}
+
+function propertyValue(line: ExtractedEntity, type: string): string | undefined {
+  return line.properties.find(prop => prop.type === type)?.value;
+}
+
+describe('consolidatePages', () => {
+  it('ページごとに繰り返されたヘッダー項目は信頼度が最も高いものを残す', () => {
+    const { entities, layout } = consolidatePages([
+      entity('order_number', 'A-102938', 0, 0.8),
+      entity('order_number', 'A-102938', 1, 0.95),
+      entity('order_date', '2025/10/15', 0),
+    ]);
+
+    expect(entities.filter(e => e.type === 'order_number')).toEqual([expect.objectContaining({ page: 1, confidence: 0.95 })]);
+    expect(layout.repeatedHeaders).toEqual([{ type: 'order_number', pages: [0, 1], conflicting: false }]);
+  });
+
+  it('ページによって値が異なるヘッダー項目は食い違いとして記録する（空白・全角の違いは同じ値とみなす）', () => {
+    const { layout } = consolidatePages([
+      entity('order_number', 'A-102938', 0),
+      entity('order_number', 'Ａ-102938 ', 1),
+      entity('delivery_date', '2025/10/20', 0),
+      entity('delivery_date', '2025/10/21', 1),
+    ]);
+
+    expect(layout.repeatedHeaders).toEqual([
+      { type: 'order_number', pages: [0, 1], conflicting: false },
+      { type: 'delivery_date', pages: [0, 1], conflicting: true },
+    ]);
+  });
+
+  it('次のページの先頭にある商品コードのない行を、前のページの最終行にまとめる', () => {
+    const { entities, layout } = consolidatePages([
+      item(0, { product_code: '1546', product_name: '油性ツインマーカー' }),
+      item(0, { product_code: '2337', product_name: '蛍光ツイン' }),
+      item(1, { product_name: 'マーカー（黄）', quantity: '10' }, 0.7),
+      item(1, { product_code: '3001', product_name: 'ボールペン', quantity: '5' }),
+    ]);
+
+    const lines = entities.filter(e => e.type === 'item');
+    expect(lines).toHaveLength(3);
+    expect(propertyValue(lines[1], 'product_name')).toBe('蛍光ツインマーカー（黄）');
+    expect(propertyValue(lines[1], 'quantity')).toBe('10');
+    expect(lines[1].properties.find(prop => prop.type === 'product_name')?.confidence).toBe(0.7);
+    expect(layout.mergedLines).toEqual([{ line: 1, pages: [0, 1] }]);
+    expect(layout.pages).toEqual([{ page: 0, lines: [0, 1] }, { page: 1, lines: [2] }]);
+  });
+
+  it('前の行と同じ項目（品名以外）を持つ行や、ページが続かない行はまとめない', () => {
+    const { entities, layout } = consolidatePages([
+      item(0, { product_code: '1546', quantity: '20' }),
+      item(1, { quantity: '10' }),
+      item(3, { product_name: '消しゴム' }),
+    ]);
+
+    expect(entities.filter(e => e.type === 'item')).toHaveLength(3);
+    expect(layout.mergedLines).toEqual([]);
+  });
+
+  it('ページ順に並べ替えてから明細行をまとめる', () => {
+    const { entities, layout } = consolidatePages([
+      item(1, { amount: '2000' }),
+      item(0, { product_code: '1546', product_name: '油性ツインマーカー', quantity: '20' }),
+    ]);
+
+    expect(entities).toHaveLength(1);
+    expect(propertyValue(entities[0], 'amount')).toBe('2000');
+    expect(layout.mergedLines).toEqual([{ line: 0, pages: [0, 1] }]);
+  });
+});
@@ -0,0 +1,135 @@
+import type { ExtractedEntity } from './entities';
+
+// 複数ページの注文書の整理
+// 大口の注文書はページごとにヘッダー（注文番号・納入先など）が繰り返し印字され、明細表が次のページに続く
+
+// 明細行のエンティティのtype
+const ITEM_TYPE = 'item';
+
+// 明細行を特定できるプロパティ（これがない行は前のページの行の続きとみなせる）
+const IDENTIFYING_PROPERTIES = ['product_code', 'jan_code'];
+
+// ページをまたいで続く場合に連結するプロパティ
+const CONTINUED_TEXT_PROPERTIES = ['product_name'];
+
+// 複数ページに記載されていたヘッダー項目
+export interface RepeatedHeader {
+  type: string;
+  pages: number[];
+  // ページによって読み取った値が異なる（採用したのは信頼度が最も高い値）
+  conflicting: boolean;
+}
+
+// ページをまたいで分かれていたため1行にまとめた明細
+export interface MergedLine {
+  // 解析結果の明細行（purchaseOrder.lines）のインデックス
+  line: number;
+  pages: number[];
+}
+
+export interface PageLayout {
+  // ページごとの明細行（purchaseOrder.linesのインデックス）
+  pages: { page: number; lines: number[] }[];
+  repeatedHeaders: RepeatedHeader[];
+  mergedLines: MergedLine[];
+}
+
+function normalizeText(value: string): string {
+  return value.normalize('NFKC').replace(/\s/g, '');
+}
+
+// 比較用の値（recipient_companyのように子エンティティを持つ場合はその値を連結する）
+function getComparableValue(entity: ExtractedEntity): string {
+  if (entity.properties.length === 0) return normalizeText(entity.value || entity.normalizedValue);
+  return entity.properties
+    .map(prop => `${prop.type}=${getComparableValue(prop)}`)
+    .sort()
+    .join('|');
+}
+
+function getFilledProperties(item: ExtractedEntity): Set<string> {
+  return new Set(item.properties.filter(prop => (prop.value || prop.normalizedValue).trim()).map(prop => prop.type));
+}
+
+// 次のページの先頭行が、前のページの最終行の続きかどうか
+// 続きの行は商品コード・JANコードを持たず、品名以外に同じ項目を持たない（数量・金額だけが次のページにある場合など）
+function isContinuation(previous: ExtractedEntity, next: ExtractedEntity): boolean {
+  if (next.page !== previous.page + 1) return false;
+
+  const nextFilled = getFilledProperties(next);
+  if (nextFilled.size === 0 || IDENTIFYING_PROPERTIES.some(type => nextFilled.has(type))) return false;
+
+  const previousFilled = getFilledProperties(previous);
+  return [...nextFilled].every(type => CONTINUED_TEXT_PROPERTIES.includes(type) || !previousFilled.has(type));
+}
+
+// 続きの行のプロパティを前の行にまとめる（品名は連結する）
+function mergeItems(previous: ExtractedEntity, next: ExtractedEntity): ExtractedEntity {
+  const properties = previous.properties.map(prop => {
+    const continued = next.properties.find(p => p.type === prop.type);
+    if (!continued || !CONTINUED_TEXT_PROPERTIES.includes(prop.type)) return prop;
+    return {
+      ...prop,
+      value: `${prop.value}${continued.value}`,
+      confidence: Math.min(prop.confidence, continued.confidence),
+    };
+  });
+  const previousTypes = new Set(previous.properties.map(prop => prop.type));
+
+  return {
+    ...previous,
+    properties: [...properties, ...next.properties.filter(prop => !previousTypes.has(prop.type))],
+  };
+}
+
+// ページごとに繰り返されたヘッダー項目は信頼度が最も高いものだけを残し、
+// ページをまたいで分かれた明細行を1行にまとめる
+export function consolidatePages(entities: ExtractedEntity[]): { entities: ExtractedEntity[]; layout: PageLayout } {
+  const headers = new Map<string, ExtractedEntity[]>();
+  const items: { entity: ExtractedEntity; pages: number[] }[] = [];
+
+  // ページ順に並べる（同じページ内はDocument AIの出力順のまま）
+  const sorted = [...entities].sort((a, b) => a.page - b.page);
+
+  for (const entity of sorted) {
+    if (entity.type !== ITEM_TYPE) {
+      headers.set(entity.type, [...headers.get(entity.type) || [], entity]);
+      continue;
+    }
+
+    const previous = items[items.length - 1];
+    if (previous && isContinuation(previous.entity, entity)) {
+      previous.entity = mergeItems(previous.entity, entity);
+      previous.pages.push(entity.page);
+    } else {
+      items.push({ entity, pages: [entity.page] });
+    }
+  }
+
+  const repeatedHeaders: RepeatedHeader[] = [];
+  const headerEntities = [...headers.entries()].map(([type, candidates]) => {
+    const [best] = [...candidates].sort((a, b) => b.confidence - a.confidence || a.page - b.page);
+    if (candidates.length > 1) {
+      repeatedHeaders.push({
+        type,
+        pages: [...new Set(candidates.map(entity => entity.page))],
+        conflicting: new Set(candidates.map(getComparableValue)).size > 1,
+      });
+    }
+    return best;
+  });
+
+  const pageNumbers = [...new Set(items.map(item => item.entity.page))];
+
+  return {
+    entities: [...headerEntities, ...items.map(item => item.entity)],
+    layout: {
+      pages: pageNumbers.map(page => ({
+        page,
+        lines: items.flatMap((item, index) => (item.entity.page === page ? [index] : [])),
+      })),
+      repeatedHeaders,
+      mergedLines: items.flatMap((item, index) => (item.pages.length > 1 ? [{ line: index, pages: item.pages }] : [])),
+    },
+  };
+}
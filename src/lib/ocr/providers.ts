@@ -0,0 +1,22 @@
+import { documentAiProvider } from './document-ai';
+import { fixtureProvider } from './fixture';
+import { ExtractionProvider, ProviderConfigurationError } from './types';
+
+const PROVIDERS: Record<string, ExtractionProvider> = {
+  [documentAiProvider.name]: documentAiProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+// OCR_PROVIDER環境変数でプロバイダーを切り替える（未設定時はDocument AI）
+export function getExtractionProvider(): ExtractionProvider {
+  const name = process.env.OCR_PROVIDER || documentAiProvider.name;
+  const provider = PROVIDERS[name];
+
+  if (!provider) {
+    throw new ProviderConfigurationError(
+      `不明なOCRプロバイダーです: ${name}（${Object.keys(PROVIDERS).join(', ')}のいずれかを指定してください）`
+    );
+  }
+
+  return provider;
+}
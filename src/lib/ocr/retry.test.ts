@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callWithRetry, classifyProviderError, getProviderCallSettings } from './retry';
+import { ProviderConfigurationError, ProviderError } from './types';
+
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  // 再試行までの待ち時間を短くする
+  process.env.DOCUMENT_AI_RETRY_DELAY_SECONDS = '0.001';
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  vi.restoreAllMocks();
+});
+
+// google-gaxのエラーと同じ形（codeにgRPCのステータス、detailsに詳細）
+function grpcError(code: number, details = 'error'): Error {
+  return Object.assign(new Error(`${code} ${details}`), { code, details });
+}
+
+describe('classifyProviderError', () => {
+  it.each([
+    [16, 'provider_auth_failed', 502, false],
+    [7, 'provider_auth_failed', 502, false],
+    [8, 'quota_exceeded', 429, true],
+    [3, 'unsupported_document', 422, false],
+    [11, 'unsupported_document', 422, false],
+    [4, 'provider_timeout', 504, false],
+    [14, 'provider_unavailable', 503, true],
+    [13, 'provider_unavailable', 503, true],
+    [10, 'provider_unavailable', 503, true],
+  ])('gRPCのステータス %i を %s（%i）に分類する', (code, expectedCode, status, retryable) => {
+    const error = classifyProviderError(grpcError(code), 2);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ code: expectedCode, status, options: { retryable, grpcCode: code, attempts: 2 } });
+  });
+
+  it('プロセッサが見つからない・無効な場合は設定の誤りとして扱う', () => {
+    expect(classifyProviderError(grpcError(5))).toBeInstanceOf(ProviderConfigurationError);
+    expect(classifyProviderError(grpcError(9))).toBeInstanceOf(ProviderConfigurationError);
+  });
+
+  it('ステータスを持たない接続エラーや認証情報の読み込みエラーを分類する', () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    expect(classifyProviderError(reset)).toMatchObject({ code: 'provider_unavailable', options: { retryable: true } });
+    expect(classifyProviderError(new Error('Could not load the default credentials.'))).toMatchObject({ code: 'provider_auth_failed', options: { retryable: false } });
+  });
+
+  it('分類できないエラーと分類済みのエラーはそのまま返す', () => {
+    const unknown = new Error('予期しないエラー');
+    const classified = new ProviderError('quota_exceeded', '利用上限', 429, { retryable: true });
+
+    expect(classifyProviderError(unknown)).toBe(unknown);
+    expect(classifyProviderError(classified)).toBe(classified);
+  });
+});
+
+describe('callWithRetry', () => {
+  it('一時的な障害は再試行し、成功した結果を返す', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(grpcError(14))
+      .mockRejectedValueOnce(grpcError(8))
+      .mockResolvedValue('ok');
+
+    await expect(callWithRetry('テスト', call)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(call).toHaveBeenCalledWith({ timeout: getProviderCallSettings().timeoutMs, retry: null });
+  });
+
+  it('再試行しても回復しない場合は、試行回数を付けて分類したエラーにする', async () => {
+    process.env.DOCUMENT_AI_MAX_RETRIES = '2';
+    const call = vi.fn().mockRejectedValue(grpcError(14, 'unavailable'));
+
+    await expect(callWithRetry('テスト', call)).rejects.toMatchObject({ code: 'provider_unavailable', options: { attempts: 3 } });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('タイムアウトや再試行しても同じ結果になるエラーは再試行しない', async () => {
+    const timeout = vi.fn().mockRejectedValue(grpcError(4));
+    const invalid = vi.fn().mockRejectedValue(grpcError(3));
+
+    await expect(callWithRetry('テスト', timeout)).rejects.toMatchObject({ code: 'provider_timeout', options: { attempts: 1 } });
+    await expect(callWithRetry('テスト', invalid)).rejects.toMatchObject({ code: 'unsupported_document' });
+    expect(timeout).toHaveBeenCalledTimes(1);
+    expect(invalid).toHaveBeenCalledTimes(1);
+  });
+
+  it('再試行回数に0を指定した場合は1回だけ呼び出す', async () => {
+    process.env.DOCUMENT_AI_MAX_RETRIES = '0';
+    const call = vi.fn().mockRejectedValue(grpcError(14));
+
+    await expect(callWithRetry('テスト', call)).rejects.toBeInstanceOf(ProviderError);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
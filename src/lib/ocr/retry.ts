@@ -0,0 +1,124 @@
+import { ProviderConfigurationError, ProviderError } from './types';
+
+// Document AI（gRPC）呼び出しのタイムアウト・再試行とエラーの分類
+// 一時的な障害は指数バックオフで再試行し、それ以外は原因ごとのエラー（ProviderError）に変換する
+
+// gRPCのステータスコード（google-gaxのStatusと同じ値）
+const GrpcStatus = {
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  OUT_OF_RANGE: 11,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  UNAUTHENTICATED: 16,
+} as const;
+
+// 再試行するgRPCのステータス（タイムアウトは再試行しても同じ結果になりやすく、待ち時間が長くなるため含めない）
+// 分当たりのリクエスト数などの利用上限（RESOURCE_EXHAUSTED）は、待ち時間を延ばしながら再試行すれば収まることが多い
+// classifyProviderErrorのretryableは、このステータスと接続エラーの場合にだけtrueにする
+const RETRYABLE_GRPC_CODES: number[] = [
+  GrpcStatus.UNAVAILABLE,
+  GrpcStatus.INTERNAL,
+  GrpcStatus.ABORTED,
+  GrpcStatus.RESOURCE_EXHAUSTED,
+];
+
+// 接続の切断・名前解決の一時的な失敗など、gRPCのステータスを持たないネットワークエラー
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+// 認証情報を読み込めない・アクセストークンを取得できない場合のメッセージ（google-auth-library）
+const AUTH_ERROR_PATTERN = /Could not load the default credentials|Could not refresh access token|invalid_grant|unauthorized_client/i;
+
+export function getProviderCallSettings() {
+  const maxRetries = Number(process.env.DOCUMENT_AI_MAX_RETRIES || 3);
+  return {
+    // 1回の呼び出しのタイムアウト
+    timeoutMs: (Number(process.env.DOCUMENT_AI_TIMEOUT_SECONDS) || 120) * 1000,
+    // 失敗した場合に再試行する回数（0で再試行しない）
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 3,
+    // 1回目の再試行までの待ち時間（以降は2倍ずつ、最大30秒）
+    initialDelayMs: (Number(process.env.DOCUMENT_AI_RETRY_DELAY_SECONDS) || 1) * 1000,
+    maxDelayMs: 30 * 1000,
+  };
+}
+
+// クライアントのメソッドに渡すオプション（クライアント側の再試行は無効にし、このモジュールで再試行する）
+export interface ProviderCallOptions {
+  timeout: number;
+  retry: null;
+}
+
+interface ErrorLike {
+  code?: number | string;
+  details?: string;
+  message?: string;
+}
+
+function isRetryable(error: unknown): boolean {
+  const { code } = (error || {}) as ErrorLike;
+  return typeof code === 'number'
+    ? RETRYABLE_GRPC_CODES.includes(code)
+    : typeof code === 'string' && NETWORK_ERROR_CODES.includes(code);
+}
+
+// 呼び出しのエラーを原因ごとのエラーに変換する（分類できないものはそのまま返す）
+export function classifyProviderError(error: unknown, attempts = 1): Error {
+  if (error instanceof ProviderError || error instanceof ProviderConfigurationError) return error;
+
+  const { code, details, message } = (error || {}) as ErrorLike;
+  const detail = details || message || String(error);
+  const grpcCode = typeof code === 'number' ? code : undefined;
+  const options = { grpcCode, attempts, cause: error };
+
+  switch (grpcCode) {
+    case GrpcStatus.UNAUTHENTICATED:
+    case GrpcStatus.PERMISSION_DENIED:
+      return new ProviderError('provider_auth_failed', `Document AIの認証に失敗しました（${detail}）`, 502, { ...options, retryable: false });
+    case GrpcStatus.RESOURCE_EXHAUSTED:
+      return new ProviderError('quota_exceeded', `Document AIの利用上限に達しました（${detail}）`, 429, { ...options, retryable: true });
+    case GrpcStatus.INVALID_ARGUMENT:
+    case GrpcStatus.OUT_OF_RANGE:
+      return new ProviderError('unsupported_document', `Document AIがファイルを処理できませんでした（${detail}）`, 422, { ...options, retryable: false });
+    case GrpcStatus.DEADLINE_EXCEEDED:
+      return new ProviderError('provider_timeout', `Document AIの処理がタイムアウトしました（${detail}）`, 504, { ...options, retryable: false });
+    case GrpcStatus.NOT_FOUND:
+    case GrpcStatus.FAILED_PRECONDITION:
+      // プロセッサID・バージョンの誤り、無効化されたプロセッサなど
+      return new ProviderConfigurationError(`Document AIのプロセッサを利用できません（${detail}）。取引先設定と環境変数を確認してください。`);
+  }
+
+  if (isRetryable(error)) {
+    return new ProviderError('provider_unavailable', `Document AIに接続できませんでした（${detail}）`, 503, { ...options, retryable: true });
+  }
+  if (AUTH_ERROR_PATTERN.test(detail)) {
+    return new ProviderError('provider_auth_failed', `Document AIの認証に失敗しました（${detail}）`, 502, { ...options, retryable: false });
+  }
+  return error instanceof Error ? error : new Error(detail);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// タイムアウトを指定して呼び出し、一時的な障害の場合は待ち時間を延ばしながら再試行する
+export async function callWithRetry<T>(label: string, call: (options: ProviderCallOptions) => Promise<T>): Promise<T> {
+  const { timeoutMs, maxRetries, initialDelayMs, maxDelayMs } = getProviderCallSettings();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call({ timeout: timeoutMs, retry: null });
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) {
+        throw classifyProviderError(error, attempt + 1);
+      }
+
+      // 同時に失敗したリクエストが一斉に再試行しないよう、待ち時間をばらつかせる
+      const delayMs = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`${label}が失敗したため${Math.round(delayMs)}ms後に再試行します（${attempt + 1}/${maxRetries}回目）:`, (error as ErrorLike).message || error);
+      await sleep(delayMs);
+    }
+  }
+}
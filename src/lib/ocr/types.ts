@@ -0,0 +1,57 @@
+import { google } from '@google-cloud/documentai/build/protos/protos';
+import { ProcessorConfig } from '@/lib/processors/types';
+
+export type IDocument = google.cloud.documentai.v1.IDocument;
+
+// 抽出プロバイダーへの入力
+export interface ExtractionRequest {
+  content: Buffer;
+  mimeType: string;
+  processor: ProcessorConfig;
+}
+
+// OCRバックエンドの共通インターフェース
+// Document AI以外（フィクスチャ再生など）もこの形で差し替える
+export interface ExtractionProvider {
+  readonly name: string;
+  processDocument(request: ExtractionRequest): Promise<IDocument | null | undefined>;
+}
+
+// 環境変数などの設定不備（リクエスト内容ではなくサーバー側の問題）
+export class ProviderConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigurationError';
+  }
+}
+
+// OCRプロバイダーの呼び出しで発生したエラーの分類（APIの code としてそのまま返す）
+// provider_auth_failed: 認証情報・権限の不備、quota_exceeded: 利用上限、unsupported_document: ファイルを処理できない、
+// provider_unavailable: 一時的な障害（再試行しても回復しなかった）、provider_timeout: 時間内に応答がなかった
+export type ProviderErrorCode =
+  | 'provider_auth_failed'
+  | 'quota_exceeded'
+  | 'unsupported_document'
+  | 'provider_unavailable'
+  | 'provider_timeout';
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly code: ProviderErrorCode,
+    message: string,
+    // APIで返すHTTPステータス
+    public readonly status: number,
+    public readonly options: {
+      // 時間をおけば成功する可能性があるかどうか
+      retryable: boolean;
+      // gRPCのステータスコード
+      grpcCode?: number;
+      // 再試行した回数
+      attempts?: number;
+      cause?: unknown;
+    }
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
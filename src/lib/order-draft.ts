@@ -0,0 +1,310 @@
+import type { BoundingBox } from '@/lib/ocr/entities';
+import { getHeaderFieldKey, normalizeProductCode, ProductCodeRule, PublicProcessorConfig } from '@/lib/processors/types';
+import { isConfidentMatch, MatchQuery, ProductCandidate } from '@/lib/products/matching';
+import type { Product } from '@/lib/products/types';
+import type { PurchaseOrder, PurchaseOrderLine } from '@/lib/purchase-order';
+
+// 画面で手修正する注文書データ
+// original（OCR結果）と values（現在の値）を持ち、差分を手修正として扱う
+// 商品マスターとの照合で自動的に補正した値は corrected に分けて持ち、手修正には含めない
+export interface DraftRow {
+  id: string;
+  // 手動で追加した行はnull
+  original: Record<string, string> | null;
+  // 商品マスターとの照合で補正した値（補正したカラムのみ）
+  corrected?: Record<string, string>;
+  values: Record<string, string>;
+  // OCRの信頼度（0〜1）。値が読み取れなかったカラムは含まない
+  confidence: Record<string, number>;
+  // 明細行が記載されていたページ（追加行は0）
+  page: number;
+  // 各カラムの読み取り位置
+  boxes: Record<string, BoundingBox>;
+  // OCR結果から求めた商品マスターの候補（スコア順）
+  candidates: ProductCandidate[];
+}
+
+export interface OrderDraft {
+  headerOriginal: Record<string, string>;
+  header: Record<string, string>;
+  headerConfidence: Record<string, number>;
+  headerBoxes: Record<string, BoundingBox>;
+  rows: DraftRow[];
+}
+
+// 確認が必要なセルの理由（low: 信頼度がしきい値未満、missing: 必須項目が空）
+export type ReviewReason = 'low' | 'missing';
+
+export type DraftAction =
+  | { type: 'setHeader'; key: string; value: string }
+  | { type: 'setCell'; rowId: string; key: string; value: string }
+  | { type: 'addRow' }
+  | { type: 'deleteRow'; rowId: string }
+  | { type: 'moveRow'; rowId: string; offset: number }
+  | { type: 'applyProduct'; rowId: string; product: Product }
+  | { type: 'setCandidates'; rowId: string; candidates: ProductCandidate[] };
+
+let rowSequence = 0;
+
+function nextRowId(): string {
+  rowSequence += 1;
+  return `row-${rowSequence}`;
+}
+
+// ビューアと表のセルを対応付けるID
+export function getHeaderFieldId(key: string): string {
+  return `header:${key}`;
+}
+
+export function getCellFieldId(rowId: string, key: string): string {
+  return `${rowId}:${key}`;
+}
+
+// 明細行が記載されていたページ（ページをまたいでまとめた行は複数。追加行は空）
+export function getRowPages(row: Pick<DraftRow, 'page' | 'boxes'>): number[] {
+  const pages = [row.page, ...Object.values(row.boxes).map(box => box.page)].filter(page => page > 0);
+  return [...new Set(pages)].sort((a, b) => a - b);
+}
+
+// 行の商品コードが商品マスターの候補と一致しているかを判定する
+export function findMatchedProduct(row: DraftRow, rule: ProductCodeRule): {
+  matchedProduct: Product | undefined;
+  isCodeLength: boolean;
+} {
+  // 規定桁数以上の場合は先頭の規定桁数に変換
+  const normalizedCode = normalizeProductCode(row.values.product_code || '', rule);
+  const isCodeLength = normalizedCode.length === rule.length;
+  const matchedProduct = row.candidates.find(c => c.product.product_code === normalizedCode)?.product;
+
+  return { matchedProduct, isCodeLength };
+}
+
+// 商品マスターとの照合に使う値
+export function getLineMatchQuery(line: PurchaseOrderLine): MatchQuery {
+  return {
+    code: line.fields.product_code?.raw || '',
+    jan: line.fields.jan_code?.raw || '',
+    name: line.fields.product_name?.raw || '',
+  };
+}
+
+export function getRowMatchQuery(row: Pick<DraftRow, 'values'>): MatchQuery {
+  return {
+    code: row.values.product_code || '',
+    jan: row.values.jan_code || '',
+    name: row.values.product_name || '',
+  };
+}
+
+// 補正されたproduct_codeまたはproduct_nameを取得する
+// 商品コードまたはJANコードでマスターと一致した場合は、マスターのコードと商品名を使用
+export function getCorrectedValue(
+  line: PurchaseOrderLine,
+  key: string,
+  candidates: ProductCandidate[]
+): string {
+  const [best] = candidates;
+  if ((key === 'product_code' || key === 'product_name') && isConfidentMatch(best)) {
+    return key === 'product_code' ? best.product.product_code : best.product.product_name;
+  }
+  return line.fields[key]?.raw || '';
+}
+
+// 手修正かどうかを判定する基準の値（OCR結果に商品マスターでの補正を重ねた値。追加行はnull）
+export function getRowBaseValues(row: Pick<DraftRow, 'original' | 'corrected'>): Record<string, string> | null {
+  return row.original ? { ...row.original, ...row.corrected } : null;
+}
+
+// 注文書から手修正用のデータを作成する
+// candidatesByLineは明細行と同じ順序の商品マスター候補
+export function createDraft(
+  order: PurchaseOrder,
+  processor: PublicProcessorConfig,
+  candidatesByLine: ProductCandidate[][]
+): OrderDraft {
+  const headerFields = Object.entries(order.header);
+  const headerOriginal = Object.fromEntries(headerFields.map(([key, field]) => [key, field.raw]));
+  const headerConfidence = Object.fromEntries(headerFields.flatMap(([key, field]) =>
+    field.confidence !== undefined ? [[key, field.confidence]] : []
+  ));
+  const headerBoxes = Object.fromEntries(headerFields.flatMap(([key, field]) =>
+    field.boundingBox ? [[key, field.boundingBox]] : []
+  ));
+
+  const rows = order.lines.map((line, index) => {
+    const candidates = candidatesByLine[index] || [];
+    const original = Object.fromEntries(processor.itemColumns.map(col => [col.key, line.fields[col.key]?.raw || '']));
+    const corrected = Object.fromEntries(processor.itemColumns.flatMap(col => {
+      const value = getCorrectedValue(line, col.key, candidates);
+      return value !== original[col.key] ? [[col.key, value]] : [];
+    }));
+    const lineFields = Object.entries(line.fields);
+    const confidence = Object.fromEntries(lineFields.flatMap(([key, field]) =>
+      field.confidence !== undefined ? [[key, field.confidence]] : []
+    ));
+    const boxes = Object.fromEntries(lineFields.flatMap(([key, field]) =>
+      field.boundingBox ? [[key, field.boundingBox]] : []
+    ));
+    return {
+      id: nextRowId(),
+      original,
+      corrected,
+      values: { ...original, ...corrected },
+      confidence,
+      page: line.page,
+      boxes,
+      candidates,
+    };
+  });
+
+  return { headerOriginal, header: { ...headerOriginal }, headerConfidence, headerBoxes, rows };
+}
+
+// 保存用の手修正データ（行IDと商品マスター候補は開き直すときに振り直す）
+export interface StoredOrderDraft extends Omit<OrderDraft, 'rows'> {
+  rows: Omit<DraftRow, 'id' | 'candidates'>[];
+}
+
+export function toStoredDraft(draft: OrderDraft): StoredOrderDraft {
+  return {
+    ...draft,
+    rows: draft.rows.map(({ original, corrected, values, confidence, page, boxes }) => ({
+      original,
+      corrected,
+      values,
+      confidence,
+      page,
+      boxes,
+    })),
+  };
+}
+
+// 保存した手修正データを画面で編集できる形に戻す
+// candidatesByRowは保存データの明細行と同じ順序の商品マスター候補
+export function restoreDraft(stored: StoredOrderDraft, candidatesByRow: ProductCandidate[][]): OrderDraft {
+  return {
+    ...stored,
+    rows: stored.rows.map((row, index) => ({ ...row, id: nextRowId(), candidates: candidatesByRow[index] || [] })),
+  };
+}
+
+export function applyDraftAction(draft: OrderDraft, action: DraftAction): OrderDraft {
+  switch (action.type) {
+    case 'setHeader':
+      return { ...draft, header: { ...draft.header, [action.key]: action.value } };
+    case 'setCell':
+      return {
+        ...draft,
+        rows: draft.rows.map(row => row.id === action.rowId
+          ? { ...row, values: { ...row.values, [action.key]: action.value } }
+          : row),
+      };
+    case 'addRow':
+      return {
+        ...draft,
+        rows: [...draft.rows, { id: nextRowId(), original: null, values: {}, confidence: {}, page: 0, boxes: {}, candidates: [] }],
+      };
+    case 'deleteRow':
+      return { ...draft, rows: draft.rows.filter(row => row.id !== action.rowId) };
+    case 'applyProduct':
+      // 候補から選んだ商品のコードと商品名を反映する
+      return {
+        ...draft,
+        rows: draft.rows.map(row => row.id === action.rowId
+          ? {
+            ...row,
+            values: {
+              ...row.values,
+              product_code: action.product.product_code,
+              product_name: action.product.product_name,
+            },
+          }
+          : row),
+      };
+    case 'setCandidates':
+      return {
+        ...draft,
+        rows: draft.rows.map(row => row.id === action.rowId ? { ...row, candidates: action.candidates } : row),
+      };
+    case 'moveRow': {
+      const from = draft.rows.findIndex(row => row.id === action.rowId);
+      const to = from + action.offset;
+      if (from < 0 || to < 0 || to >= draft.rows.length) return draft;
+
+      const rows = [...draft.rows];
+      const [row] = rows.splice(from, 1);
+      rows.splice(to, 0, row);
+      return { ...draft, rows };
+    }
+  }
+}
+
+// OCR結果（商品マスターで補正した場合は補正後）から変更されたセルかどうか（追加行は値が入っていれば変更扱い）
+export function isCellEdited(row: Pick<DraftRow, 'original' | 'corrected' | 'values'>, key: string): boolean {
+  const value = row.values[key] || '';
+  const base = getRowBaseValues(row);
+  return base ? value !== (base[key] || '') : value !== '';
+}
+
+export function isHeaderEdited(draft: OrderDraft, key: string): boolean {
+  return (draft.header[key] || '') !== (draft.headerOriginal[key] || '');
+}
+
+// 行内で手修正されたカラムのキー一覧
+export function getEditedKeys(row: Pick<DraftRow, 'original' | 'corrected' | 'values'>, keys: string[]): string[] {
+  return keys.filter(key => isCellEdited(row, key));
+}
+
+// 確認が必要なセルかどうかを判定する
+// 手修正済みのセルは確認済みとして扱う
+export function getCellReviewReason(
+  row: DraftRow,
+  key: string,
+  required: boolean,
+  threshold: number
+): ReviewReason | null {
+  if (isCellEdited(row, key)) return null;
+  if (required && !row.values[key]) return 'missing';
+
+  const confidence = row.confidence[key];
+  if (row.values[key] && confidence !== undefined && confidence < threshold) return 'low';
+  return null;
+}
+
+export function getHeaderReviewReason(
+  draft: OrderDraft,
+  key: string,
+  required: boolean,
+  threshold: number
+): ReviewReason | null {
+  if (isHeaderEdited(draft, key)) return null;
+  if (required && !draft.header[key]) return 'missing';
+
+  const confidence = draft.headerConfidence[key];
+  if (draft.header[key] && confidence !== undefined && confidence < threshold) return 'low';
+  return null;
+}
+
+// 注文書全体で確認が必要な項目数を集計する
+export function summarizeReview(
+  draft: OrderDraft,
+  processor: PublicProcessorConfig,
+  threshold: number
+): { low: number; missing: number; rows: number } {
+  const summary = { low: 0, missing: 0, rows: 0 };
+
+  for (const field of processor.headerFields) {
+    const reason = getHeaderReviewReason(draft, getHeaderFieldKey(field), !!field.required, threshold);
+    if (reason) summary[reason]++;
+  }
+
+  for (const row of draft.rows) {
+    const reasons = processor.itemColumns
+      .map(col => getCellReviewReason(row, col.key, !!col.required, threshold))
+      .filter((reason): reason is ReviewReason => reason !== null);
+    reasons.forEach(reason => summary[reason]++);
+    if (reasons.length > 0) summary.rows++;
+  }
+
+  return summary;
+}
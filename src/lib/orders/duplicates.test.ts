@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateOrders } from './duplicates';
+import type { OrderSummary } from './types';
+
+function summary(id: string, createdAt: string, values: Partial<OrderSummary> = {}): OrderSummary {
+  return {
+    id,
+    processorType: 'sannote',
+    supplierName: 'サンノート',
+    fileName: `${id}.pdf`,
+    mimeType: 'application/pdf',
+    fileSize: 1000,
+    fileHash: `hash-${id}`,
+    status: 'unreviewed',
+    orderNumber: '',
+    orderDate: '',
+    productCodes: [],
+    itemCount: 0,
+    createdAt,
+    updatedAt: createdAt,
+    ...values,
+  };
+}
+
+const target = summary('target', '2025-10-16T00:00:00.000Z', {
+  orderNumber: 'A-102938',
+  orderDate: '2025/10/15',
+  recipientName: '株式会社サンプル商事 東京支店',
+});
+
+describe('findDuplicateOrders', () => {
+  it('同じファイルを以前に処理した注文を返す', () => {
+    const earlier = summary('earlier', '2025-10-15T00:00:00.000Z', { fileHash: target.fileHash });
+    expect(findDuplicateOrders(target, [earlier])).toEqual([{ order: earlier, reasons: ['file'] }]);
+  });
+
+  it('記号・全角の違いを除いて注文番号が一致し、注文日も一致する注文を返す', () => {
+    const earlier = summary('earlier', '2025-10-15T00:00:00.000Z', { orderNumber: 'Ａ１０２９３８', orderDate: '2025年10月15日' });
+    expect(findDuplicateOrders(target, [earlier])).toEqual([{ order: earlier, reasons: ['order_number', 'order_date'] }]);
+  });
+
+  it('注文番号の1文字の読み違いは、納入先が似ていれば重複とみなす', () => {
+    const earlier = summary('earlier', '2025-10-15T00:00:00.000Z', { orderNumber: 'A-102988', recipientName: '株式会社サンプル商事東京支店' });
+    expect(findDuplicateOrders(target, [earlier])).toEqual([{ order: earlier, reasons: ['order_number', 'recipient'] }]);
+  });
+
+  it('注文番号だけが一致する注文や、短い注文番号の1文字違いは重複とみなさない', () => {
+    const shortTarget = summary('short', '2025-10-16T00:00:00.000Z', { orderNumber: '1234', orderDate: '2025/10/15' });
+    const orders = [
+      summary('number-only', '2025-10-15T00:00:00.000Z', { orderNumber: 'A-102938', orderDate: '2025/09/01' }),
+      summary('short-number', '2025-10-15T00:00:00.000Z', { orderNumber: '1235', orderDate: '2025/10/15' }),
+    ];
+
+    expect(findDuplicateOrders(target, orders)).toEqual([]);
+    expect(findDuplicateOrders(shortTarget, orders)).toEqual([]);
+  });
+
+  it('別の取引先の注文、自分自身、後から処理した注文は対象外にする', () => {
+    const orders = [
+      summary('other-supplier', '2025-10-15T00:00:00.000Z', { processorType: 'other', orderNumber: 'A-102938', orderDate: '2025/10/15' }),
+      { ...target },
+      summary('later', '2025-10-17T00:00:00.000Z', { fileHash: target.fileHash }),
+    ];
+
+    expect(findDuplicateOrders(target, orders)).toEqual([]);
+  });
+
+  it('重複の可能性がある注文を新しい順に返す', () => {
+    const older = summary('older', '2025-10-01T00:00:00.000Z', { fileHash: target.fileHash });
+    const newer = summary('newer', '2025-10-10T00:00:00.000Z', { orderNumber: 'A102938', orderDate: '20251015' });
+
+    expect(findDuplicateOrders(target, [older, newer]).map(duplicate => duplicate.order.id)).toEqual(['newer', 'older']);
+  });
+});
@@ -0,0 +1,51 @@
+import { editDistance, nameSimilarity } from '@/lib/products/matching';
+import { DuplicateOrder, DuplicateReason, OrderSummary } from './types';
+
+// 注文番号の読み違いとみなす最小の桁数（短い番号は1文字違いでも別の注文とみなす）
+const FUZZY_ORDER_NUMBER_MIN_LENGTH = 5;
+
+// 納入先名を同じとみなす類似度
+const RECIPIENT_SIMILARITY = 0.8;
+
+// 比較用に記号・空白を除いて揃える（"A-102938" と "Ａ１０２９３８" を同じとみなす）
+function normalizeField(value: string | undefined): string {
+  return (value || '').normalize('NFKC').replace(/[^0-9A-Za-z\u3040-\u30FF\u4E00-\u9FFF]/g, '').toUpperCase();
+}
+
+function isSameOrderNumber(a: string, b: string): boolean {
+  const left = normalizeField(a);
+  const right = normalizeField(b);
+  if (!left || !right) return false;
+  if (left === right) return true;
+  return Math.min(left.length, right.length) >= FUZZY_ORDER_NUMBER_MIN_LENGTH && editDistance(left, right) <= 1;
+}
+
+// 日付は数字のみで比較する（"2025/10/15" と "2025年10月15日" を同じとみなす）
+function isSameDate(a: string, b: string): boolean {
+  const left = (a || '').normalize('NFKC').replace(/\D/g, '');
+  return !!left && left === (b || '').normalize('NFKC').replace(/\D/g, '');
+}
+
+// 過去に処理した注文から、重複の可能性がある注文を新しい順に返す
+// 同じファイル、または同じ取引先で注文番号が一致（1文字の読み違いを含む）し、注文日か納入先も一致する注文
+export function findDuplicateOrders(target: OrderSummary, orders: OrderSummary[]): DuplicateOrder[] {
+  return orders
+    .filter(order => order.id !== target.id && order.createdAt < target.createdAt)
+    .flatMap(order => {
+      const reasons: DuplicateReason[] = [];
+      if (order.fileHash === target.fileHash) reasons.push('file');
+
+      if (order.processorType === target.processorType && isSameOrderNumber(order.orderNumber, target.orderNumber)) {
+        const fieldReasons: DuplicateReason[] = [];
+        if (isSameDate(order.orderDate, target.orderDate)) fieldReasons.push('order_date');
+        if (order.recipientName && target.recipientName &&
+          nameSimilarity(order.recipientName, target.recipientName) >= RECIPIENT_SIMILARITY) {
+          fieldReasons.push('recipient');
+        }
+        if (fieldReasons.length > 0) reasons.push('order_number', ...fieldReasons);
+      }
+
+      return reasons.length > 0 ? [{ order, reasons }] : [];
+    })
+    .sort((a, b) => b.order.createdAt.localeCompare(a.order.createdAt));
+}
@@ -0,0 +1,304 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import { recordDraftChanges } from '@/lib/audit';
+import type { ExtractionResult, IDocument } from '@/lib/ocr';
+import { createDraft, StoredOrderDraft } from '@/lib/order-draft';
+import { getProcessorConfig } from '@/lib/processors';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { getDataPath, readJsonFile, withFileLock, writeBinaryFile, writeJsonFile, writeTextFile } from '@/lib/storage';
+import { findDuplicateOrders } from './duplicates';
+import {
+  DuplicateOrder,
+  ORDER_STATUS_LABELS,
+  OrderRecord,
+  OrderSearchQuery,
+  OrderSearchResult,
+  OrderStatus,
+  OrderSummary,
+} from './types';
+
+export * from './types';
+
+export class OrderNotFoundError extends Error {
+  constructor(id: string) {
+    super(`注文が見つかりません（id: ${id}）`);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+export class OrderValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderValidationError';
+  }
+}
+
+// 注文履歴に保存するアップロードファイル
+export interface OrderSourceFile {
+  name: string;
+  type: string;
+  content: Buffer;
+}
+
+// 重複の可能性がある注文を確認せずに出力しようとした
+export class OrderDuplicateError extends Error {
+  constructor(public readonly duplicates: DuplicateOrder[]) {
+    super('過去に処理した注文と重複している可能性があります。内容を確認してから出力してください');
+    this.name = 'OrderDuplicateError';
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// 一覧・検索用の索引（data/orders/index.json）と、注文ごとのディレクトリ（data/orders/<id>/）に分けて保存する
+function getIndexPath(): string {
+  return getDataPath('orders', 'index.json');
+}
+
+function getOrderPath(id: string, fileName: string): string {
+  // idはパスの一部になるため、UUID以外は受け付けない
+  if (!/^[0-9a-f-]{36}$/.test(id)) throw new OrderNotFoundError(id);
+  return getDataPath('orders', id, fileName);
+}
+
+async function readIndex(): Promise<OrderSummary[]> {
+  const data = await readJsonFile<{ orders: OrderSummary[] }>(getIndexPath(), { orders: [] });
+  return data.orders;
+}
+
+// 差分が見やすいよう、1注文1行の形式で保存する
+async function writeIndex(orders: OrderSummary[]): Promise<void> {
+  const lines = orders.map(order => `    ${JSON.stringify(order)}`);
+  await writeTextFile(getIndexPath(), `{\n  "orders": [\n${lines.join(',\n')}\n  ]\n}\n`);
+}
+
+function toSummary(record: OrderRecord): OrderSummary {
+  const summary: Partial<OrderRecord> = { ...record };
+  delete summary.result;
+  delete summary.draft;
+  return summary as OrderSummary;
+}
+
+// 検索に使う項目を注文書の値から求める
+function getSearchFields(draft: Pick<StoredOrderDraft, 'header' | 'rows'>) {
+  const productCodes = draft.rows.map(row => (row.values.product_code || '').trim()).filter(Boolean);
+  return {
+    orderNumber: draft.header.order_number || '',
+    orderDate: draft.header.order_date || '',
+    recipientName: draft.header['recipient_company.name'] || '',
+    productCodes: [...new Set(productCodes)],
+    itemCount: draft.rows.length,
+  };
+}
+
+function normalizeKeyword(value: string): string {
+  return value.normalize('NFKC').replace(/\s/g, '').toLowerCase();
+}
+
+// 読み取った注文書を履歴に保存する
+// 前処理で画像を補正・変換した場合は、読み取り位置の基準となる補正後のファイル（preprocessed）も保存する
+export function saveExtractedOrder({ file, preprocessed, processor, result, document }: {
+  file: OrderSourceFile;
+  preprocessed?: { content: Buffer; mimeType: string };
+  processor: ProcessorConfig;
+  result: ExtractionResult;
+  document: IDocument;
+}): Promise<OrderSummary> {
+  return withFileLock(getIndexPath(), async () => {
+    const now = new Date().toISOString();
+    const record: OrderRecord = {
+      id: randomUUID(),
+      processorType: processor.id,
+      supplierName: processor.name,
+      fileName: file.name,
+      mimeType: file.type,
+      fileSize: file.content.length,
+      fileHash: createHash('sha256').update(file.content).digest('hex'),
+      status: 'unreviewed',
+      ...getSearchFields(createDraft(result.purchaseOrder, processor, [])),
+      createdAt: now,
+      updatedAt: now,
+      result,
+      draft: null,
+    };
+
+    await writeBinaryFile(getOrderPath(record.id, 'source'), file.content);
+    if (preprocessed && result.preprocessing?.modified) {
+      await writeBinaryFile(getOrderPath(record.id, 'preprocessed'), preprocessed.content);
+    }
+    // ページ画像はサイズが大きく、原本ファイルから再現できるため保存しない
+    await writeTextFile(
+      getOrderPath(record.id, 'document.json'),
+      JSON.stringify(document, (key, value) => (key === 'image' ? undefined : value))
+    );
+    await writeJsonFile(getOrderPath(record.id, 'order.json'), record);
+
+    const summary = toSummary(record);
+    await writeIndex([summary, ...await readIndex()]);
+    return summary;
+  });
+}
+
+export async function getOrder(id: string): Promise<OrderRecord> {
+  const record = await readJsonFile<OrderRecord | null>(getOrderPath(id, 'order.json'), null);
+  if (!record) throw new OrderNotFoundError(id);
+  return record;
+}
+
+// 保存した原本ファイル
+// 前処理で補正・変換した注文は、読み取り位置と一致する補正後のファイルを返す（original: trueの場合はアップロードしたファイル）
+export async function getOrderSource(id: string, { original = false } = {}): Promise<{ content: Buffer; fileName: string; mimeType: string }> {
+  const { fileName, mimeType, result } = await getOrder(id);
+  if (!original && result.preprocessing?.modified) {
+    return {
+      content: await fs.promises.readFile(getOrderPath(id, 'preprocessed')),
+      fileName,
+      mimeType: result.preprocessing.mimeType,
+    };
+  }
+  return { content: await fs.promises.readFile(getOrderPath(id, 'source')), fileName, mimeType };
+}
+
+// 指定したIDの注文の一覧の項目（削除されたなどで見つからないIDは含めない）
+export async function getOrderSummaries(ids: string[]): Promise<Map<string, OrderSummary>> {
+  const wanted = new Set(ids);
+  return new Map((await readIndex()).filter(order => wanted.has(order.id)).map(order => [order.id, order]));
+}
+
+// 注文番号・注文日・取引先・商品コードで検索する（新しい順）
+export async function searchOrders({
+  orderNumber = '',
+  orderDate = '',
+  supplier = '',
+  productCode = '',
+  page = 1,
+  pageSize = DEFAULT_PAGE_SIZE,
+}: OrderSearchQuery): Promise<OrderSearchResult> {
+  const filters = {
+    orderNumber: normalizeKeyword(orderNumber),
+    orderDate: normalizeKeyword(orderDate),
+    supplier: normalizeKeyword(supplier),
+    productCode: normalizeKeyword(productCode),
+  };
+
+  const matched = (await readIndex()).filter(order =>
+    normalizeKeyword(order.orderNumber).includes(filters.orderNumber) &&
+    normalizeKeyword(order.orderDate).includes(filters.orderDate) &&
+    (normalizeKeyword(order.supplierName).includes(filters.supplier) || order.processorType === filters.supplier) &&
+    (!filters.productCode || order.productCodes.some(code => normalizeKeyword(code).includes(filters.productCode)))
+  );
+
+  const size = Math.min(Math.max(1, Math.floor(pageSize) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const current = Math.max(1, Math.floor(page) || 1);
+
+  return {
+    orders: matched.slice((current - 1) * size, current * size),
+    total: matched.length,
+    page: current,
+    pageSize: size,
+  };
+}
+
+// 過去に処理した注文のうち、重複の可能性がある注文
+export async function getDuplicateOrders(id: string): Promise<DuplicateOrder[]> {
+  const record = await getOrder(id);
+  return findDuplicateOrders(toSummary(record), await readIndex());
+}
+
+// 注文を承認済みにする（承認は一度だけ。重複の可能性がある注文は確認済みにするまで承認できない）
+// beforeApproveは承認できることを確認した後、承認済みとして保存する前に呼ぶ（失敗した場合は承認しない）
+export function markOrderApproved(id: string, { username, beforeApprove }: {
+  username: string;
+  beforeApprove?: (approved: OrderRecord) => Promise<void>;
+}): Promise<OrderRecord> {
+  return withFileLock(getIndexPath(), async () => {
+    const record = await getOrder(id);
+    if (record.approvedAt) {
+      throw new OrderValidationError('この注文は承認済みです。送信に失敗した送信先は再送してください');
+    }
+    if (!record.duplicateConfirmedAt) {
+      const duplicates = findDuplicateOrders(toSummary(record), await readIndex());
+      if (duplicates.length > 0) throw new OrderDuplicateError(duplicates);
+    }
+
+    const now = new Date().toISOString();
+    const updated: OrderRecord = { ...record, status: 'approved', approvedAt: now, approvedBy: username, updatedAt: now };
+    await beforeApprove?.(updated);
+    await writeJsonFile(getOrderPath(id, 'order.json'), updated);
+
+    const summary = toSummary(updated);
+    await writeIndex((await readIndex()).map(order => (order.id === id ? summary : order)));
+    return updated;
+  });
+}
+
+function isStoredDraft(value: unknown): value is StoredOrderDraft {
+  const draft = value as StoredOrderDraft;
+  return !!draft && typeof draft.header === 'object' && Array.isArray(draft.rows) &&
+    draft.rows.every(row => !!row && typeof row.values === 'object');
+}
+
+// 手修正の内容・処理状況を更新する
+// 手修正を保存した未確認の注文は確認済みにする
+// 重複の可能性がある注文は、duplicateConfirmedで確認済みにするまで出力済みにできない
+// 手修正で変わった項目は、操作したユーザー（username）とともに監査ログに記録する
+// 承認済みの注文は承認時の内容で送信するため手修正を受け付けず、出力しても承認済みのまま出力日時だけを記録する
+export function updateOrder(id: string, { draft, status, duplicateConfirmed }: {
+  draft?: unknown;
+  status?: unknown;
+  duplicateConfirmed?: unknown;
+}, { username = 'anonymous' }: { username?: string } = {}): Promise<OrderSummary> {
+  if (draft !== undefined && !isStoredDraft(draft)) {
+    throw new OrderValidationError('手修正データの形式が不正です');
+  }
+  if (status !== undefined && !Object.keys(ORDER_STATUS_LABELS).includes(status as string)) {
+    throw new OrderValidationError(`無効な状態です: ${status}`);
+  }
+  // 承認は送信先への送信とあわせて行う（markOrderApproved）
+  if (status === 'approved') {
+    throw new OrderValidationError('承認済みにする場合は承認の操作を行ってください');
+  }
+
+  return withFileLock(getIndexPath(), async () => {
+    const record = await getOrder(id);
+    if (record.approvedAt && draft) {
+      throw new OrderValidationError('承認済みの注文は修正できません。承認時の内容を送信・出力します');
+    }
+    if (record.approvedAt && status !== undefined && status !== 'exported') {
+      throw new OrderValidationError('承認済みの注文の状態は変更できません');
+    }
+
+    const now = new Date().toISOString();
+    const nextStatus = record.approvedAt ? record.status : (status as OrderStatus | undefined) ||
+      (draft && record.status === 'unreviewed' ? 'reviewed' : record.status);
+
+    const updated: OrderRecord = {
+      ...record,
+      ...(draft ? { draft, ...getSearchFields(draft) } : {}),
+      status: nextStatus,
+      ...(status === 'exported' ? { exportedAt: now } : {}),
+      ...(duplicateConfirmed === true ? { duplicateConfirmedAt: now } : {}),
+      updatedAt: now,
+    };
+
+    if (status === 'exported' && !updated.duplicateConfirmedAt) {
+      const duplicates = findDuplicateOrders(toSummary(updated), await readIndex());
+      if (duplicates.length > 0) throw new OrderDuplicateError(duplicates);
+    }
+    await writeJsonFile(getOrderPath(id, 'order.json'), updated);
+    if (draft) {
+      await recordDraftChanges({
+        username,
+        orderId: id,
+        processor: await getProcessorConfig(record.processorType),
+        previous: record.draft,
+        next: draft as StoredOrderDraft,
+      }).catch(auditError => console.error('監査ログの記録エラー:', auditError));
+    }
+
+    const summary = toSummary(updated);
+    await writeIndex((await readIndex()).map(order => (order.id === id ? summary : order)));
+    return summary;
+  });
+}
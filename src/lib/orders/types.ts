@@ -0,0 +1,81 @@
+import type { ExtractionResult } from '@/lib/ocr/extract';
+import type { StoredOrderDraft } from '@/lib/order-draft';
+
+// 注文書の処理状況
+// unreviewed: 読み取りのみ / reviewed: 手修正を保存済み / approved: 承認して送信先へ送信済み / exported: 出力済み
+export type OrderStatus = 'unreviewed' | 'reviewed' | 'approved' | 'exported';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  unreviewed: '未確認',
+  reviewed: '確認済み',
+  approved: '承認済み',
+  exported: '出力済み',
+};
+
+// 注文履歴の一覧・検索に使う項目
+export interface OrderSummary {
+  id: string;
+  processorType: string;
+  // 取引先名（取引先設定のname）
+  supplierName: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  // アップロードしたファイルのSHA-256
+  fileHash: string;
+  status: OrderStatus;
+  orderNumber: string;
+  orderDate: string;
+  // 納入先（recipient_company.name）
+  recipientName?: string;
+  productCodes: string[];
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+  exportedAt?: string;
+  // 承認した日時とユーザー
+  approvedAt?: string;
+  approvedBy?: string;
+  // 重複の可能性がある注文を確認したうえで出力を許可した日時
+  duplicateConfirmedAt?: string;
+}
+
+export interface OrderRecord extends OrderSummary {
+  result: ExtractionResult;
+  // 手修正後の値（画面で一度も保存していない場合はnull）
+  draft: StoredOrderDraft | null;
+}
+
+// 重複と判定した根拠
+// file: 同じファイル / order_number: 注文番号 / order_date: 注文日 / recipient: 納入先
+export type DuplicateReason = 'file' | 'order_number' | 'order_date' | 'recipient';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  file: '同一ファイル',
+  order_number: '注文番号',
+  order_date: '注文日',
+  recipient: '納入先',
+};
+
+// 重複の可能性がある過去の注文
+export interface DuplicateOrder {
+  order: OrderSummary;
+  reasons: DuplicateReason[];
+}
+
+export interface OrderSearchQuery {
+  orderNumber?: string;
+  orderDate?: string;
+  // 取引先名または取引先ID
+  supplier?: string;
+  productCode?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface OrderSearchResult {
+  orders: OrderSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
@@ -0,0 +1,175 @@
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeDocument } from '@/lib/ocr/extract';
+import { createDraft, toStoredDraft } from '@/lib/order-draft';
+import { saveExtractedOrder, updateOrder } from '@/lib/orders';
+import { loadProcessorRegistry } from '@/lib/processors';
+import { approveOrder, Delivery, startOutboundRetryPoller } from './index';
+
+// 承認した注文の送信を、取り込みフォルダの送信先で確認する
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+// フィクスチャの読み取り結果から注文を保存する
+async function createOrder() {
+  const [processor] = await loadProcessorRegistry();
+  const content = await createPdf(1);
+  const { document, preprocessed, result } = await analyzeDocument({ content, mimeType: 'application/pdf', processor });
+  const order = await saveExtractedOrder({
+    file: { name: 'order.pdf', type: 'application/pdf', content },
+    preprocessed,
+    processor,
+    result,
+    document,
+  });
+  return { order, processor, result };
+}
+
+let tempDir: string;
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbound-'));
+  process.env.OCR_PROVIDER = 'fixture';
+  process.env.DATA_DIR = path.join(tempDir, 'data');
+  process.env.OUTBOUND_TARGETS_PATH = path.join(tempDir, 'outbound-targets.json');
+  fs.writeFileSync(process.env.OUTBOUND_TARGETS_PATH, JSON.stringify({
+    targets: [{ id: 'folder', name: '取り込みフォルダ', type: 'folder', path: 'inbox-out' }],
+  }));
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('approveOrder', () => {
+  it('承認と同時に保存された手修正は、送信する内容に含める', async () => {
+    const { order, processor, result } = await createOrder();
+    const draft = toStoredDraft(createDraft(result.purchaseOrder, processor, []));
+    draft.header = { ...draft.header, order_number: 'A-999999' };
+
+    const [approved, saved] = await Promise.all([
+      approveOrder(order.id, { username: 'tester' }),
+      updateOrder(order.id, { draft }, { username: 'tester' }),
+    ]);
+    expect(saved.orderNumber).toBe('A-999999');
+    expect(approved.deliveries).toMatchObject([{ status: 'delivered' }]);
+
+    const payload = JSON.parse(fs.readFileSync(path.join(process.env.DATA_DIR!, 'outbound', order.id, 'payload.json'), 'utf8'));
+    expect(payload).toMatchObject({ event: 'order.approved', approvedBy: 'tester' });
+    expect(payload.purchaseOrder.header.order_number.raw).toBe('A-999999');
+  });
+});
+
+// Webhookの送信先に切り替え、fetchを差し替えて送信内容を記録する
+function useWebhookTarget(statuses: number[]) {
+  process.env.WEBHOOK_SECRET = 'webhook-secret';
+  fs.writeFileSync(process.env.OUTBOUND_TARGETS_PATH!, JSON.stringify({
+    targets: [{ id: 'erp', name: '販売管理', type: 'webhook', url: 'https://erp.example.com/hook', secretEnv: 'WEBHOOK_SECRET' }],
+  }));
+
+  const requests: { headers: Record<string, string>; body: string }[] = [];
+  vi.stubGlobal('fetch', vi.fn<typeof fetch>(async (_input, init) => {
+    requests.push({ headers: init!.headers as Record<string, string>, body: init!.body as string });
+    return new Response(null, { status: statuses[Math.min(requests.length, statuses.length) - 1] });
+  }));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  return requests;
+}
+
+function readDeliveries(orderId: string): Delivery[] {
+  return JSON.parse(fs.readFileSync(path.join(process.env.DATA_DIR!, 'outbound', orderId, 'deliveries.json'), 'utf8'));
+}
+
+describe('Webhookの送信', () => {
+  it('タイムスタンプと本文にHMAC-SHA256で署名して送信する', async () => {
+    const requests = useWebhookTarget([200]);
+    const { order } = await createOrder();
+
+    const approved = await approveOrder(order.id, { username: 'tester' });
+    expect(approved.deliveries).toMatchObject([{ status: 'delivered', attempts: 1, responseStatus: 200 }]);
+
+    const [{ headers, body }] = requests;
+    const timestamp = headers['X-Webhook-Timestamp'];
+    const expected = createHmac('sha256', 'webhook-secret').update(`${timestamp}.${body}`).digest('hex');
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+    expect(headers['X-Webhook-Id']).toBe(approved.deliveries[0].id);
+    expect(JSON.parse(body)).toMatchObject({ event: 'order.approved', approvedBy: 'tester' });
+  });
+
+  it('再試行しても同じ結果になる応答（4xx）は再試行せずに送信失敗にする', async () => {
+    useWebhookTarget([400]);
+    const { order } = await createOrder();
+
+    const approved = await approveOrder(order.id, { username: 'tester' });
+    expect(approved.deliveries).toMatchObject([{ status: 'failed', attempts: 1, responseStatus: 400, error: 'HTTP 400 が返されました' }]);
+  });
+
+  it('一時的なエラーは待ち時間を2倍ずつ延ばして再試行し、上限の回数で送信失敗にする', async () => {
+    process.env.OUTBOUND_MAX_ATTEMPTS = '3';
+    process.env.OUTBOUND_RETRY_DELAY_SECONDS = '60';
+    const requests = useWebhookTarget([503]);
+    const { order } = await createOrder();
+
+    // バックグラウンドの再試行を、時刻と確認の間隔（10秒）を進めて動かす
+    const store = globalThis as typeof globalThis & {
+      __outboundRetryPoller?: ReturnType<typeof setInterval>;
+      __outboundRetrying?: boolean;
+    };
+    clearInterval(store.__outboundRetryPoller);
+    delete store.__outboundRetryPoller;
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    startOutboundRetryPoller();
+
+    // 処理中の確認は次の確認を飛ばすため、確認ごとに処理が終わるのを待つ
+    const advancePoller = async (ms: number) => {
+      for (let elapsed = 0; elapsed < ms; elapsed += 10_000) {
+        await vi.advanceTimersByTimeAsync(10_000);
+        await vi.waitFor(() => {
+          if (store.__outboundRetrying) throw new Error('再試行の処理中です');
+        });
+      }
+    };
+
+    try {
+      const approved = await approveOrder(order.id, { username: 'tester' });
+      const [first] = approved.deliveries;
+      expect(first).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 503 });
+      expect(Date.parse(first.nextAttemptAt!) - Date.parse(first.lastAttemptAt!)).toBe(60_000);
+
+      // 再試行の時刻までは送信しない
+      await advancePoller(50_000);
+      expect(requests).toHaveLength(1);
+
+      await advancePoller(10_000);
+      const [second] = readDeliveries(order.id);
+      expect(second).toMatchObject({ status: 'pending', attempts: 2 });
+      expect(Date.parse(second.nextAttemptAt!) - Date.parse(second.lastAttemptAt!)).toBe(120_000);
+
+      await advancePoller(Date.parse(second.nextAttemptAt!) - Date.now() + 10_000);
+      const [last] = readDeliveries(order.id);
+      expect(last).toMatchObject({ status: 'failed', attempts: 3 });
+      expect(last.nextAttemptAt).toBeUndefined();
+      expect(requests).toHaveLength(3);
+      // 再試行でも同じIDで送信する
+      expect(new Set(requests.map(request => request.headers['X-Webhook-Id'])).size).toBe(1);
+    } finally {
+      clearInterval(store.__outboundRetryPoller);
+      delete store.__outboundRetryPoller;
+    }
+  });
+});
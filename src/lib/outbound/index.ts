@@ -0,0 +1,383 @@
+import { createHmac, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { recordApproval, recordDelivery } from '@/lib/audit';
+import { buildOrderJson } from '@/lib/export';
+import { getOrder, markOrderApproved, OrderNotFoundError, OrderRecord } from '@/lib/orders';
+import { getDataDir, getDataPath, readJsonFile, withFileLock, writeJsonFile, writeTextFile } from '@/lib/storage';
+import { Delivery, OrderDeliveries, OutboundTarget, OutboundTargetType } from './types';
+
+export * from './types';
+
+// 承認した注文を送信先（販売管理システムのWebhook・取り込みフォルダ）へ送る
+// 承認時の注文の内容を data/outbound/<注文ID>/payload.json に保存し、送信先ごとの送信状況を deliveries.json に記録する
+// 送信に失敗した場合は、待ち時間を2倍ずつ延ばしながらバックグラウンドで再試行する
+
+// 送信先設定の読み込みエラー
+export class OutboundTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboundTargetError';
+  }
+}
+
+export class DeliveryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`送信状況が見つかりません（id: ${id}）`);
+    this.name = 'DeliveryNotFoundError';
+  }
+}
+
+// 1回の送信の失敗（retryable: 時間をおいて再試行するかどうか）
+class DeliveryAttemptError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly responseStatus?: number) {
+    super(message);
+    this.name = 'DeliveryAttemptError';
+  }
+}
+
+const TARGET_TYPES: OutboundTargetType[] = ['webhook', 'folder'];
+
+// 送信先に送るイベント名（Webhookのヘッダーと本文に含める）
+const APPROVED_EVENT = 'order.approved';
+
+// バックグラウンドで再試行の時刻を確認する間隔
+const RETRY_POLL_MS = 10 * 1000;
+
+export function getOutboundSettings() {
+  return {
+    // Webhookの応答を待つ時間
+    timeoutMs: (Number(process.env.OUTBOUND_TIMEOUT_SECONDS) || 10) * 1000,
+    // 送信を試みる回数（最初の送信を含む）
+    maxAttempts: Number(process.env.OUTBOUND_MAX_ATTEMPTS) || 5,
+    // 1回目の再試行までの待ち時間（以降は2倍ずつ、最大1時間）
+    retryDelayMs: (Number(process.env.OUTBOUND_RETRY_DELAY_SECONDS) || 60) * 1000,
+    maxRetryDelayMs: 60 * 60 * 1000,
+  };
+}
+
+function getTargetsPath(): string {
+  return process.env.OUTBOUND_TARGETS_PATH || path.join(process.cwd(), 'data', 'outbound-targets.json');
+}
+
+function validateTarget(target: OutboundTarget, index: number): void {
+  const label = target?.id || `#${index}`;
+
+  if (!target?.id || !target.name) {
+    throw new OutboundTargetError(`送信先 ${label} に id または name がありません`);
+  }
+  if (!TARGET_TYPES.includes(target.type)) {
+    throw new OutboundTargetError(`送信先 ${label} の type が不正です: ${target.type}`);
+  }
+  if (target.type === 'webhook') {
+    if (!/^https?:\/\//.test(target.url || '')) {
+      throw new OutboundTargetError(`送信先 ${label} の url が不正です: ${target.url}`);
+    }
+    if (!target.secretEnv) {
+      throw new OutboundTargetError(`送信先 ${label} に署名の秘密鍵を保持する環境変数名（secretEnv）がありません`);
+    }
+  }
+  if (target.type === 'folder' && !target.path) {
+    throw new OutboundTargetError(`送信先 ${label} に path がありません`);
+  }
+}
+
+// 送信先設定を読み込む（ファイルがない場合は送信先なし）
+// CSVテンプレートと同様に、呼び出しごとにファイルを読む
+export async function loadOutboundTargets(): Promise<OutboundTarget[]> {
+  let fileContents: string;
+  try {
+    fileContents = await fs.promises.readFile(getTargetsPath(), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const { targets } = JSON.parse(fileContents) as { targets: OutboundTarget[] };
+  if (!Array.isArray(targets)) {
+    throw new OutboundTargetError('送信先設定の形式が不正です');
+  }
+
+  targets.forEach(validateTarget);
+
+  const ids = new Set<string>();
+  for (const { id } of targets) {
+    if (ids.has(id)) {
+      throw new OutboundTargetError(`送信先のidが重複しています: ${id}`);
+    }
+    ids.add(id);
+  }
+
+  return targets;
+}
+
+function getOutboundPath(orderId: string, fileName: string): string {
+  // idはパスの一部になるため、UUID以外は受け付けない
+  if (!/^[0-9a-f-]{36}$/.test(orderId)) throw new OrderNotFoundError(orderId);
+  return getDataPath('outbound', orderId, fileName);
+}
+
+function readDeliveries(orderId: string): Promise<Delivery[]> {
+  return readJsonFile<Delivery[]>(getOutboundPath(orderId, 'deliveries.json'), []);
+}
+
+// HMAC-SHA256で「タイムスタンプ.本文」に署名してPOSTする（受信側はタイムスタンプで古いリクエストを拒否できる）
+async function sendWebhook(target: OutboundTarget, delivery: Delivery, body: string): Promise<number> {
+  const secret = process.env[target.secretEnv || ''];
+  if (!secret) {
+    throw new DeliveryAttemptError(`署名の秘密鍵（${target.secretEnv}）が設定されていません`, false);
+  }
+
+  const { timeoutMs } = getOutboundSettings();
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  let response: Response;
+  try {
+    response = await fetch(target.url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'X-Webhook-Event': APPROVED_EVENT,
+        // 再試行・再送でも同じIDを送るため、受信側で重複を除ける
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signature}`,
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    const message = (error as Error).name === 'TimeoutError'
+      ? `応答がありませんでした（${timeoutMs / 1000}秒）`
+      : `接続できませんでした（${((error as Error).cause as Error | undefined)?.message || (error as Error).message}）`;
+    throw new DeliveryAttemptError(message, true);
+  }
+
+  await response.body?.cancel();
+  if (!response.ok) {
+    // 408・429・5xxは一時的なエラーとして再試行する（それ以外の4xxは送信内容・設定の問題のため再試行しない）
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    throw new DeliveryAttemptError(`HTTP ${response.status} が返されました`, retryable, response.status);
+  }
+  return response.status;
+}
+
+// 取り込みフォルダに order-<注文ID>.json を置く（一時ファイルに書いてから置き換えるため、書き込み途中のファイルは読まれない）
+async function writeToFolder(target: OutboundTarget, delivery: Delivery, body: string): Promise<void> {
+  const filePath = path.join(path.resolve(getDataDir(), target.path!), `order-${delivery.orderId}.json`);
+  try {
+    await writeTextFile(filePath, body);
+  } catch (error) {
+    throw new DeliveryAttemptError(`ファイルを書き込めませんでした（${(error as Error).message}）`, true);
+  }
+}
+
+async function attemptDelivery(delivery: Delivery): Promise<void> {
+  const target = (await loadOutboundTargets()).find(t => t.id === delivery.targetId);
+  if (!target) {
+    throw new DeliveryAttemptError(`送信先設定が見つかりません: ${delivery.targetId}`, false);
+  }
+
+  const payload = await readJsonFile<unknown>(getOutboundPath(delivery.orderId, 'payload.json'), null);
+  if (!payload) {
+    throw new DeliveryAttemptError('承認時の注文の内容が見つかりません', false);
+  }
+
+  if (target.type === 'webhook') {
+    delivery.responseStatus = await sendWebhook(target, delivery, JSON.stringify(payload));
+  } else {
+    await writeToFolder(target, delivery, JSON.stringify(payload, null, 2) + '\n');
+  }
+}
+
+// 送信待ちで再試行の時刻を過ぎていれば送信し、結果を記録する
+function processDelivery(orderId: string, deliveryId: string): Promise<Delivery> {
+  const deliveriesPath = getOutboundPath(orderId, 'deliveries.json');
+  return withFileLock(deliveriesPath, async () => {
+    const deliveries = await readDeliveries(orderId);
+    const delivery = deliveries.find(d => d.id === deliveryId);
+    if (!delivery) throw new DeliveryNotFoundError(deliveryId);
+    if (delivery.status !== 'pending' || (delivery.nextAttemptAt && new Date(delivery.nextAttemptAt).getTime() > Date.now())) {
+      return delivery;
+    }
+    // 承認済みとして保存する前（承認の処理中・承認に失敗した場合）は送信しない
+    if (!(await getOrder(orderId)).approvedAt) {
+      return delivery;
+    }
+
+    const { maxAttempts, retryDelayMs, maxRetryDelayMs } = getOutboundSettings();
+    const now = new Date();
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = now.toISOString();
+    delivery.updatedAt = now.toISOString();
+    delivery.nextAttemptAt = undefined;
+
+    try {
+      await attemptDelivery(delivery);
+      delivery.status = 'delivered';
+      delivery.deliveredAt = new Date().toISOString();
+      delivery.error = undefined;
+    } catch (error) {
+      const attemptError = error instanceof DeliveryAttemptError ? error : new DeliveryAttemptError((error as Error).message, true);
+      console.error(`送信エラー（${delivery.targetName}・${delivery.attempts}回目）:`, attemptError.message);
+      delivery.error = attemptError.message;
+      delivery.responseStatus = attemptError.responseStatus;
+
+      if (attemptError.retryable && delivery.attempts < maxAttempts) {
+        const delayMs = Math.min(maxRetryDelayMs, retryDelayMs * 2 ** (delivery.attempts - 1));
+        delivery.nextAttemptAt = new Date(now.getTime() + delayMs).toISOString();
+      } else {
+        delivery.status = 'failed';
+      }
+    }
+
+    await writeJsonFile(deliveriesPath, deliveries);
+    if (delivery.status !== 'pending') {
+      await recordDelivery({ username: delivery.requestedBy, orderId, delivery, action: delivery.status })
+        .catch(auditError => console.error('監査ログの記録エラー:', auditError));
+    }
+    return delivery;
+  });
+}
+
+async function retryPendingDeliveries(): Promise<void> {
+  let orderIds: string[];
+  try {
+    orderIds = await fs.promises.readdir(getDataPath('outbound'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  const now = Date.now();
+  for (const orderId of orderIds.filter(id => /^[0-9a-f-]{36}$/.test(id))) {
+    const due = (await readDeliveries(orderId).catch(() => []))
+      .filter(d => d.status === 'pending' && (!d.nextAttemptAt || new Date(d.nextAttemptAt).getTime() <= now));
+    for (const delivery of due) {
+      await processDelivery(orderId, delivery.id);
+    }
+  }
+}
+
+// 開発時のホットリロードで重複して起動しないよう globalThis に保持する
+const store = globalThis as typeof globalThis & {
+  __outboundRetryPoller?: ReturnType<typeof setInterval>;
+  __outboundRetrying?: boolean;
+};
+
+// バックグラウンドでの再試行を開始する
+function ensureRetryPoller(): void {
+  if (store.__outboundRetryPoller) return;
+
+  store.__outboundRetryPoller = setInterval(() => {
+    if (store.__outboundRetrying) return;
+    store.__outboundRetrying = true;
+    retryPendingDeliveries()
+      .catch(error => console.error('送信の再試行エラー:', error))
+      .finally(() => {
+        store.__outboundRetrying = false;
+      });
+  }, RETRY_POLL_MS);
+  store.__outboundRetryPoller.unref?.();
+}
+
+// サーバーの起動時に呼び出し、再起動前に失敗した送信の再試行を再開する
+export function startOutboundRetryPoller(): void {
+  ensureRetryPoller();
+}
+
+export async function getOrderDeliveries(orderId: string): Promise<OrderDeliveries> {
+  ensureRetryPoller();
+
+  const record = await getOrder(orderId);
+  return {
+    approvedAt: record.approvedAt || null,
+    approvedBy: record.approvedBy || null,
+    deliveries: await readDeliveries(orderId),
+  };
+}
+
+// 注文を承認し、有効な送信先すべてに送信する
+// 最初の送信は承認のリクエストの中で行って結果を返し、失敗した送信先はバックグラウンドで再試行する
+export async function approveOrder(orderId: string, { username }: { username: string }): Promise<OrderDeliveries> {
+  const targets = (await loadOutboundTargets()).filter(target => target.enabled !== false);
+  if (targets.length === 0) {
+    throw new OutboundTargetError('送信先が設定されていません。data/outbound-targets.json を確認してください。');
+  }
+
+  // 送信する内容は承認時の手修正後の値で確定し、再試行・再送でも同じ内容を送る
+  // 送信する内容は承認と同じロックの中で作り（承認までの間に保存された手修正も含める）、
+  // 送信状況とあわせて保存してから承認済みにする（保存に失敗した注文は承認済みにしない）
+  const now = new Date().toISOString();
+  const deliveries: Delivery[] = targets.map(target => ({
+    id: randomUUID(),
+    orderId,
+    targetId: target.id,
+    targetName: target.name,
+    targetType: target.type,
+    status: 'pending',
+    attempts: 0,
+    requestedBy: username,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  let prepared = false;
+  let record: OrderRecord;
+  try {
+    record = await markOrderApproved(orderId, {
+      username,
+      beforeApprove: async approved => {
+        const order = await buildOrderJson(orderId);
+        prepared = true;
+        await writeJsonFile(getOutboundPath(orderId, 'payload.json'), {
+          event: APPROVED_EVENT,
+          approvedAt: approved.approvedAt,
+          approvedBy: username,
+          ...order,
+        });
+        await writeJsonFile(getOutboundPath(orderId, 'deliveries.json'), deliveries);
+      },
+    });
+  } catch (error) {
+    // 承認済みにできなかった場合は、保存した送信状況を取り消す（承認済みの注文の送信状況は消さない）
+    if (prepared) {
+      await fs.promises.rm(getDataPath('outbound', orderId), { recursive: true, force: true })
+        .catch(rollbackError => console.error('送信状況の取り消しエラー:', rollbackError));
+    }
+    throw error;
+  }
+
+  await recordApproval({ username, orderId, processorType: record.processorType, targets: targets.map(target => target.name) })
+    .catch(auditError => console.error('監査ログの記録エラー:', auditError));
+
+  for (const delivery of deliveries) {
+    await processDelivery(orderId, delivery.id);
+  }
+  return getOrderDeliveries(orderId);
+}
+
+// 送信先へ送り直す（失敗した送信先のほか、送信済みでも受信側で取り込み直す場合に使う）
+export async function resendDelivery(orderId: string, deliveryId: string, { username }: { username: string }): Promise<OrderDeliveries> {
+  const deliveriesPath = getOutboundPath(orderId, 'deliveries.json');
+  await withFileLock(deliveriesPath, async () => {
+    const deliveries = await readDeliveries(orderId);
+    const delivery = deliveries.find(d => d.id === deliveryId);
+    if (!delivery) throw new DeliveryNotFoundError(deliveryId);
+
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = undefined;
+    delivery.error = undefined;
+    delivery.requestedBy = username;
+    delivery.updatedAt = new Date().toISOString();
+    await writeJsonFile(deliveriesPath, deliveries);
+
+    await recordDelivery({ username, orderId, delivery, action: 'resend' })
+      .catch(auditError => console.error('監査ログの記録エラー:', auditError));
+  });
+
+  await processDelivery(orderId, deliveryId);
+  return getOrderDeliveries(orderId);
+}
@@ -0,0 +1,57 @@
+// 承認した注文の送信先と送信状況（API・画面で共通）
+// 送信先は data/outbound-targets.json に定義する
+
+// webhook: HTTPでJSONをPOSTする（HMAC署名付き） / folder: ディスク上のフォルダにJSONファイルを置く
+export type OutboundTargetType = 'webhook' | 'folder';
+
+export interface OutboundTarget {
+  id: string;
+  name: string;
+  type: OutboundTargetType;
+  // webhook: 送信先のURLと、署名の秘密鍵を保持する環境変数名
+  url?: string;
+  secretEnv?: string;
+  // folder: 出力先のディレクトリ（相対パスはデータの保存先 DATA_DIR から）
+  path?: string;
+  // falseの場合は送信しない（既定: true）
+  enabled?: boolean;
+}
+
+// pending: 送信待ち（再試行待ちを含む） / delivered: 送信済み / failed: 再試行しても送信できなかった
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: '送信待ち',
+  delivered: '送信済み',
+  failed: '送信失敗',
+};
+
+// 送信先ごとの送信状況
+export interface Delivery {
+  id: string;
+  orderId: string;
+  targetId: string;
+  targetName: string;
+  targetType: OutboundTargetType;
+  status: DeliveryStatus;
+  // 送信を試みた回数（再送した場合は0から数え直す）
+  attempts: number;
+  lastAttemptAt?: string;
+  // 次に再試行する日時（pendingの場合）
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  // 最後の送信のHTTPステータス（webhook）とエラー
+  responseStatus?: number;
+  error?: string;
+  // 承認・再送したユーザー（監査ログに記録する）
+  requestedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 注文の承認と送信状況
+export interface OrderDeliveries {
+  approvedAt: string | null;
+  approvedBy: string | null;
+  deliveries: Delivery[];
+}
@@ -0,0 +1,115 @@
+import sharp from 'sharp';
+import { PreprocessingStep } from './types';
+
+// 長辺の上限（A4を300dpiで読み取った程度。これより大きい写真は精度が変わらず転送量だけ増える）
+const MAX_IMAGE_EDGE = 3508;
+
+// 傾きを探す範囲と刻み（度）
+const MAX_SKEW_ANGLE = 5;
+const SKEW_ANGLE_STEP = 0.25;
+// これより小さい傾きは補正しない（回転による文字の劣化のほうが大きい）
+const MIN_SKEW_ANGLE = 0.5;
+// 傾きの推定に使う縮小画像の幅と、集計に使う黒画素の上限
+const SKEW_SAMPLE_WIDTH = 800;
+const MAX_SKEW_SAMPLES = 200000;
+
+export interface NormalizedImage {
+  content: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+  // 解像度（DPI。不明な場合は72）
+  density: number;
+  steps: PreprocessingStep[];
+}
+
+// 文字の行が水平になる角度を推定する（度。右下がりの場合は正）
+// 黒画素を各角度で行方向に投影し、行ごとの画素数のばらつきが最も大きくなる角度を選ぶ
+export async function estimateSkewAngle(image: Buffer): Promise<number> {
+  const { data, info } = await sharp(image)
+    .greyscale()
+    .resize({ width: SKEW_SAMPLE_WIDTH, withoutEnlargement: true })
+    .threshold(128)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const darkCount = data.reduce((count, value) => count + (value === 0 ? 1 : 0), 0);
+  const stride = Math.max(1, Math.ceil(darkCount / MAX_SKEW_SAMPLES));
+  for (let index = 0, seen = 0; index < data.length; index++) {
+    if (data[index] !== 0 || seen++ % stride !== 0) continue;
+    xs.push(index % info.width);
+    ys.push(Math.floor(index / info.width));
+  }
+  // 文字がほとんどない画像は判定しない
+  if (xs.length < 100) return 0;
+
+  const margin = Math.ceil(info.width * Math.tan((MAX_SKEW_ANGLE * Math.PI) / 180)) + 1;
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -MAX_SKEW_ANGLE; angle <= MAX_SKEW_ANGLE; angle += SKEW_ANGLE_STEP) {
+    const tan = Math.tan((angle * Math.PI) / 180);
+    const rows = new Float64Array(info.height + margin * 2);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(ys[i] - xs[i] * tan) + margin]++;
+    }
+    const score = rows.reduce((sum, count) => sum + count * count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+}
+
+// 画像を撮影時の向きに回転し、傾きを補正して、大きすぎる場合は縮小する
+// 補正しなかった場合は元のデータをそのまま返す（convertを指定した場合は常にPNG/JPEGに変換する）
+export async function normalizeImage(
+  content: Buffer,
+  { mimeType, page, convert = false }: { mimeType: string; page?: number; convert?: boolean }
+): Promise<NormalizedImage> {
+  const steps: PreprocessingStep[] = [];
+  const metadata = await sharp(content, { page }).metadata();
+
+  // EXIFの向き（スマートフォンで撮影した写真など）
+  let image = await sharp(content, { page }).rotate().toBuffer();
+  if (metadata.orientation && metadata.orientation > 1) {
+    steps.push({ code: 'auto_rotated', message: '撮影時の向きに合わせて回転しました' });
+  }
+
+  const angle = await estimateSkewAngle(image);
+  if (Math.abs(angle) >= MIN_SKEW_ANGLE) {
+    image = await sharp(image).rotate(-angle, { background: '#ffffff' }).toBuffer();
+    steps.push({ code: 'deskewed', message: `傾きを${angle.toFixed(2)}°補正しました` });
+  }
+
+  // 縮小した場合もページの実寸が変わらないよう、DPIを縮小率に合わせる
+  let density = metadata.density || 72;
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  if (Math.max(width, height) > MAX_IMAGE_EDGE) {
+    density *= MAX_IMAGE_EDGE / Math.max(width, height);
+    image = await sharp(image).resize({ width: MAX_IMAGE_EDGE, height: MAX_IMAGE_EDGE, fit: 'inside' }).toBuffer();
+    steps.push({ code: 'downsized', message: `${width}×${height}pxの画像を長辺${MAX_IMAGE_EDGE}pxに縮小しました` });
+  }
+
+  if (steps.length === 0 && !convert) {
+    return { content, mimeType, width, height, density, steps };
+  }
+
+  // 写真はJPEG、スキャン画像（PNG・TIFF・GIFなど）は文字がにじまないようPNGで出力する
+  const isPhoto = mimeType === 'image/jpeg' || mimeType === 'image/heic';
+  const output = sharp(image);
+  const result = await (isPhoto ? output.jpeg({ quality: 90 }) : output.png()).toBuffer({ resolveWithObject: true });
+
+  return {
+    content: result.data,
+    mimeType: isPhoto ? 'image/jpeg' : 'image/png',
+    width: result.info.width,
+    height: result.info.height,
+    density,
+    steps,
+  };
+}
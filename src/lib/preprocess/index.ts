@@ -0,0 +1,188 @@
+import heicDecode from 'heic-decode';
+import { PDFDocument } from 'pdf-lib';
+import sharp from 'sharp';
+import { normalizeImage } from './image';
+import { sniffMimeType } from './mime';
+import { PreprocessingStep, PreprocessingSummary } from './types';
+
+export * from './types';
+export { sniffMimeType } from './mime';
+
+// 前処理できないファイル（対応していない形式・壊れたファイル）
+export class PreprocessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreprocessError';
+  }
+}
+
+// 1回のリクエストで送るPDFのページ数の既定値（Document AIのオンライン処理の上限）
+export const DEFAULT_PAGE_LIMIT = 15;
+
+// 前処理せずにOCRへ送る画像（sharpで読み込めないが、Document AIは対応している）
+const PASSTHROUGH_MIME_TYPES = ['image/bmp'];
+
+// OCRに送るファイル（分割した場合は複数）
+export interface DocumentChunk {
+  content: Buffer;
+  mimeType: string;
+  startPage: number;
+  pageCount: number;
+}
+
+export interface PreprocessedDocument {
+  chunks: DocumentChunk[];
+  // 前処理後のファイル全体（読み取り位置の表示に使う。補正しなかった場合はアップロードしたファイル）
+  content: Buffer;
+  mimeType: string;
+  summary: PreprocessingSummary;
+}
+
+async function loadPdf(content: Buffer): Promise<PDFDocument> {
+  try {
+    const pdf = await PDFDocument.load(content, { ignoreEncryption: true, updateMetadata: false });
+    // ページツリーが壊れている場合はここで検出する
+    pdf.getPageCount();
+    return pdf;
+  } catch (error) {
+    console.error('PDFの読み込みエラー:', error);
+    throw new PreprocessError('PDFを読み込めませんでした。ファイルが壊れていないか確認してください');
+  }
+}
+
+// ファイルのページ数（PDF・複数ページのTIFF。それ以外の画像は1ページ）
+export async function countPages(content: Buffer, mimeType: string): Promise<number> {
+  if (mimeType === 'application/pdf') return (await loadPdf(content)).getPageCount();
+  if (mimeType === 'image/tiff') {
+    try {
+      return (await sharp(content).metadata()).pages || 1;
+    } catch {
+      throw new PreprocessError('画像を読み込めませんでした。ファイルが壊れていないか確認してください');
+    }
+  }
+  return 1;
+}
+
+// ページ数の上限を超えるPDFを、上限ごとのPDFに分割する
+async function splitPdf(content: Buffer, pageLimit: number): Promise<DocumentChunk[]> {
+  const source = await loadPdf(content);
+  const pageCount = source.getPageCount();
+  if (pageCount <= pageLimit) {
+    return [{ content, mimeType: 'application/pdf', startPage: 1, pageCount }];
+  }
+
+  const chunks: DocumentChunk[] = [];
+  for (let start = 0; start < pageCount; start += pageLimit) {
+    const indices = Array.from({ length: Math.min(pageLimit, pageCount - start) }, (_, i) => start + i);
+    const chunk = await PDFDocument.create();
+    const pages = await chunk.copyPages(source, indices);
+    pages.forEach(page => chunk.addPage(page));
+    chunks.push({
+      content: Buffer.from(await chunk.save()),
+      mimeType: 'application/pdf',
+      startPage: start + 1,
+      pageCount: indices.length,
+    });
+  }
+  return chunks;
+}
+
+// 複数ページのTIFF（FAXの受信データなど）は、各ページを補正してPDFにまとめる
+async function convertTiffToPdf(content: Buffer, steps: PreprocessingStep[]): Promise<Buffer> {
+  const { pages = 1 } = await sharp(content).metadata();
+  const pdf = await PDFDocument.create();
+
+  for (let page = 0; page < pages; page++) {
+    const image = await normalizeImage(content, { mimeType: 'image/tiff', page, convert: true });
+    image.steps.forEach(step => steps.push({ ...step, message: `${page + 1}ページ目: ${step.message}` }));
+
+    // 画像の解像度から実寸（ポイント）を求める
+    const embedded = await pdf.embedPng(image.content);
+    const width = (image.width / image.density) * 72;
+    const height = (image.height / image.density) * 72;
+    pdf.addPage([width, height]).drawImage(embedded, { x: 0, y: 0, width, height });
+  }
+
+  steps.unshift({ code: 'converted', message: `TIFF（${pages}ページ）をPDFに変換しました` });
+  return Buffer.from(await pdf.save());
+}
+
+// HEIC（iPhoneの写真）はDocument AIが対応していないためJPEGに変換する
+async function convertHeicToJpeg(content: Buffer, steps: PreprocessingStep[]): Promise<Buffer> {
+  try {
+    const { width, height, data } = await heicDecode({ buffer: content });
+    const jpeg = await sharp(Buffer.from(data), { raw: { width, height, channels: 4 } }).jpeg({ quality: 90 }).toBuffer();
+    steps.push({ code: 'converted', message: 'HEICをJPEGに変換しました' });
+    return jpeg;
+  } catch (error) {
+    console.error('HEICの変換エラー:', error);
+    throw new PreprocessError('HEICファイルを読み込めませんでした');
+  }
+}
+
+// アップロードされたファイルをOCRに送れる形に整える
+// 1. ファイルの内容からMIMEタイプを判定 2. TIFF・HEICを変換 3. 画像の向き・傾き・サイズを補正 4. PDFをページ数の上限で分割
+export async function preprocessDocument({ content, mimeType, pageLimit = DEFAULT_PAGE_LIMIT }: {
+  content: Buffer;
+  mimeType: string;
+  pageLimit?: number;
+}): Promise<PreprocessedDocument> {
+  const detectedMimeType = sniffMimeType(content);
+  if (!detectedMimeType) {
+    throw new PreprocessError('対応していないファイル形式です。PDFまたは画像（JPEG・PNG・TIFF・GIF・BMP・WebP・HEIC）を選択してください');
+  }
+
+  const steps: PreprocessingStep[] = [];
+  if (mimeType && mimeType !== detectedMimeType) {
+    steps.push({ code: 'mime_detected', message: `ファイルの内容から${detectedMimeType}として扱いました（申告: ${mimeType}）` });
+  }
+
+  let processed = content;
+  let processedMimeType = detectedMimeType;
+  let modified = false;
+
+  try {
+    if (detectedMimeType === 'image/tiff') {
+      processed = await convertTiffToPdf(content, steps);
+      processedMimeType = 'application/pdf';
+      modified = true;
+    } else if (detectedMimeType !== 'application/pdf' && !PASSTHROUGH_MIME_TYPES.includes(detectedMimeType)) {
+      const source = detectedMimeType === 'image/heic' ? await convertHeicToJpeg(content, steps) : content;
+      const image = await normalizeImage(source, {
+        mimeType: detectedMimeType,
+        convert: detectedMimeType === 'image/heic',
+      });
+      steps.push(...image.steps);
+      processed = image.content;
+      processedMimeType = image.mimeType;
+      modified = processed !== content;
+    }
+  } catch (error) {
+    if (error instanceof PreprocessError) throw error;
+    console.error('画像の前処理エラー:', error);
+    throw new PreprocessError('画像を読み込めませんでした。ファイルが壊れていないか確認してください');
+  }
+
+  const chunks = processedMimeType === 'application/pdf'
+    ? await splitPdf(processed, pageLimit)
+    : [{ content: processed, mimeType: processedMimeType, startPage: 1, pageCount: 1 }];
+
+  if (chunks.length > 1) {
+    const pageCount = chunks.reduce((sum, chunk) => sum + chunk.pageCount, 0);
+    steps.push({ code: 'split', message: `${pageCount}ページを${pageLimit}ページずつ${chunks.length}回に分けて解析しました` });
+  }
+
+  return {
+    chunks,
+    content: processed,
+    mimeType: processedMimeType,
+    summary: {
+      reportedMimeType: mimeType,
+      detectedMimeType,
+      mimeType: processedMimeType,
+      modified,
+      steps,
+      chunks: chunks.map(({ startPage, pageCount }) => ({ startPage, pageCount })),
+    },
+  };
+}
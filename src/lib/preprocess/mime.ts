@@ -0,0 +1,29 @@
+// ファイルの先頭バイト（マジックナンバー）からMIMEタイプを判定する
+// ブラウザが申告するfile.typeは拡張子から決まるため、FAX複合機などが付けた誤った拡張子をそのまま信用しない
+
+const SIGNATURES: { mimeType: string; matches: (bytes: Buffer) => boolean }[] = [
+  { mimeType: 'application/pdf', matches: bytes => bytes.subarray(0, 5).toString('latin1') === '%PDF-' },
+  { mimeType: 'image/png', matches: bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', matches: bytes => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { mimeType: 'image/gif', matches: bytes => ['GIF87a', 'GIF89a'].includes(bytes.subarray(0, 6).toString('latin1')) },
+  {
+    mimeType: 'image/tiff',
+    matches: bytes => ['II*\0', 'MM\0*'].includes(bytes.subarray(0, 4).toString('latin1')),
+  },
+  { mimeType: 'image/bmp', matches: bytes => bytes.subarray(0, 2).toString('latin1') === 'BM' },
+  {
+    mimeType: 'image/webp',
+    matches: bytes => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+  // iPhoneの写真（ISOBMFFのftypボックスのブランドで判定）
+  {
+    mimeType: 'image/heic',
+    matches: bytes => bytes.subarray(4, 8).toString('latin1') === 'ftyp' &&
+      ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(bytes.subarray(8, 12).toString('latin1')),
+  },
+];
+
+// 判定できない場合はnull
+export function sniffMimeType(content: Buffer): string | null {
+  return SIGNATURES.find(signature => signature.matches(content))?.mimeType || null;
+}
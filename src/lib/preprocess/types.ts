@@ -0,0 +1,23 @@
+// OCRに送る前の前処理（形式の判定・変換、傾き補正、縮小、PDFの分割）の結果
+
+// mime_detected: 申告と異なるMIMEタイプを判定 / converted: 形式を変換 / auto_rotated: 撮影時の向きに回転
+// deskewed: 傾きを補正 / downsized: 縮小 / split: ページ数の上限を超えるPDFを分割
+export type PreprocessingStepCode = 'mime_detected' | 'converted' | 'auto_rotated' | 'deskewed' | 'downsized' | 'split';
+
+export interface PreprocessingStep {
+  code: PreprocessingStepCode;
+  message: string;
+}
+
+export interface PreprocessingSummary {
+  // ブラウザが申告したMIMEタイプと、ファイルの内容から判定したMIMEタイプ
+  reportedMimeType: string;
+  detectedMimeType: string;
+  // OCRに送ったファイルのMIMEタイプ（変換した場合は変換後）
+  mimeType: string;
+  // 画像を変換・補正したか（trueの場合、読み取り位置は補正後のファイルが基準になる）
+  modified: boolean;
+  steps: PreprocessingStep[];
+  // 分けてOCRに送ったページ範囲（分割しなかった場合は1件）
+  chunks: { startPage: number; pageCount: number }[];
+}
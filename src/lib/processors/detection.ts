@@ -0,0 +1,71 @@
+import { ProcessorConfig } from './types';
+
+// 取引先の自動判定
+// OCRで読み取ったテキストに、取引先設定の detection（語句・正規表現）がいくつ含まれるかで判定する
+// メールで受信した注文書は、送信元のアドレス（detection.senders）でも判定する
+
+// 自動判定を指定する場合のプロセッサタイプ
+export const AUTO_PROCESSOR_TYPE = 'auto';
+
+// この信頼度に満たない場合は判定できなかったものとする
+export const DETECTION_MIN_CONFIDENCE = 0.6;
+
+export interface ProcessorDetectionScore {
+  processorType: string;
+  name: string;
+  // 一致した語句・正規表現
+  matched: string[];
+}
+
+export interface ProcessorDetection {
+  // auto: 自動判定で取引先を決めた、manual: 指定された取引先で読み取り、判定結果は確認用
+  mode: 'auto' | 'manual';
+  // 判定した取引先（判定できなかった場合はnull）
+  detectedType: string | null;
+  // 一致した語句・正規表現の数のうち、判定した取引先の割合（0〜1）
+  confidence: number;
+  scores: ProcessorDetectionScore[];
+}
+
+// 全角・半角、大文字・小文字、空白の違いを無視して比較する
+function normalizeText(value: string): string {
+  return value.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+}
+
+function matchRules(text: string, processor: ProcessorConfig): string[] {
+  const normalized = normalizeText(text);
+  const nfkc = text.normalize('NFKC');
+  const keywords = (processor.detection?.keywords || [])
+    .filter(keyword => normalizeText(keyword) && normalized.includes(normalizeText(keyword)));
+  const patterns = (processor.detection?.patterns || [])
+    .filter(pattern => new RegExp(pattern, 'm').test(nfkc));
+  return [...keywords, ...patterns];
+}
+
+export function detectProcessor(text: string, processors: ProcessorConfig[]): Omit<ProcessorDetection, 'mode'> {
+  const scores = processors
+    .map(processor => ({ processorType: processor.id, name: processor.name, matched: matchRules(text, processor) }))
+    .sort((a, b) => b.matched.length - a.matched.length);
+
+  const total = scores.reduce((sum, score) => sum + score.matched.length, 0);
+  const best = scores[0];
+  const confidence = total > 0 ? Math.round((best.matched.length / total) * 1000) / 1000 : 0;
+
+  return {
+    detectedType: confidence >= DETECTION_MIN_CONFIDENCE ? best.processorType : null,
+    confidence,
+    scores,
+  };
+}
+
+// 送信元のメールアドレスに一致する取引先（アドレスの完全一致、または @ドメイン の一致）
+export function findProcessorBySender(address: string, processors: ProcessorConfig[]): ProcessorConfig | undefined {
+  const normalized = address.trim().toLowerCase();
+  if (!normalized.includes('@')) return undefined;
+  const domain = normalized.slice(normalized.lastIndexOf('@'));
+
+  return processors.find(processor => (processor.detection?.senders || []).some(sender => {
+    const rule = sender.trim().toLowerCase();
+    return rule.startsWith('@') ? rule === domain : rule === normalized;
+  }));
+}
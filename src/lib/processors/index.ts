@@ -0,0 +1,120 @@
+import fs from 'fs';
+import path from 'path';
+import { withFileLock, writeJsonFile } from '@/lib/storage';
+import { AUTO_PROCESSOR_TYPE } from './detection';
+import { ProcessorConfig } from './types';
+
+export * from './types';
+export * from './detection';
+
+// 取引先設定の読み込みエラー
+export class ProcessorRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProcessorRegistryError';
+  }
+}
+
+function getRegistryPath(): string {
+  return process.env.PROCESSOR_REGISTRY_PATH || path.join(process.cwd(), 'data', 'processors.json');
+}
+
+function validateProcessorConfig(config: ProcessorConfig, index: number): void {
+  const label = config?.id || `#${index}`;
+
+  if (!config?.id || !config.name) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} に id または name がありません`);
+  }
+  if (!config.processorId && !config.processorIdEnv) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} に processorId または processorIdEnv がありません`);
+  }
+  if (!Array.isArray(config.headerFields) || !Array.isArray(config.itemColumns) || config.itemColumns.length === 0) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} の headerFields / itemColumns が不正です`);
+  }
+  if (!config.productCode || !(config.productCode.length > 0)) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} の productCode.length が不正です`);
+  }
+  const fields = [...config.headerFields, ...config.itemColumns];
+  const invalidType = fields.find(field => field.type && !['string', 'number', 'date'].includes(field.type));
+  if (invalidType) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} の ${invalidType.key} の type が不正です: ${invalidType.type}`);
+  }
+  if (config.pageLimit !== undefined && !(Number.isInteger(config.pageLimit) && config.pageLimit > 0)) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} の pageLimit が不正です`);
+  }
+  if (config.priceCheck && (
+    !['sales_price', 'purchase_price'].includes(config.priceCheck.field) ||
+    !(config.priceCheck.tolerance >= 0)
+  )) {
+    throw new ProcessorRegistryError(`取引先設定 ${label} の priceCheck が不正です`);
+  }
+  if (config.detection) {
+    const { keywords = [], patterns = [], senders = [] } = config.detection;
+    if (
+      !Array.isArray(keywords) || !Array.isArray(patterns) || !Array.isArray(senders) ||
+      [...keywords, ...patterns, ...senders].some(rule => typeof rule !== 'string')
+    ) {
+      throw new ProcessorRegistryError(`取引先設定 ${label} の detection が不正です`);
+    }
+    for (const pattern of patterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new ProcessorRegistryError(`取引先設定 ${label} の detection.patterns が正規表現として不正です: ${pattern}`);
+      }
+    }
+    const invalidSender = senders.find(sender => !/^[^@\s]*@[^@\s]+$/.test(sender.trim()));
+    if (invalidSender !== undefined) {
+      throw new ProcessorRegistryError(`取引先設定 ${label} の detection.senders が不正です: ${invalidSender}`);
+    }
+  }
+  if (config.id === AUTO_PROCESSOR_TYPE) {
+    throw new ProcessorRegistryError(`取引先設定のidに ${AUTO_PROCESSOR_TYPE} は使用できません（自動判定に使用します）`);
+  }
+}
+
+function validateProcessorRegistry(processors: ProcessorConfig[]): void {
+  if (!Array.isArray(processors) || processors.length === 0) {
+    throw new ProcessorRegistryError('取引先設定が1件も登録されていません');
+  }
+
+  processors.forEach(validateProcessorConfig);
+
+  const ids = new Set<string>();
+  for (const { id } of processors) {
+    if (ids.has(id)) {
+      throw new ProcessorRegistryError(`取引先設定のidが重複しています: ${id}`);
+    }
+    ids.add(id);
+  }
+}
+
+// 取引先設定を読み込む
+// 新しい取引先の追加時に再起動しなくて済むよう、呼び出しごとにファイルを読む
+export async function loadProcessorRegistry(): Promise<ProcessorConfig[]> {
+  const fileContents = await fs.promises.readFile(getRegistryPath(), 'utf8');
+  const { processors } = JSON.parse(fileContents) as { processors: ProcessorConfig[] };
+
+  validateProcessorRegistry(processors);
+  return processors;
+}
+
+// 取引先設定を検証して保存する（管理者による編集）
+export function saveProcessorRegistry(processors: ProcessorConfig[]): Promise<ProcessorConfig[]> {
+  const registryPath = getRegistryPath();
+  return withFileLock(registryPath, async () => {
+    validateProcessorRegistry(processors);
+    await writeJsonFile(registryPath, { processors });
+    return processors;
+  });
+}
+
+export async function getProcessorConfig(id: string): Promise<ProcessorConfig | undefined> {
+  const processors = await loadProcessorRegistry();
+  return processors.find(p => p.id === id);
+}
+
+// 設定からDocument AIのプロセッサIDを解決する
+export function resolveProcessorId(config: ProcessorConfig): string | undefined {
+  return config.processorId || (config.processorIdEnv ? process.env[config.processorIdEnv] : undefined);
+}
@@ -0,0 +1,97 @@
+// 取引先（注文書フォーマット）ごとの設定
+// data/processors.json に定義し、API・画面の両方から参照する
+
+// 項目の値の型（number: 数値、date: 日付。省略時は文字列）
+export type FieldType = 'string' | 'number' | 'date';
+
+// ヘッダー項目の定義（parentを指定するとそのエンティティのpropertiesから取得）
+export interface HeaderFieldConfig {
+  key: string;
+  label: string;
+  parent?: string;
+  type?: FieldType;
+  // type: date の項目で、日付以外の記載（11月上旬・午前着など）を備考として受け付ける
+  remarks?: boolean;
+  // 空欄の場合に要確認とする
+  required?: boolean;
+}
+
+// 明細テーブルのカラム定義
+export interface ItemColumnConfig {
+  key: string;
+  label: string;
+  align: 'left' | 'right';
+  type?: FieldType;
+  // type: date の項目で、日付以外の記載（11月上旬・午前着など）を備考として受け付ける
+  remarks?: boolean;
+  // 空欄の場合に要確認とする
+  required?: boolean;
+}
+
+// 商品コードの補正ルール
+export interface ProductCodeRule {
+  // 先頭から何文字を商品コードとして扱うか
+  length: number;
+  // 数字以外の文字を取り除いてから補正する
+  digitsOnly?: boolean;
+  // JANコードの事業者コード（一致する場合はJANの商品アイテムコードから商品コードを求める）
+  janCompanyPrefix?: string;
+}
+
+// 単価とマスター価格の比較ルール
+export interface PriceCheckRule {
+  // 比較するマスターの価格
+  field: 'sales_price' | 'purchase_price';
+  // 許容する差（0.05 = 5%）
+  tolerance: number;
+}
+
+// 取引先の自動判定ルール（OCRで読み取ったテキストに含まれる社名・帳票名などの語句と、正規表現）
+export interface DetectionRule {
+  keywords?: string[];
+  patterns?: string[];
+  // メールで受信した注文書の送信元（メールアドレス、または @example.co.jp の形のドメイン）
+  senders?: string[];
+}
+
+export interface ProcessorConfig {
+  id: string;
+  name: string;
+  // プロセッサIDを直接指定するか、環境変数名で指定する
+  processorId?: string;
+  processorIdEnv?: string;
+  processorVersionId?: string;
+  // 1回のリクエストで送るPDFの最大ページ数（超える場合は分割して解析する。既定: 15）
+  pageLimit?: number;
+  headerFields: HeaderFieldConfig[];
+  itemColumns: ItemColumnConfig[];
+  productCode: ProductCodeRule;
+  priceCheck?: PriceCheckRule;
+  detection?: DetectionRule;
+}
+
+// 画面に返す設定（プロセッサIDなどサーバー側の情報は含めない）
+export type PublicProcessorConfig = Omit<ProcessorConfig, 'processorId' | 'processorIdEnv' | 'processorVersionId' | 'pageLimit' | 'detection'>;
+
+export function toPublicProcessorConfig(config: ProcessorConfig): PublicProcessorConfig {
+  return {
+    id: config.id,
+    name: config.name,
+    headerFields: config.headerFields,
+    itemColumns: config.itemColumns,
+    productCode: config.productCode,
+    priceCheck: config.priceCheck,
+  };
+}
+
+// ヘッダー項目のキー（parent付きの項目は "recipient_company.name" の形）
+export function getHeaderFieldKey(field: HeaderFieldConfig): string {
+  return field.parent ? `${field.parent}.${field.key}` : field.key;
+}
+
+// 補正ルールに従って商品コードを正規化する
+// ルールの桁数に満たないコードは切り詰めずに返す
+export function normalizeProductCode(code: string, rule: ProductCodeRule): string {
+  const source = rule.digitsOnly ? code.replace(/\D/g, '') : code;
+  return source.length >= rule.length ? source.substring(0, rule.length) : source;
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createProduct, getAllProducts, importProducts } from './index';
+
+// 商品マスタのCSV取り込み（差分の確認と反映）を、一時的なデータディレクトリで確認する
+
+let tempDir: string;
+const originalEnv = { ...process.env };
+
+beforeEach(async () => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'products-'));
+  process.env.DATA_DIR = tempDir;
+
+  await createProduct({ product_code: '1546', product_name: '油性ツインマーカー', purchase_price: 120, sales_price: 200, jan_code: '4954939015460' });
+  await createProduct({ product_code: '2337', product_name: '蛍光ツインマーカー', purchase_price: 90, sales_price: 150 });
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const csv = [
+  '商品コード,商品名,仕入単価,販売単価',
+  '1546,油性ツインマーカー,120,"1,980"',
+  '2337,蛍光ツインマーカー,90,150',
+  '3001,ボールペン,50,100',
+].join('\n');
+
+describe('importProducts', () => {
+  it('dryRunでは追加・更新・変更なしの件数を返し、データは変更しない', async () => {
+    const before = await getAllProducts();
+    const result = await importProducts(csv, { dryRun: true });
+
+    expect(result.applied).toBe(false);
+    expect(result.errors).toEqual([]);
+    expect(result.added).toEqual([{ product_code: '3001', product_name: 'ボールペン', purchase_price: 50, sales_price: 100 }]);
+    expect(result.updated).toHaveLength(1);
+    expect(result.updated[0].before.sales_price).toBe(200);
+    expect(result.updated[0].after).toMatchObject({ id: 1, product_code: '1546', sales_price: 1980 });
+    expect(result.unchanged).toBe(1);
+    expect(await getAllProducts()).toEqual(before);
+  });
+
+  it('反映すると更新と追加を保存し、追加した商品に続きのIDを振る', async () => {
+    const result = await importProducts(csv, { dryRun: false });
+    expect(result.applied).toBe(true);
+
+    const products = await getAllProducts();
+    expect(products).toHaveLength(3);
+    expect(products.find(p => p.product_code === '1546')).toMatchObject({ id: 1, sales_price: 1980 });
+    expect(products.find(p => p.product_code === '3001')).toMatchObject({ id: 3, product_name: 'ボールペン' });
+  });
+
+  it('CSVにない列は既存の価格とJANコードを維持する', async () => {
+    const result = await importProducts('品番,品名\n1546,油性ツインマーカー2本入\n', { dryRun: false });
+
+    expect(result.updated).toHaveLength(1);
+    expect((await getAllProducts())[0]).toEqual({
+      id: 1,
+      product_code: '1546',
+      product_name: '油性ツインマーカー2本入',
+      purchase_price: 120,
+      sales_price: 200,
+      jan_code: '4954939015460',
+    });
+  });
+
+  it('1行でもエラーがあれば行番号付きで返し、他の行も反映しない', async () => {
+    const before = await getAllProducts();
+    const result = await importProducts([
+      '商品コード,商品名,販売単価',
+      '3001,ボールペン,100',
+      '3001,ボールペン（赤）,100',
+      '3002,消しゴム,-1',
+    ].join('\n'), { dryRun: false });
+
+    expect(result.applied).toBe(false);
+    expect(result.errors.map(e => e.line)).toEqual([3, 4]);
+    expect(result.errors[0].message).toContain('CSV内で重複');
+    expect(await getAllProducts()).toEqual(before);
+  });
+
+  it('見出し行に商品コードと商品名の列がなければ1行目のエラーにする', async () => {
+    const result = await importProducts('コード,価格\n1546,200\n', { dryRun: false });
+
+    expect(result.errors).toEqual([{ line: 1, message: '見出し行に商品コードと商品名の列が必要です' }]);
+    expect(result.applied).toBe(false);
+  });
+});
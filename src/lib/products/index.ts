@@ -0,0 +1,279 @@
+import { parseCsv } from '@/lib/csv';
+import { getDataPath, readJsonFile, withFileLock, writeTextFile } from '@/lib/storage';
+import { normalizeProductName } from './matching';
+import { Product, ProductImportResult, ProductInput, ProductSearchResult } from './types';
+
+export * from './types';
+
+// 入力内容の検証エラー（項目ごとのメッセージを持つ）
+export class ProductValidationError extends Error {
+  constructor(public readonly fieldErrors: Record<string, string>) {
+    super(Object.values(fieldErrors).join(' / '));
+    this.name = 'ProductValidationError';
+  }
+}
+
+export class ProductNotFoundError extends Error {
+  constructor(id: number) {
+    super(`商品が見つかりません（id: ${id}）`);
+    this.name = 'ProductNotFoundError';
+  }
+}
+
+// 商品コードの重複
+export class ProductConflictError extends Error {
+  constructor(productCode: string) {
+    super(`商品コード ${productCode} は既に登録されています`);
+    this.name = 'ProductConflictError';
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// CSVの見出しと項目の対応（仕入先のExcel出力の見出しにも対応する）
+const CSV_HEADER_ALIASES: Record<keyof ProductInput, string[]> = {
+  product_code: ['product_code', '商品コード', 'コード', '品番'],
+  product_name: ['product_name', '商品名', '品名', '品名・規格'],
+  purchase_price: ['purchase_price', '仕入単価', '仕入価格', '原価'],
+  sales_price: ['sales_price', '販売単価', '販売価格', '売価'],
+  jan_code: ['jan_code', 'JANコード', 'JAN'],
+};
+
+function getProductsPath(): string {
+  return getDataPath('products.json');
+}
+
+async function readProducts(): Promise<Product[]> {
+  const data = await readJsonFile<{ products: Product[] }>(getProductsPath(), { products: [] });
+  return data.products;
+}
+
+// 差分が見やすいよう、1商品1行の形式で保存する
+async function writeProducts(products: Product[]): Promise<void> {
+  const lines = products.map(product => `    ${JSON.stringify(product)}`);
+  await writeTextFile(getProductsPath(), `{\n  "products": [\n${lines.join(',\n')}\n  ]\n}\n`);
+}
+
+// 全角数字・カンマ・円記号を含む価格を数値に変換する
+function parsePrice(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').normalize('NFKC').replace(/[,¥\s]/g, '');
+  return text === '' ? 0 : Number(text);
+}
+
+// APIやCSVから受け取る未検証の入力
+type RawProductInput = Partial<Record<keyof ProductInput, unknown>>;
+
+// 入力値を正規化し、検証する
+function validateProductInput(input: RawProductInput): ProductInput {
+  const errors: Record<string, string> = {};
+
+  const productCode = String(input.product_code ?? '').normalize('NFKC').trim();
+  const productName = String(input.product_name ?? '').trim();
+  const purchasePrice = parsePrice(input.purchase_price);
+  const salesPrice = parsePrice(input.sales_price);
+  const janCode = String(input.jan_code ?? '').normalize('NFKC').trim();
+
+  if (!productCode) errors.product_code = '商品コードを入力してください';
+  if (!productName) errors.product_name = '商品名を入力してください';
+  if (!Number.isFinite(purchasePrice) || purchasePrice < 0) errors.purchase_price = '仕入価格は0以上の数値で入力してください';
+  if (!Number.isFinite(salesPrice) || salesPrice < 0) errors.sales_price = '販売価格は0以上の数値で入力してください';
+  if (janCode && !/^(\d{8}|\d{13})$/.test(janCode)) errors.jan_code = 'JANコードは8桁または13桁の数字で入力してください';
+
+  if (Object.keys(errors).length > 0) {
+    throw new ProductValidationError(errors);
+  }
+
+  return {
+    product_code: productCode,
+    product_name: productName,
+    purchase_price: purchasePrice,
+    sales_price: salesPrice,
+    ...(janCode ? { jan_code: janCode } : {}),
+  };
+}
+
+// 仕入価格を閲覧できないユーザーに返す商品（purchase_priceを除く）
+export function hidePurchasePrice(product: Product): Product {
+  return { ...product, purchase_price: undefined };
+}
+
+export async function getAllProducts(): Promise<Product[]> {
+  return readProducts();
+}
+
+export async function getProduct(id: number): Promise<Product> {
+  const product = (await readProducts()).find(p => p.id === id);
+  if (!product) throw new ProductNotFoundError(id);
+  return product;
+}
+
+// 商品コード・商品名・JANコードで検索する
+// 商品名は半角/全角カナの違いを吸収して部分一致で比較する
+export async function searchProducts({ q = '', page = 1, pageSize = DEFAULT_PAGE_SIZE }: {
+  q?: string;
+  page?: number;
+  pageSize?: number;
+}): Promise<ProductSearchResult> {
+  const products = await readProducts();
+  const keyword = q.normalize('NFKC').trim();
+  const normalizedKeyword = normalizeProductName(keyword);
+
+  const matched = keyword
+    ? products.filter(p =>
+      p.product_code.includes(keyword) ||
+      p.jan_code?.includes(keyword) ||
+      normalizeProductName(p.product_name).includes(normalizedKeyword)
+    )
+    : products;
+
+  const size = Math.min(Math.max(1, Math.floor(pageSize) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const current = Math.max(1, Math.floor(page) || 1);
+
+  return {
+    products: matched.slice((current - 1) * size, current * size),
+    total: matched.length,
+    page: current,
+    pageSize: size,
+  };
+}
+
+export function createProduct(input: RawProductInput): Promise<Product> {
+  const values = validateProductInput(input);
+
+  return withFileLock(getProductsPath(), async () => {
+    const products = await readProducts();
+    if (products.some(p => p.product_code === values.product_code)) {
+      throw new ProductConflictError(values.product_code);
+    }
+
+    const product: Product = { id: Math.max(0, ...products.map(p => p.id)) + 1, ...values };
+    await writeProducts([...products, product]);
+    return product;
+  });
+}
+
+export function updateProduct(id: number, input: RawProductInput): Promise<Product> {
+  const values = validateProductInput(input);
+
+  return withFileLock(getProductsPath(), async () => {
+    const products = await readProducts();
+    const index = products.findIndex(p => p.id === id);
+    if (index < 0) throw new ProductNotFoundError(id);
+    if (products.some(p => p.id !== id && p.product_code === values.product_code)) {
+      throw new ProductConflictError(values.product_code);
+    }
+
+    const product: Product = { id, ...values };
+    products[index] = product;
+    await writeProducts(products);
+    return product;
+  });
+}
+
+export function deleteProduct(id: number): Promise<void> {
+  return withFileLock(getProductsPath(), async () => {
+    const products = await readProducts();
+    if (!products.some(p => p.id === id)) throw new ProductNotFoundError(id);
+    await writeProducts(products.filter(p => p.id !== id));
+  });
+}
+
+// CSVの見出し行から各項目の列位置を求める
+function resolveCsvColumns(header: string[]): Partial<Record<keyof ProductInput, number>> {
+  const normalized = header.map(cell => cell.normalize('NFKC').trim().toLowerCase());
+
+  return Object.fromEntries(
+    Object.entries(CSV_HEADER_ALIASES).flatMap(([key, aliases]) => {
+      const index = normalized.findIndex(cell => aliases.some(alias => alias.normalize('NFKC').toLowerCase() === cell));
+      return index >= 0 ? [[key, index]] : [];
+    })
+  );
+}
+
+function isSameProduct(a: Omit<Product, 'id'>, b: Omit<Product, 'id'>): boolean {
+  return a.product_code === b.product_code &&
+    a.product_name === b.product_name &&
+    a.purchase_price === b.purchase_price &&
+    a.sales_price === b.sales_price &&
+    (a.jan_code || '') === (b.jan_code || '');
+}
+
+// CSVを商品コードで既存データと突き合わせ、追加・更新する
+// dryRunの場合や1行でもエラーがある場合は差分のみ返して反映しない
+export function importProducts(text: string, { dryRun }: { dryRun: boolean }): Promise<ProductImportResult> {
+  return withFileLock(getProductsPath(), async () => {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = resolveCsvColumns(header);
+    const result: ProductImportResult = { added: [], updated: [], unchanged: 0, errors: [], applied: false };
+
+    if (columns.product_code === undefined || columns.product_name === undefined) {
+      result.errors.push({ line: 1, message: '見出し行に商品コードと商品名の列が必要です' });
+      return result;
+    }
+
+    const products = await readProducts();
+    const byCode = new Map(products.map(p => [p.product_code, p]));
+    const seenCodes = new Set<string>();
+
+    rows.forEach((row, index) => {
+      // 見出し行が1行目のため、データは2行目から
+      const line = index + 2;
+      const cell = (key: keyof ProductInput) => {
+        const column = columns[key];
+        return column === undefined ? undefined : row[column];
+      };
+
+      try {
+        const values = validateProductInput({
+          product_code: cell('product_code'),
+          product_name: cell('product_name'),
+          purchase_price: cell('purchase_price'),
+          sales_price: cell('sales_price'),
+          jan_code: cell('jan_code'),
+        });
+
+        if (seenCodes.has(values.product_code)) {
+          result.errors.push({ line, message: `商品コード ${values.product_code} がCSV内で重複しています` });
+          return;
+        }
+        seenCodes.add(values.product_code);
+
+        const existing = byCode.get(values.product_code);
+        if (!existing) {
+          result.added.push(values);
+        } else {
+          // CSVにない列（価格・JANコード）は既存の値を維持する
+          const after: Product = {
+            id: existing.id,
+            ...values,
+            ...(columns.purchase_price === undefined ? { purchase_price: existing.purchase_price } : {}),
+            ...(columns.sales_price === undefined ? { sales_price: existing.sales_price } : {}),
+            ...(columns.jan_code === undefined && existing.jan_code ? { jan_code: existing.jan_code } : {}),
+          };
+          if (isSameProduct(existing, after)) {
+            result.unchanged++;
+          } else {
+            result.updated.push({ before: existing, after });
+          }
+        }
+      } catch (error) {
+        result.errors.push({ line, message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    if (dryRun || result.errors.length > 0) {
+      return result;
+    }
+
+    const updatedById = new Map(result.updated.map(({ after }) => [after.id, after]));
+    let nextId = Math.max(0, ...products.map(p => p.id)) + 1;
+    await writeProducts([
+      ...products.map(p => updatedById.get(p.id) || p),
+      ...result.added.map(values => ({ id: nextId++, ...values })),
+    ]);
+
+    return { ...result, applied: true };
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ProductCodeRule } from '@/lib/processors/types';
+import {
+  editDistance,
+  extractJanCodes,
+  findProductCandidates,
+  isConfidentMatch,
+  janToProductCode,
+  nameSimilarity,
+  normalizeProductName,
+} from './matching';
+import type { Product } from './types';
+
+const rule: ProductCodeRule = { length: 4, digitsOnly: true, janCompanyPrefix: '4954939' };
+
+const products: Product[] = [
+  { id: 1, product_code: '1546', product_name: '油性ツインマーカー2本入細（黒黒）', sales_price: 200 },
+  { id: 2, product_code: '2337', product_name: '蛍光ツインマーカー（イエロー）', sales_price: 150 },
+  { id: 3, product_code: '9001', product_name: 'ボールペン 4901234567894', sales_price: 100 },
+];
+
+describe('品名の正規化と類似度', () => {
+  it('半角カナ・全角英数・長音・空白の揺れを吸収する', () => {
+    expect(normalizeProductName('ﾏｰｶｰ ＡＢＣ')).toBe(normalizeProductName('マ-カ-abc'));
+  });
+
+  it('同じ品名は1、共通部分のない品名は0になる', () => {
+    expect(nameSimilarity('蛍光マーカー', 'ｹｲｺｳ')).toBe(0);
+    expect(nameSimilarity('蛍光マーカー', '蛍光マ－カ－')).toBe(1);
+  });
+});
+
+describe('editDistance', () => {
+  it('隣接する文字の入れ替えを1操作として数える', () => {
+    expect(editDistance('1546', '1456')).toBe(1);
+    expect(editDistance('1546', '1547')).toBe(1);
+    expect(editDistance('1546', '2337')).toBe(4);
+  });
+});
+
+describe('JANコード', () => {
+  it('テキストから13桁・8桁のJANコードを抽出する', () => {
+    expect(extractJanCodes('JAN:４９５４９３９０２３３７０ / 49012345')).toEqual(['4954939023370', '49012345']);
+  });
+
+  it('事業者コードが一致するJANから商品コードを求める', () => {
+    expect(janToProductCode('4954939023370', rule)).toBe('2337');
+    expect(janToProductCode('4901234567894', rule)).toBeUndefined();
+  });
+});
+
+describe('findProductCandidates', () => {
+  it('商品コードが完全に一致する商品を確実な候補として返す', () => {
+    const [best] = findProductCandidates({ code: '1546-01', jan: '', name: '' }, rule, products);
+    expect(best.product.id).toBe(1);
+    expect(best.reasons).toContain('code');
+    expect(isConfidentMatch(best)).toBe(true);
+  });
+
+  it('1文字違いの商品コードは読み違いの候補として返し、確認が必要とする', () => {
+    const [best] = findProductCandidates({ code: '1646', jan: '', name: '油性ツインマーカー' }, rule, products);
+    expect(best.product.id).toBe(1);
+    expect(best.reasons).toEqual(expect.arrayContaining(['code-fuzzy', 'name']));
+    expect(isConfidentMatch(best)).toBe(false);
+  });
+
+  it('JANコードの商品アイテムコードや品名に埋め込まれたJANで照合する', () => {
+    const [fromJan] = findProductCandidates({ code: '', jan: '4954939023370', name: '' }, rule, products);
+    expect(fromJan).toMatchObject({ product: { id: 2 }, reasons: ['jan'] });
+    expect(fromJan.score).toBeGreaterThanOrEqual(0.9);
+
+    const [fromName] = findProductCandidates({ code: '', jan: '4901234567894', name: '' }, rule, products);
+    expect(fromName.product.id).toBe(3);
+    expect(isConfidentMatch(fromName)).toBe(true);
+  });
+
+  it('一致しない商品は候補に含めない', () => {
+    expect(findProductCandidates({ code: '7777', jan: '', name: '消しゴム' }, rule, products)).toEqual([]);
+  });
+});
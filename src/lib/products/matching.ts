@@ -0,0 +1,149 @@
+import { normalizeProductCode, ProductCodeRule } from '@/lib/processors/types';
+import type { Product } from './types';
+
+// 候補として一致した根拠
+// code: 商品コード完全一致 / code-fuzzy: 商品コードの読み違い（編集距離） / jan: JANコード / name: 品名の類似
+export type MatchReason = 'code' | 'code-fuzzy' | 'jan' | 'name';
+
+export interface ProductCandidate {
+  product: Product;
+  // 0〜1のスコア（高いほど有力）
+  score: number;
+  reasons: MatchReason[];
+}
+
+// 照合に使うOCR結果
+export interface MatchQuery {
+  code: string;
+  jan: string;
+  name: string;
+}
+
+// 候補として返す最低スコアと件数
+const MIN_CANDIDATE_SCORE = 0.35;
+const MAX_CANDIDATES = 5;
+
+// 品名の類似度とコードの類似度の重み
+const CODE_WEIGHT = 0.55;
+const NAME_WEIGHT = 0.45;
+
+// 長音記号として使われる文字（マスターでは半角ハイフンが混在している）
+const PROLONGED_SOUND_MARKS = /[-－‐―ｰ—]/g;
+
+// 品名を比較用に正規化する
+// 半角カナ→全角カナ、全角英数→半角英数（NFKC）に揃え、長音・空白・記号の揺れを吸収する
+export function normalizeProductName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .replace(PROLONGED_SOUND_MARKS, 'ー')
+    .replace(/[\s・/]/g, '')
+    .toLowerCase();
+}
+
+// 編集距離（隣接文字の入れ替えも1操作として数える）
+// OCRでは桁の入れ替わりがよく起きるため、通常のレーベンシュタイン距離より実態に近い
+export function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+function bigrams(text: string): string[] {
+  if (text.length < 2) return text ? [text] : [];
+  return Array.from({ length: text.length - 1 }, (_, i) => text.substring(i, i + 2));
+}
+
+// 品名の類似度（正規化後の文字bigramのDice係数）
+export function nameSimilarity(a: string, b: string): number {
+  const left = bigrams(normalizeProductName(a));
+  const right = bigrams(normalizeProductName(b));
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+
+  let overlap = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length);
+}
+
+// テキスト中のJANコード（13桁・8桁）を抽出する
+export function extractJanCodes(text: string): string[] {
+  return text.normalize('NFKC').match(/(?<!\d)(\d{13}|\d{8})(?!\d)/g) || [];
+}
+
+// JANコードの商品アイテムコード部分から商品コードを求める
+// 例: 4954939023370（事業者コード4954939）→ 02337 → 2337
+export function janToProductCode(jan: string, rule: ProductCodeRule): string | undefined {
+  const prefix = rule.janCompanyPrefix;
+  if (!prefix || jan.length !== 13 || !jan.startsWith(prefix)) return undefined;
+
+  const itemReference = jan.substring(prefix.length, 12);
+  return itemReference.length >= rule.length ? itemReference.slice(-rule.length) : undefined;
+}
+
+// OCR結果から商品マスターの候補をスコア順に返す
+// 商品コード（完全一致・編集距離）、JANコード、品名の類似度を組み合わせて評価する
+export function findProductCandidates(query: MatchQuery, rule: ProductCodeRule, products: Product[]): ProductCandidate[] {
+  const code = normalizeProductCode(query.code, rule);
+  const jans = extractJanCodes(`${query.jan} ${query.name}`);
+  const janCodes = new Set(jans.map(jan => janToProductCode(jan, rule)).filter(Boolean));
+
+  const candidates = products.map(product => {
+    const reasons: MatchReason[] = [];
+
+    let codeScore = 0;
+    if (code && product.product_code === code) {
+      codeScore = 1;
+      reasons.push('code');
+    } else if (code.length >= rule.length) {
+      const distance = editDistance(code, product.product_code);
+      // 1文字違いまでを読み違いとみなす
+      if (distance <= 1) {
+        codeScore = 1 - distance / Math.max(code.length, product.product_code.length);
+        reasons.push('code-fuzzy');
+      }
+    }
+
+    // マスターの品名に埋め込まれたJAN、またはJANから求めた商品コードとの一致
+    const isJanMatch = jans.some(jan => product.product_name.includes(jan)) || janCodes.has(product.product_code);
+    if (isJanMatch) reasons.push('jan');
+
+    const nameScore = query.name ? nameSimilarity(query.name, product.product_name) : 0;
+    if (nameScore >= 0.5) reasons.push('name');
+
+    const weighted = CODE_WEIGHT * codeScore + NAME_WEIGHT * nameScore;
+    const score = isJanMatch ? Math.max(weighted, 0.9 + 0.1 * nameScore) : weighted;
+
+    return { product, score, reasons };
+  });
+
+  return candidates
+    .filter(candidate => candidate.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES);
+}
+
+// 確認なしで採用してよい候補か（商品コード完全一致またはJANコード一致）
+export function isConfidentMatch(candidate: ProductCandidate | undefined): candidate is ProductCandidate {
+  return !!candidate && (candidate.reasons.includes('code') || candidate.reasons.includes('jan'));
+}
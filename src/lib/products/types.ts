@@ -0,0 +1,31 @@
+// 商品マスターデータのインターフェース
+export interface Product {
+  id: number;
+  product_code: string;
+  product_name: string;
+  // 仕入価格（閲覧権限のないユーザーへのAPIレスポンスでは省略する）
+  purchase_price?: number;
+  sales_price: number;
+  jan_code?: string;
+}
+
+// 登録・更新時の入力
+export type ProductInput = Omit<Product, 'id'> & Pick<Required<Product>, 'purchase_price'>;
+
+// 検索結果（ページング）
+export interface ProductSearchResult {
+  products: Product[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// CSV一括取り込みの差分
+export interface ProductImportResult {
+  added: ProductInput[];
+  updated: { before: Product; after: Product }[];
+  unchanged: number;
+  errors: { line: number; message: string }[];
+  // dryRunでない場合に、実際に反映したかどうか
+  applied: boolean;
+}
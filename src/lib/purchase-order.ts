@@ -0,0 +1,197 @@
+import type { BoundingBox, ExtractedEntity } from '@/lib/ocr/entities';
+import { parseJapaneseDate, parseNumber } from '@/lib/normalize';
+import { FieldType, getHeaderFieldKey, PublicProcessorConfig } from '@/lib/processors/types';
+
+// 取引先設定（headerFields / itemColumns のtype）に従って型変換した注文書
+// APIのレスポンス・画面・出力で共通に使う
+
+// 型変換後の値（number: 数値、date: YYYY-MM-DD、string: 文字列。空欄・変換できない場合はnull）
+export type FieldValue = string | number | null;
+
+export interface PurchaseOrderField {
+  // 読み取った（手修正した）ままの文字列
+  raw: string;
+  value: FieldValue;
+  // 日付の項目で、日付以外の記載（remarksを指定した項目のみ）
+  remark?: string;
+  // OCRの信頼度と読み取り位置（手修正後の値から作成した場合は含まない）
+  confidence?: number;
+  boundingBox?: BoundingBox;
+}
+
+export interface PurchaseOrderLine {
+  // 明細行が記載されていたページ（手動で追加した行は0）
+  page: number;
+  fields: Record<string, PurchaseOrderField>;
+}
+
+// 項目ごとのスキーマエラー
+// path は "header.order_date" / "lines.0.quantity" の形
+export interface SchemaError {
+  path: string;
+  code: 'required' | 'invalid_number' | 'invalid_date';
+  message: string;
+}
+
+export interface PurchaseOrder {
+  processorType: string;
+  // キーはgetHeaderFieldKeyの形（"order_date"、"recipient_company.name" など）
+  header: Record<string, PurchaseOrderField>;
+  recipientCompany: {
+    name: string | null;
+    address: string | null;
+  };
+  lines: PurchaseOrderLine[];
+  errors: SchemaError[];
+}
+
+// 型変換に必要な取引先設定
+type OrderSchema = Pick<PublicProcessorConfig, 'id' | 'headerFields' | 'itemColumns'>;
+
+type FieldSchema = { type?: FieldType; remarks?: boolean; required?: boolean };
+
+// 手修正後の値から作成する場合の入力
+interface OrderValues {
+  header: Record<string, string>;
+  rows: { page: number; values: Record<string, string> }[];
+}
+
+const SCHEMA_ERROR_MESSAGES: Record<SchemaError['code'], string> = {
+  required: '必須項目が空です',
+  invalid_number: '数値として読み取れません',
+  invalid_date: '日付として読み取れません',
+};
+
+export function getHeaderErrorPath(key: string): string {
+  return `header.${key}`;
+}
+
+export function getLineErrorPath(lineIndex: number, key: string): string {
+  return `lines.${lineIndex}.${key}`;
+}
+
+// 文字列を項目の型に変換する
+// 年のない日付はreferenceDate（注文日）から年を推定する
+function parseFieldValue(
+  raw: string,
+  field: FieldSchema,
+  referenceDate: string | null
+): { value: FieldValue; remark?: string; error?: SchemaError['code'] } {
+  const text = raw.trim();
+  if (!text) return { value: null };
+
+  if (field.type === 'number') {
+    const value = parseNumber(text);
+    return value === null ? { value: null, error: 'invalid_number' } : { value };
+  }
+  if (field.type === 'date') {
+    const { date, remark } = parseJapaneseDate(text, referenceDate);
+    if (field.remarks) return { value: date, ...(remark ? { remark } : {}) };
+    return date === null || remark ? { value: null, error: 'invalid_date' } : { value: date };
+  }
+  return { value: text };
+}
+
+// 項目を型変換し、スキーマエラーがあればerrorsに追加する
+function toField(
+  source: Omit<PurchaseOrderField, 'value'>,
+  field: FieldSchema,
+  path: string,
+  errors: SchemaError[],
+  referenceDate: string | null = null
+): PurchaseOrderField {
+  const { value, remark, error } = parseFieldValue(source.raw, field, referenceDate);
+  const code = error || (field.required && !source.raw.trim() ? 'required' : undefined);
+  if (code) errors.push({ path, code, message: SCHEMA_ERROR_MESSAGES[code] });
+
+  return { ...source, value, ...(remark ? { remark } : {}) };
+}
+
+function fromEntity(entity: ExtractedEntity | undefined): Omit<PurchaseOrderField, 'value'> {
+  if (!entity) return { raw: '' };
+  return {
+    raw: entity.value || entity.normalizedValue || '',
+    confidence: entity.confidence,
+    ...(entity.boundingBox ? { boundingBox: entity.boundingBox } : {}),
+  };
+}
+
+function assemble(
+  schema: OrderSchema,
+  headerSources: Record<string, Omit<PurchaseOrderField, 'value'>>,
+  lineSources: { page: number; fields: Record<string, Omit<PurchaseOrderField, 'value'>> }[]
+): PurchaseOrder {
+  const errors: SchemaError[] = [];
+
+  const header = Object.fromEntries(schema.headerFields.map(field => {
+    const key = getHeaderFieldKey(field);
+    return [key, toField(headerSources[key] || { raw: '' }, field, getHeaderErrorPath(key), errors)];
+  }));
+
+  // 明細の年のない日付（納期など）は注文日を基準に年を推定する
+  const orderDate = header.order_date?.value;
+  const referenceDate = typeof orderDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(orderDate) ? orderDate : null;
+
+  const lines = lineSources.map((line, index) => ({
+    page: line.page,
+    fields: Object.fromEntries(schema.itemColumns.map(col => [
+      col.key,
+      toField(line.fields[col.key] || { raw: '' }, col, getLineErrorPath(index, col.key), errors, referenceDate),
+    ])),
+  }));
+
+  const recipientValue = (key: string) => {
+    const value = header[`recipient_company.${key}`]?.value;
+    return typeof value === 'string' ? value : null;
+  };
+
+  return {
+    processorType: schema.id,
+    header,
+    recipientCompany: { name: recipientValue('name'), address: recipientValue('address') },
+    lines,
+    errors,
+  };
+}
+
+// OCRのエンティティから注文書を作成する
+// parentが指定されたヘッダー項目はそのエンティティ（recipient_companyなど）のpropertiesから取得する
+export function buildPurchaseOrder(entities: ExtractedEntity[], schema: OrderSchema): PurchaseOrder {
+  const headerSources = Object.fromEntries(schema.headerFields.map(field => {
+    const source = field.parent
+      ? entities.find(e => e.type === field.parent)?.properties || []
+      : entities;
+    return [getHeaderFieldKey(field), fromEntity(source.find(e => e.type === field.key))];
+  }));
+
+  const lineSources = entities
+    .filter(e => e.type === 'item')
+    .map(item => ({
+      page: item.page,
+      fields: Object.fromEntries(schema.itemColumns.map(col => [
+        col.key,
+        fromEntity(item.properties.find(prop => prop.type === col.key)),
+      ])),
+    }));
+
+  return assemble(schema, headerSources, lineSources);
+}
+
+// 手修正後の値から注文書を作成する（画面での検証・出力用）
+export function toPurchaseOrder({ header, rows }: OrderValues, schema: OrderSchema): PurchaseOrder {
+  const toSources = (values: Record<string, string>) =>
+    Object.fromEntries(Object.entries(values).map(([key, raw]) => [key, { raw }]));
+
+  return assemble(
+    schema,
+    toSources(header),
+    rows.map(row => ({ page: row.page, fields: toSources(row.values) }))
+  );
+}
+
+// 出力用の値（型変換できた場合は変換後の値と備考、できなかった場合は読み取ったままの文字列）
+export function formatFieldValue(field: PurchaseOrderField | undefined): string {
+  if (!field) return '';
+  if (field.value === null) return field.raw;
+  return field.remark ? `${field.value} ${field.remark}` : String(field.value);
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+
+// ローカルファイルによる永続化の共通処理
+// 外部サービスなしで動かせるよう、データはすべて data/ 配下のJSONファイルに保存する
+
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+export function getDataPath(...segments: string[]): string {
+  return path.join(getDataDir(), ...segments);
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+// 書き込み途中のファイルを読まれないよう、一時ファイルに書いてから置き換える
+export async function writeBinaryFile(filePath: string, contents: Buffer | string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.promises.writeFile(tempPath, contents);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+export async function writeTextFile(filePath: string, contents: string): Promise<void> {
+  await writeBinaryFile(filePath, contents);
+}
+
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await writeTextFile(filePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+// 同じファイルへの読み込み→更新→書き込みを直列化する
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(filePath) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(filePath, next);
+  next.finally(() => {
+    if (locks.get(filePath) === next) locks.delete(filePath);
+  }).catch(() => undefined);
+  return next;
+}
@@ -0,0 +1,130 @@
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  checkBatchFileCount,
+  checkContentLength,
+  consumeUploadBudget,
+  getUploadLimits,
+  UploadError,
+  validateUploadContent,
+} from './index';
+import { consumeRateLimit } from './rate-limit';
+
+async function createPdf(pageCount: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+// 利用履歴はプロセス内で共有されるため、テストごとに別のユーザー名を使う
+let userCount = 0;
+function nextUser(): string {
+  return `user-${++userCount}`;
+}
+
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  process.env.RATE_LIMIT_PAGE_BUDGET = '10';
+  process.env.RATE_LIMIT_WINDOW_SECONDS = '60';
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe('getUploadLimits', () => {
+  it('環境変数がなければ既定の上限を使う', () => {
+    delete process.env.UPLOAD_MAX_FILE_SIZE_MB;
+    delete process.env.UPLOAD_MAX_PAGES;
+    delete process.env.UPLOAD_MAX_BATCH_FILES;
+    delete process.env.UPLOAD_ALLOWED_TYPES;
+
+    const limits = getUploadLimits();
+    expect(limits).toMatchObject({ maxFileBytes: 20 * 1024 * 1024, maxPages: 100, maxBatchFiles: 50 });
+    expect(limits.allowedTypes).toContain('application/pdf');
+  });
+
+  it('環境変数で上限と受け付ける形式を変更できる', () => {
+    process.env.UPLOAD_MAX_FILE_SIZE_MB = '5';
+    process.env.UPLOAD_MAX_PAGES = '3';
+    process.env.UPLOAD_MAX_BATCH_FILES = '2';
+    process.env.UPLOAD_ALLOWED_TYPES = 'application/pdf, image/png';
+
+    expect(getUploadLimits()).toEqual({
+      maxFileBytes: 5 * 1024 * 1024,
+      maxPages: 3,
+      maxBatchFiles: 2,
+      allowedTypes: ['application/pdf', 'image/png'],
+    });
+  });
+});
+
+describe('checkContentLength・checkBatchFileCount', () => {
+  it('リクエスト全体のサイズがファイル数分の上限と余裕を超える場合はfile_too_largeにする', () => {
+    process.env.UPLOAD_MAX_FILE_SIZE_MB = '1';
+    const headers = (length: number) => new Headers({ 'content-length': String(length) });
+
+    expect(() => checkContentLength(headers(2 * 1024 * 1024))).not.toThrow();
+    expect(() => checkContentLength(headers(2 * 1024 * 1024 + 1))).toThrow(expect.objectContaining({ code: 'file_too_large', status: 413 }));
+    expect(() => checkContentLength(headers(4 * 1024 * 1024), 3)).not.toThrow();
+    expect(() => checkContentLength(new Headers())).not.toThrow();
+  });
+
+  it('一括処理のファイル数が上限を超える場合はtoo_many_filesにする', () => {
+    process.env.UPLOAD_MAX_BATCH_FILES = '2';
+
+    expect(() => checkBatchFileCount(2)).not.toThrow();
+    expect(() => checkBatchFileCount(3)).toThrow(expect.objectContaining({ code: 'too_many_files', options: { details: { maxFiles: 2, count: 3 } } }));
+  });
+});
+
+describe('validateUploadContent', () => {
+  it('ファイルの内容から形式を判定し、ページ数を数える', async () => {
+    const upload = await validateUploadContent('order.pdf', await createPdf(2));
+    expect(upload).toMatchObject({ name: 'order.pdf', type: 'application/pdf', reportedType: 'application/pdf', pageCount: 2 });
+  });
+
+  it('空のファイル・対応していない形式・ページ数の上限超過を断る', async () => {
+    process.env.UPLOAD_MAX_PAGES = '2';
+
+    await expect(validateUploadContent('empty.pdf', Buffer.alloc(0))).rejects.toMatchObject({ code: 'file_missing' });
+    await expect(validateUploadContent('order.pdf', Buffer.from('注文書です'))).rejects.toMatchObject({ code: 'unsupported_type', status: 415 });
+    await expect(validateUploadContent('long.pdf', await createPdf(3))).rejects.toMatchObject({
+      code: 'too_many_pages',
+      options: { fileName: 'long.pdf', details: { maxPages: 2, pageCount: 3 } },
+    });
+  });
+});
+
+describe('consumeUploadBudget', () => {
+  it('ユーザーごとに予算内のページ数だけ受け付ける', () => {
+    const [first, second] = [nextUser(), nextUser()];
+
+    consumeUploadBudget(first, 6);
+    expect(() => consumeUploadBudget(first, 5)).toThrow(UploadError);
+    expect(() => consumeUploadBudget(second, 5)).not.toThrow();
+    // 断った分は利用量に含めない
+    expect(() => consumeUploadBudget(first, 4)).not.toThrow();
+  });
+
+  it('1回で予算そのものを超える場合は利用量を確認せずに断る', () => {
+    expect(() => consumeUploadBudget(nextUser(), 11)).toThrow(expect.objectContaining({
+      code: 'rate_limited',
+      options: { details: { budget: 10, pages: 11 } },
+    }));
+  });
+
+  it('期間を過ぎた利用は数えず、断る場合は回復するまでの秒数を返す', () => {
+    const user = nextUser();
+    const now = Date.now();
+
+    expect(consumeRateLimit(user, 4, now - 50_000)).toMatchObject({ allowed: true, remaining: 6 });
+    expect(consumeRateLimit(user, 4, now - 20_000)).toMatchObject({ allowed: true, remaining: 2 });
+    // 最初の利用が期間外になれば収まる
+    expect(consumeRateLimit(user, 5, now)).toEqual({ allowed: false, remaining: 2, retryAfterSeconds: 10 });
+    expect(consumeRateLimit(user, 5, now + 10_001)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+});
@@ -0,0 +1,221 @@
+import { ProviderConfigurationError, ProviderError } from '@/lib/ocr/types';
+import { countPages, PreprocessError, sniffMimeType } from '@/lib/preprocess';
+import { ProcessorRegistryError } from '@/lib/processors';
+import { AUTO_PROCESSOR_TYPE } from '@/lib/processors/detection';
+import { ProcessorConfig } from '@/lib/processors/types';
+import { consumeRateLimit, getRateLimitConfig } from './rate-limit';
+import { UploadErrorCode } from './types';
+
+export * from './types';
+export { getRateLimitConfig } from './rate-limit';
+
+// アップロードを受け付けられない（上限超過・対応していない形式・利用量の超過など）
+export class UploadError extends Error {
+  constructor(
+    public readonly code: UploadErrorCode,
+    message: string,
+    public readonly status: number,
+    public readonly options: { fileName?: string; details?: Record<string, number | string> } = {}
+  ) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// 監査ログ・取り込み状況に記録するエラーコード
+export function getUploadErrorCode(error: unknown): UploadErrorCode {
+  if (error instanceof UploadError) return error.code;
+  if (error instanceof ProviderError) return error.code;
+  if (error instanceof PreprocessError) return 'invalid_file';
+  if (error instanceof ProviderConfigurationError || error instanceof ProcessorRegistryError) return 'configuration_error';
+  return 'processing_failed';
+}
+
+const DEFAULT_ALLOWED_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/tiff',
+  'image/gif',
+  'image/bmp',
+  'image/webp',
+  'image/heic',
+];
+
+export interface UploadLimits {
+  maxFileBytes: number;
+  maxPages: number;
+  maxBatchFiles: number;
+  allowedTypes: string[];
+}
+
+// アップロードの上限（環境変数で変更できる）
+export function getUploadLimits(): UploadLimits {
+  const allowedTypes = (process.env.UPLOAD_ALLOWED_TYPES || '')
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean);
+
+  return {
+    maxFileBytes: (Number(process.env.UPLOAD_MAX_FILE_SIZE_MB) || 20) * 1024 * 1024,
+    maxPages: Number(process.env.UPLOAD_MAX_PAGES) || 100,
+    maxBatchFiles: Number(process.env.UPLOAD_MAX_BATCH_FILES) || 50,
+    allowedTypes: allowedTypes.length > 0 ? allowedTypes : DEFAULT_ALLOWED_TYPES,
+  };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10}MB`;
+}
+
+// リクエスト全体のサイズ（Content-Length）が上限を超える場合は、本文を読み込む前に断る
+export function checkContentLength(headers: Headers, fileCount = 1): void {
+  const { maxFileBytes } = getUploadLimits();
+  const length = Number(headers.get('content-length'));
+  // マルチパートの区切りやプロセッサタイプの分の余裕（1MB）を見込む
+  const limit = maxFileBytes * fileCount + 1024 * 1024;
+  if (length > limit) {
+    throw new UploadError('file_too_large', `ファイルサイズが上限（${formatMegabytes(maxFileBytes)}）を超えています`, 413, {
+      details: { maxBytes: maxFileBytes },
+    });
+  }
+}
+
+export interface ValidatedUpload {
+  name: string;
+  // ファイルの内容から判定したMIMEタイプ
+  type: string;
+  // ブラウザが申告したMIMEタイプ
+  reportedType: string;
+  content: Buffer;
+  pageCount: number;
+}
+
+// アップロードされたファイルのサイズ・形式（ファイルの先頭のバイト列で判定）・ページ数を検証する
+export async function validateUpload(entry: FormDataEntryValue | null): Promise<ValidatedUpload> {
+  if (!(entry instanceof File) || entry.size === 0) {
+    throw new UploadError('file_missing', 'ファイルが見つかりません', 400);
+  }
+
+  const { maxFileBytes } = getUploadLimits();
+  // 本文を読み込む前にサイズを確認する
+  if (entry.size > maxFileBytes) {
+    throw fileTooLargeError(entry.name, entry.size, maxFileBytes);
+  }
+
+  const upload = await validateUploadContent(entry.name, Buffer.from(await entry.arrayBuffer()));
+  return { ...upload, reportedType: entry.type };
+}
+
+function fileTooLargeError(fileName: string, size: number, maxFileBytes: number): UploadError {
+  return new UploadError(
+    'file_too_large',
+    `${fileName}のサイズ（${formatMegabytes(size)}）が上限（${formatMegabytes(maxFileBytes)}）を超えています`,
+    413,
+    { fileName, details: { maxBytes: maxFileBytes, size } }
+  );
+}
+
+// ファイルの内容を検証する（アップロード以外で受け取ったファイル（メールの添付ファイルなど）にも使う）
+// 申告されたMIMEタイプがないため、reportedType には内容から判定したMIMEタイプを入れる
+export async function validateUploadContent(fileName: string, content: Buffer): Promise<ValidatedUpload> {
+  const limits = getUploadLimits();
+
+  if (content.length === 0) {
+    throw new UploadError('file_missing', `${fileName}が空のファイルです`, 400, { fileName });
+  }
+  if (content.length > limits.maxFileBytes) {
+    throw fileTooLargeError(fileName, content.length, limits.maxFileBytes);
+  }
+
+  const type = sniffMimeType(content);
+  if (!type || !limits.allowedTypes.includes(type)) {
+    throw new UploadError(
+      'unsupported_type',
+      `${fileName}は対応していないファイル形式です`,
+      415,
+      { fileName, details: { detectedType: type || 'unknown' } }
+    );
+  }
+
+  let pageCount: number;
+  try {
+    pageCount = await countPages(content, type);
+  } catch (error) {
+    if (error instanceof PreprocessError) {
+      throw new UploadError('invalid_file', `${fileName}: ${error.message}`, 400, { fileName });
+    }
+    throw error;
+  }
+
+  if (pageCount > limits.maxPages) {
+    throw new UploadError(
+      'too_many_pages',
+      `${fileName}のページ数（${pageCount}ページ）が上限（${limits.maxPages}ページ）を超えています`,
+      413,
+      { fileName, details: { maxPages: limits.maxPages, pageCount } }
+    );
+  }
+
+  return { name: fileName, type, reportedType: type, content, pageCount };
+}
+
+// 指定された取引先（auto の場合は自動判定としてundefined、未指定の場合は取引先設定の先頭）
+export function resolveUploadProcessor(processors: ProcessorConfig[], processorType: string | null): ProcessorConfig | undefined {
+  const type = processorType || processors[0].id;
+  if (type === AUTO_PROCESSOR_TYPE) return undefined;
+
+  const processor = processors.find(p => p.id === type);
+  if (!processor) {
+    throw new UploadError(
+      'invalid_processor',
+      `無効なプロセッサタイプです。${[AUTO_PROCESSOR_TYPE, ...processors.map(p => p.id)].join('、')}のいずれかを指定してください。`,
+      400
+    );
+  }
+  return processor;
+}
+
+// 一括処理のファイル数を検証する
+export function checkBatchFileCount(count: number): void {
+  const { maxBatchFiles } = getUploadLimits();
+  if (count > maxBatchFiles) {
+    throw new UploadError(
+      'too_many_files',
+      `一度に処理できるファイルは${maxBatchFiles}件までです（${count}件選択されています）`,
+      413,
+      { details: { maxFiles: maxBatchFiles, count } }
+    );
+  }
+}
+
+// 1回で解析するページ数が予算そのものを超える場合は、待っても受け付けられないため先に断る
+export function checkUploadBudget(pages: number): void {
+  const { budget } = getRateLimitConfig();
+  if (pages > budget) {
+    throw new UploadError(
+      'rate_limited',
+      `一度に解析できるのは${budget}ページまでです（${pages}ページ）。ファイルを分けてください`,
+      429,
+      { details: { budget, pages } }
+    );
+  }
+}
+
+// OCRプロバイダーで解析するページ数を、ログインユーザーの利用量に加える（上限を超える場合はUploadError）
+// 送信元が自由に変えられるヘッダー（X-Forwarded-Forなど）ではなく、セッションのユーザーごとに数える
+// OCR結果のキャッシュを使う場合はプロバイダーを呼び出さないため、呼び出す直前に加える
+export function consumeUploadBudget(username: string, pages: number): void {
+  checkUploadBudget(pages);
+
+  const result = consumeRateLimit(username, pages);
+  if (!result.allowed) {
+    const minutes = Math.ceil(result.retryAfterSeconds / 60);
+    throw new UploadError(
+      'rate_limited',
+      `解析できるページ数の上限に達しました。約${minutes}分後に再度お試しください（残り${result.remaining}ページ）`,
+      429,
+      { details: { retryAfterSeconds: result.retryAfterSeconds, remaining: result.remaining, pages } }
+    );
+  }
+}
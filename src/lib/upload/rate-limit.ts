@@ -0,0 +1,48 @@
+// ユーザーごとのOCR利用量の制限
+// Document AIはページ単位の従量課金のため、一定時間内に解析できるページ数（予算）で制限する
+
+interface Usage {
+  at: number;
+  pages: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // 残りのページ数
+  remaining: number;
+  // 予算が回復し始めるまでの秒数（allowed: falseの場合）
+  retryAfterSeconds: number;
+}
+
+// 開発時のホットリロードで利用履歴が消えないよう globalThis に保持する
+const store = globalThis as typeof globalThis & { __uploadUsage?: Map<string, Usage[]> };
+const usage = (store.__uploadUsage ??= new Map<string, Usage[]>());
+
+export function getRateLimitConfig(): { budget: number; windowMs: number } {
+  return {
+    budget: Number(process.env.RATE_LIMIT_PAGE_BUDGET) || 100,
+    windowMs: (Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 3600) * 1000,
+  };
+}
+
+// 直近の期間内の利用ページ数が予算内であれば、今回のページ数を記録する（予算を超える場合は記録しない）
+export function consumeRateLimit(userId: string, pages: number, now = Date.now()): RateLimitResult {
+  const { budget, windowMs } = getRateLimitConfig();
+  const recent = (usage.get(userId) || []).filter(entry => entry.at > now - windowMs);
+  const used = recent.reduce((sum, entry) => sum + entry.pages, 0);
+
+  if (used + pages > budget) {
+    usage.set(userId, recent);
+    // 古い利用から順に期間外になり、今回のページ数が収まるまでの時間
+    let released = budget - used;
+    const retryAt = recent.find(entry => (released += entry.pages) >= pages)?.at ?? now;
+    return {
+      allowed: false,
+      remaining: Math.max(0, budget - used),
+      retryAfterSeconds: Math.max(1, Math.ceil((retryAt + windowMs - now) / 1000)),
+    };
+  }
+
+  usage.set(userId, [...recent, { at: now, pages }]);
+  return { allowed: true, remaining: budget - used - pages, retryAfterSeconds: 0 };
+}
@@ -0,0 +1,26 @@
+import type { ProviderErrorCode } from '@/lib/ocr/types';
+
+// アップロードAPI（/api/document-ai・/api/batches）のエラー
+// 画面はcodeで表示する文言を切り替える（errorは日本語のメッセージ）
+
+export type UploadErrorCode =
+  | 'file_missing'
+  | 'too_many_files'
+  | 'file_too_large'
+  | 'too_many_pages'
+  | 'unsupported_type'
+  | 'invalid_file'
+  | 'invalid_processor'
+  | 'rate_limited'
+  | 'configuration_error'
+  | 'processing_failed'
+  | ProviderErrorCode;
+
+export interface UploadErrorBody {
+  error: string;
+  code: UploadErrorCode;
+  // 対象のファイル名（一括処理で特定のファイルが原因の場合）
+  fileName?: string;
+  // 上限値など（file_too_large: maxBytes、too_many_pages: maxPages、rate_limited: retryAfterSeconds など）
+  details?: Record<string, number | string>;
+}
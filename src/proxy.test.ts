@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { describe, expect, it } from 'vitest';
+
+// Next.js のサーバーが用意する AsyncLocalStorage を、テスト用の関数を読み込む前に設定する
+Object.assign(globalThis, { AsyncLocalStorage });
+
+const { unstable_doesMiddlewareMatch } = await import('next/experimental/testing/server');
+const { config } = await import('./proxy');
+
+describe('proxy の対象', () => {
+  it('画面とAPIはログインを確認する', () => {
+    for (const url of ['/', '/orders', '/api/orders', '/api/batches/abc', '/api/products/import']) {
+      expect(unstable_doesMiddlewareMatch({ config, url }), url).toBe(true);
+    }
+  });
+
+  it('アップロードAPIは本文を10MBで切り詰めないよう対象外にする', () => {
+    for (const url of ['/api/document-ai', '/api/batches']) {
+      expect(unstable_doesMiddlewareMatch({ config, url }), url).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,13 @@
+// heic-decode は型定義を同梱していないため、使用する範囲のみ定義する
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    // RGBA
+    data: Uint8ClampedArray;
+  }
+
+  function decode(options: { buffer: Buffer | ArrayBuffer }): Promise<DecodedImage>;
+
+  export default decode;
+}